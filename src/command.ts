@@ -1,10 +1,28 @@
 import fs from "fs"
-import { openDatabase, resolvePlanMarkdownPath, ensureParentDir } from "./lib/db"
+import { openDatabase, resolvePlanMarkdownPath, ensureParentDir, type DatabaseConnection } from "./lib/db"
 import { PlanpilotApp } from "./lib/app"
+import { formatBudgetStatus, parsePlanBudget, planBudgetStatus } from "./lib/budget"
+import {
+  CONFIG_ENV_OVERRIDE,
+  DEFAULT_PLANPILOT_CONFIG,
+  configValueAt,
+  diagnosticWithin,
+  formatConfigDiagnostic,
+  loadGlobalPlanpilotConfig,
+  loadPlanpilotConfig,
+  normalizePlanpilotConfig,
+  savePlanpilotConfig,
+  withConfigValue,
+  type ConfigDiagnostic,
+  type EffectivePlanpilotConfig,
+} from "./lib/config"
 import {
   createEmptyStatusChanges,
   statusChangesEmpty,
+  type AutoRouting,
+  type GoalRow,
   type GoalStatus,
+  type GoalVerify,
   type PlanOrder,
   type PlanStatus,
   type StepExecutor,
@@ -12,12 +30,52 @@ import {
 } from "./lib/models"
 import { AppError, invalidInput } from "./lib/errors"
 import { ensureNonEmpty, projectMatchesPath, resolveMaybeRealpath } from "./lib/util"
-import { formatGoalDetail, formatPlanDetail, formatPlanMarkdown, formatStepDetail } from "./lib/format"
+import {
+  formatEventLine,
+  formatGoalDetail,
+  formatPlanDetail,
+  formatPlanMarkdown,
+  formatStepDetail,
+  formatStepParents,
+} from "./lib/format"
+import { parsePlanMarkdown } from "./lib/markdown"
+import { previewAutoContinueMessage } from "./lib/message-template"
+import {
+  DEFAULT_WAIT_TIMEOUT_MS,
+  formatWaitCondition,
+  parseWaitConditionSpec,
+  parseWaitTimeoutAction,
+  prepareWaitCondition,
+} from "./lib/wait"
+import { DEFAULT_TRACE_LIMIT, RuntimeTraceStore, formatTraceRow } from "./lib/runtime-trace"
+import { formatGoalCheck, goalVerify, parseGoalVerify, verifyGoalsByStep } from "./lib/verify"
+import { fireHooks } from "./lib/hooks"
+import {
+  formatPlanDocument,
+  inferPlanFileFormat,
+  parsePlanDocumentText,
+  parsePlanFileFormat,
+  planDetailToDocument,
+  type PlanFileFormat,
+} from "./lib/document"
+import {
+  listPlanTemplates,
+  loadPlanTemplate,
+  planDetailToTemplate,
+  renderPlanTemplate,
+  savePlanTemplate,
+} from "./lib/templates"
 import { PLANPILOT_HELP_TEXT } from "./prompt"
 
 const DEFAULT_PAGE = 1
 const DEFAULT_LIMIT = 20
 
+const ROUTING_FLAGS = new Map<string, "agent" | "model" | "variant">([
+  ["--agent", "agent"],
+  ["--model", "model"],
+  ["--variant", "variant"],
+])
+
 export type CommandIO = {
   log: (...args: any[]) => void
 }
@@ -68,45 +126,88 @@ export async function runCommand(argv: string[], context: CommandContext, io: Co
     const db = openDatabase()
     const resolvedCwd = resolveMaybeRealpath(context.cwd)
     const app = new PlanpilotApp(db, context.sessionId, resolvedCwd)
-
-    let planIds: number[] = []
-    let shouldSync = false
-
-    switch (section) {
-      case "help": {
-        if (subcommand !== undefined || args.length) {
-          const rest = [subcommand, ...args].filter((x) => x !== undefined)
-          throw invalidInput(`help unexpected argument: ${rest.join(" ")}`)
-        }
-        log(PLANPILOT_HELP_TEXT)
-        return
-      }
-      case "plan": {
-        const result = await handlePlan(app, subcommand, args, { cwd: context.cwd })
-        planIds = result.planIds
-        shouldSync = result.shouldSync
-        break
-      }
-      case "step": {
-        const result = await handleStep(app, subcommand, args)
-        planIds = result.planIds
-        shouldSync = result.shouldSync
-        break
-      }
-      case "goal": {
-        const result = await handleGoal(app, subcommand, args)
-        planIds = result.planIds
-        shouldSync = result.shouldSync
-        break
+    const hookCursor = app.latestEventId()
+    try {
+      await runSection(app, db, section, subcommand, args, context)
+    } finally {
+      try {
+        const results = await fireHooks(app, hookCursor, loadPlanpilotConfig(resolvedCwd).config.hooks, {
+          sessionId: context.sessionId,
+          cwd: resolvedCwd,
+        })
+        results
+          .filter((result) => !result.ok)
+          .forEach((result) => log(`Hook for ${result.event} failed (${result.target}): ${result.error}`))
+      } catch (err) {
+        log(`Hooks failed: ${err instanceof Error ? err.message : String(err)}`)
       }
-      default:
-        throw invalidInput(`unknown command: ${section}`)
     }
+  })
+}
 
-    if (shouldSync) {
-      syncPlanMarkdown(app, planIds)
+async function runSection(
+  app: PlanpilotApp,
+  db: DatabaseConnection,
+  section: string,
+  subcommand: string | undefined,
+  args: string[],
+  context: CommandContext,
+) {
+  let planIds: number[] = []
+  let shouldSync = false
+
+  switch (section) {
+    case "help": {
+      if (subcommand !== undefined || args.length) {
+        const rest = [subcommand, ...args].filter((x) => x !== undefined)
+        throw invalidInput(`help unexpected argument: ${rest.join(" ")}`)
+      }
+      log(PLANPILOT_HELP_TEXT)
+      return
     }
-  })
+    case "plan": {
+      const result = await handlePlan(app, subcommand, args, { cwd: context.cwd })
+      planIds = result.planIds
+      shouldSync = result.shouldSync
+      break
+    }
+    case "step": {
+      const result = await handleStep(app, subcommand, args, { cwd: context.cwd })
+      planIds = result.planIds
+      shouldSync = result.shouldSync
+      break
+    }
+    case "goal": {
+      const result = await handleGoal(app, subcommand, args, { cwd: context.cwd })
+      planIds = result.planIds
+      shouldSync = result.shouldSync
+      break
+    }
+    case "undo": {
+      const rest = [subcommand, ...args].filter((x): x is string => x !== undefined)
+      planIds = handleUndo(app, rest)
+      shouldSync = true
+      break
+    }
+    case "prompt": {
+      handlePrompt(app, subcommand, args, context)
+      return
+    }
+    case "runtime": {
+      handleRuntime(db, context.sessionId, subcommand, args)
+      return
+    }
+    case "config": {
+      handleConfig(subcommand, args, context)
+      return
+    }
+    default:
+      throw invalidInput(`unknown command: ${section}`)
+  }
+
+  if (shouldSync) {
+    syncPlanMarkdown(app, planIds)
+  }
 }
 
 function requireCwd(cwd: string | undefined): string {
@@ -137,6 +238,18 @@ async function handlePlan(
       return { planIds: handlePlanShow(app, args), shouldSync: false }
     case "export":
       return { planIds: handlePlanExport(app, args), shouldSync: false }
+    case "import":
+      return { planIds: handlePlanImport(app, args), shouldSync: true }
+    case "queue":
+      return handlePlanQueue(app, args)
+    case "template":
+      return { planIds: handlePlanTemplate(app, args), shouldSync: false }
+    case "from-template":
+      return { planIds: handlePlanFromTemplate(app, args), shouldSync: true }
+    case "history":
+      return { planIds: handlePlanHistory(app, args), shouldSync: false }
+    case "revert":
+      return { planIds: handlePlanRevert(app, args), shouldSync: true }
     case "comment":
       return { planIds: handlePlanComment(app, args), shouldSync: true }
     case "update":
@@ -148,7 +261,9 @@ async function handlePlan(
     case "activate":
       return { planIds: handlePlanActivate(app, args), shouldSync: true }
     case "show-active":
-      return { planIds: handlePlanActive(app), shouldSync: false }
+      return { planIds: handlePlanActive(app, context), shouldSync: false }
+    case "budget":
+      return handlePlanBudget(app, args, context)
     case "deactivate":
       return { planIds: handlePlanDeactivate(app), shouldSync: true }
     default:
@@ -156,7 +271,12 @@ async function handlePlan(
   }
 }
 
-async function handleStep(app: PlanpilotApp, subcommand: string | undefined, args: string[]) {
+async function handleStep(
+  app: PlanpilotApp,
+  subcommand: string | undefined,
+  args: string[],
+  context: { cwd: string | undefined },
+) {
   switch (subcommand) {
     case "add":
       return { planIds: handleStepAdd(app, args), shouldSync: true }
@@ -171,7 +291,7 @@ async function handleStep(app: PlanpilotApp, subcommand: string | undefined, arg
     case "show-next":
       return { planIds: handleStepShowNext(app), shouldSync: false }
     case "wait":
-      return { planIds: handleStepWait(app, args), shouldSync: true }
+      return { planIds: await handleStepWait(app, args, context.cwd), shouldSync: true }
     case "comment":
       return { planIds: handleStepComment(app, args), shouldSync: true }
     case "update":
@@ -187,7 +307,12 @@ async function handleStep(app: PlanpilotApp, subcommand: string | undefined, arg
   }
 }
 
-async function handleGoal(app: PlanpilotApp, subcommand: string | undefined, args: string[]) {
+async function handleGoal(
+  app: PlanpilotApp,
+  subcommand: string | undefined,
+  args: string[],
+  context: { cwd: string | undefined },
+) {
   switch (subcommand) {
     case "add":
       return { planIds: handleGoalAdd(app, args), shouldSync: true }
@@ -203,6 +328,8 @@ async function handleGoal(app: PlanpilotApp, subcommand: string | undefined, arg
       return { planIds: handleGoalUpdate(app, args), shouldSync: true }
     case "done":
       return { planIds: handleGoalDone(app, args), shouldSync: true }
+    case "verify":
+      return { planIds: await handleGoalVerify(app, args, context.cwd), shouldSync: true }
     case "remove":
       return { planIds: handleGoalRemove(app, args), shouldSync: true }
     default:
@@ -217,7 +344,7 @@ function handlePlanAddTree(app: PlanpilotApp, args: string[]): number[] {
   }
   ensureNonEmpty("plan title", title)
   ensureNonEmpty("plan content", content)
-  const specs = parsePlanAddTreeSteps(rest)
+  const { steps: specs, routing } = parsePlanAddTreeSteps(rest)
   if (!specs.length) {
     throw invalidInput("plan add-tree requires at least one --step")
   }
@@ -225,8 +352,10 @@ function handlePlanAddTree(app: PlanpilotApp, args: string[]): number[] {
     content: spec.content,
     executor: spec.executor ?? "ai",
     goals: spec.goals ?? [],
+    after: spec.after,
+    ...spec.routing,
   }))
-  const result = app.addPlanTree({ title, content }, steps)
+  const result = app.addPlanTree({ title, content, ...routing }, steps)
   log(`Created plan ID: ${result.plan.id}: ${result.plan.title} (steps: ${result.stepCount}, goals: ${result.goalCount})`)
   app.setActivePlan(result.plan.id, false)
   log(`Active plan set to ${result.plan.id}: ${result.plan.title}`)
@@ -234,7 +363,7 @@ function handlePlanAddTree(app: PlanpilotApp, args: string[]): number[] {
   // Print full detail so the AI can reference plan/step/goal IDs immediately.
   const detail = app.getPlanDetail(result.plan.id)
   log("")
-  log(formatPlanDetail(detail.plan, detail.steps, detail.goals))
+  log(formatPlanDetail(detail.plan, detail.steps, detail.goals, detail.dependencies, detail.children))
   return [result.plan.id]
 }
 
@@ -388,30 +517,500 @@ function handlePlanSearch(
   return []
 }
 
+function handlePlanHistory(app: PlanpilotApp, args: string[]): number[] {
+  if (!args.length) {
+    throw invalidInput("plan history requires <id>")
+  }
+  const planId = parseNumber(args[0], "plan id")
+  const { options, positionals } = parseOptions(args.slice(1))
+  if (positionals.length) {
+    throw invalidInput(`plan history unexpected argument: ${positionals.join(" ")}`)
+  }
+  const allowed = new Set(["limit", "page"])
+  for (const key of Object.keys(options)) {
+    if (key === "search" && Array.isArray(options.search) && options.search.length === 0) continue
+    if (!allowed.has(key)) {
+      throw invalidInput(`plan history does not support --${key}`)
+    }
+  }
+  const pagination = resolvePagination(options, { limit: DEFAULT_LIMIT, page: DEFAULT_PAGE })
+  const total = app.countPlanHistory(planId)
+  if (total === 0) {
+    log(`No history found for plan ID: ${planId}.`)
+    return []
+  }
+  const totalPages = Math.ceil(total / pagination.limit)
+  if (pagination.page > totalPages) {
+    log(`Page ${pagination.page} exceeds total pages ${totalPages} for plan ID: ${planId}.`)
+    return []
+  }
+  const events = app.planHistory(planId, { limit: pagination.limit, offset: pagination.offset })
+  events.forEach((event) => log(formatEventLine(event)))
+  logPageFooter(pagination.page, pagination.limit)
+  return []
+}
+
+function handlePlanRevert(app: PlanpilotApp, args: string[]): number[] {
+  if (!args.length) {
+    throw invalidInput("plan revert requires <id> --to <timestamp>")
+  }
+  const planId = parseNumber(args[0], "plan id")
+  const { options, positionals } = parseOptions(args.slice(1))
+  if (positionals.length) {
+    throw invalidInput(`plan revert unexpected argument: ${positionals.join(" ")}`)
+  }
+  for (const key of Object.keys(options)) {
+    if (key === "search" && Array.isArray(options.search) && options.search.length === 0) continue
+    if (key !== "to") {
+      throw invalidInput(`plan revert does not support --${key}`)
+    }
+  }
+  if (options.to === undefined) {
+    throw invalidInput("plan revert requires --to <timestamp>")
+  }
+  const to = parseTimestamp(options.to)
+  const result = app.revertPlan(planId, to)
+  if (!result.events) {
+    log(`No changes to plan ID: ${planId} after ${new Date(to).toISOString()}.`)
+    return []
+  }
+  log(`Reverted ${result.events} change(s) to plan ID: ${planId} made after ${new Date(to).toISOString()}.`)
+  printStatusChanges(result.changes)
+  return result.planIds
+}
+
+function handleUndo(app: PlanpilotApp, args: string[]): number[] {
+  const { options, positionals } = parseOptions(args)
+  if (positionals.length) {
+    throw invalidInput(`undo unexpected argument: ${positionals.join(" ")}`)
+  }
+  for (const key of Object.keys(options)) {
+    if (key === "search" && Array.isArray(options.search) && options.search.length === 0) continue
+    if (key !== "count") {
+      throw invalidInput(`undo does not support --${key}`)
+    }
+  }
+  const count = options.count !== undefined ? parseNumber(options.count, "count") : 1
+  const result = app.undo(count)
+  if (!result.mutations) {
+    log("Nothing to undo in this session.")
+    return []
+  }
+  log(`Undid ${result.mutations} mutation(s) (${result.events} change(s)).`)
+  printStatusChanges(result.changes)
+  return result.planIds
+}
+
+function handlePrompt(app: PlanpilotApp, subcommand: string | undefined, args: string[], context: CommandContext) {
+  switch (subcommand) {
+    case "preview":
+      return handlePromptPreview(app, args, context)
+    default:
+      throw invalidInput(`unknown prompt command: ${subcommand ?? ""}`)
+  }
+}
+
+// Renders the message auto-continue would send now for the active plan's next step, without sending it
+// or counting against the budget.
+function handlePromptPreview(app: PlanpilotApp, args: string[], context: { cwd: string | undefined }) {
+  if (args.length) {
+    throw invalidInput(`prompt preview unexpected argument: ${args.join(" ")}`)
+  }
+  const preview = previewAutoContinueMessage(app, loadPlanpilotConfig(context.cwd).config.autoContinue.messageTemplate)
+  if (!preview.ok) {
+    log(preview.reason === "no-active-plan" ? "No active plan." : "No pending step.")
+    return
+  }
+  const { message } = preview
+  const source = message.source === "plan" ? `plan ID: ${message.planId}` : message.source
+  log(`Template: ${source}${preview.step.executor === "human" ? " (next step is human; nothing would be sent)" : ""}`)
+  if (message.error) {
+    log(`Template error: ${message.error}`)
+  }
+  log("")
+  log(message.text)
+}
+
+function handleRuntime(db: DatabaseConnection, sessionId: string, subcommand: string | undefined, args: string[]) {
+  switch (subcommand) {
+    case "explain":
+      return handleRuntimeExplain(db, sessionId, args)
+    default:
+      throw invalidInput(`unknown runtime command: ${subcommand ?? ""}`)
+  }
+}
+
+function handleConfig(subcommand: string | undefined, args: string[], context: { cwd: string | undefined }) {
+  switch (subcommand) {
+    case "show":
+      return handleConfigShow(args, context)
+    case "get":
+      return handleConfigGet(args, context)
+    case "set":
+      return handleConfigSet(args, context)
+    case "unset":
+      return handleConfigUnset(args, context)
+    case "reset":
+      return handleConfigReset(args, context)
+    case "validate":
+      return handleConfigValidate(args, context)
+    default:
+      throw invalidInput(`unknown config command: ${subcommand ?? ""}`)
+  }
+}
+
+function logConfigLayers(loaded: EffectivePlanpilotConfig) {
+  log("Config layers:")
+  loaded.layers.forEach((layer) => {
+    const state = layer.error ? "unreadable" : layer.loaded ? "loaded" : "not found"
+    log(`- ${layer.source}: ${layer.path ?? CONFIG_ENV_OVERRIDE} (${state})`)
+  })
+}
+
+// Without --effective, the global config file (what `config set` edits); with it, the merged config in
+// effect here and the layer each overridden setting comes from.
+function handleConfigShow(args: string[], context: { cwd: string | undefined }) {
+  const { options, positionals } = parseOptions(args)
+  if (positionals.length) {
+    throw invalidInput(`config show unexpected argument: ${positionals.join(" ")}`)
+  }
+  if (options.effective !== true) {
+    const loaded = loadGlobalPlanpilotConfig()
+    log(`Config file: ${loaded.path}${loaded.loadedFromFile ? "" : " (not found, using defaults)"}`)
+    log(JSON.stringify(loaded.config, null, 2))
+    return
+  }
+  const loaded = loadPlanpilotConfig(context.cwd)
+  logConfigLayers(loaded)
+  log(JSON.stringify(loaded.config, null, 2))
+  const overridden = Object.entries(loaded.sources).filter(([, source]) => source !== "default" && source !== "global")
+  if (overridden.length) {
+    log("Overridden:")
+    overridden.forEach(([key, source]) => log(`- ${key}: ${source}`))
+  }
+  if (loaded.diagnostics.length) {
+    log(`${loaded.diagnostics.length} config problem(s); run \`config validate\` for details.`)
+  }
+}
+
+function handleConfigGet(args: string[], context: { cwd: string | undefined }) {
+  const { positionals } = parseOptions(args)
+  if (positionals.length !== 1) {
+    throw invalidInput("config get requires <path>")
+  }
+  const key = positionals[0]
+  const loaded = loadPlanpilotConfig(context.cwd)
+  const value = configValueAt(loaded.config, key)
+  const source = loaded.sources[key]
+  log(`${key}: ${JSON.stringify(value, null, 2)}${source ? ` (${source})` : ""}`)
+}
+
+// Values are read as JSON when they parse (`3`, `true`, `[1000, 5000]`, `{"enabled": true}`) and as plain
+// strings otherwise.
+function parseConfigInput(text: string): unknown {
+  try {
+    return JSON.parse(text)
+  } catch {
+    return text
+  }
+}
+
+// Validates `value` at `key` against the global file and saves it; nothing is written when the value
+// would be replaced or ignored.
+function saveConfigValue(key: string, value: unknown, context: { cwd: string | undefined }, verb: string) {
+  const global = loadGlobalPlanpilotConfig()
+  if (global.loadError) {
+    throw new AppError("Io", `cannot update ${global.path}: ${global.loadError}`)
+  }
+  const normalized = normalizePlanpilotConfig(withConfigValue(global.config, key, value))
+  const problems = normalized.diagnostics.filter((diagnostic) => diagnosticWithin(diagnostic, key))
+  if (problems.length) {
+    throw invalidInput(
+      [`invalid value for ${key}:`, ...problems.map((diagnostic) => `- ${formatConfigDiagnostic(diagnostic)}`)].join("\n"),
+    )
+  }
+  const saved = savePlanpilotConfig(normalized.config)
+  log(`${verb} ${key} in ${saved.path}: ${JSON.stringify(configValueAt(saved.config, key))}`)
+  const effective = loadPlanpilotConfig(context.cwd)
+  const overrides = Object.entries(effective.sources).filter(
+    ([path, source]) => (path === key || path.startsWith(`${key}.`)) && (source === "project" || source === "env"),
+  )
+  overrides.forEach(([path, source]) => log(`Note: the ${source} layer overrides ${path}.`))
+}
+
+function handleConfigSet(args: string[], context: { cwd: string | undefined }) {
+  const { positionals } = parseOptions(args)
+  if (positionals.length !== 2) {
+    throw invalidInput("config set requires <path> <value>")
+  }
+  saveConfigValue(positionals[0], parseConfigInput(positionals[1]), context, "Set")
+}
+
+function handleConfigUnset(args: string[], context: { cwd: string | undefined }) {
+  const { positionals } = parseOptions(args)
+  if (positionals.length !== 1) {
+    throw invalidInput("config unset requires <path>")
+  }
+  const key = positionals[0]
+  saveConfigValue(key, configValueAt(DEFAULT_PLANPILOT_CONFIG, key), context, "Reset")
+}
+
+function handleConfigReset(args: string[], context: { cwd: string | undefined }) {
+  const { positionals } = parseOptions(args)
+  if (positionals.length) {
+    throw invalidInput(`config reset unexpected argument: ${positionals.join(" ")}`)
+  }
+  const saved = savePlanpilotConfig(normalizePlanpilotConfig({}).config)
+  log(`Reset ${saved.path} to the defaults.`)
+  const projectPath = loadPlanpilotConfig(context.cwd).projectPath
+  if (projectPath) {
+    log(`Note: ${projectPath} still applies on top.`)
+  }
+}
+
+// Checks the config layers in effect for the working directory, or a single file, and lists every value
+// that falls back to a default or is ignored.
+function handleConfigValidate(args: string[], context: { cwd: string | undefined }) {
+  const { positionals } = parseOptions(args)
+  if (positionals.length > 1) {
+    throw invalidInput(`config validate unexpected argument: ${positionals.slice(1).join(" ")}`)
+  }
+  let diagnostics: ConfigDiagnostic[]
+  if (positionals.length) {
+    const filePath = positionals[0]
+    let raw: unknown
+    try {
+      raw = JSON.parse(fs.readFileSync(filePath, "utf8"))
+    } catch (err) {
+      throw new AppError("Io", `failed to read ${filePath}: ${err instanceof Error ? err.message : String(err)}`)
+    }
+    diagnostics = normalizePlanpilotConfig(raw).diagnostics
+    log(`Config file: ${filePath}`)
+  } else {
+    const loaded = loadPlanpilotConfig(context.cwd)
+    diagnostics = loaded.diagnostics
+    logConfigLayers(loaded)
+  }
+  if (!diagnostics.length) {
+    log("Config is valid.")
+    return
+  }
+  log(`${diagnostics.length} problem(s):`)
+  diagnostics.forEach((diagnostic) => log(`- ${formatConfigDiagnostic(diagnostic)}`))
+}
+
+function handleRuntimeExplain(db: DatabaseConnection, sessionId: string, args: string[]) {
+  const { options, positionals } = parseOptions(args)
+  if (positionals.length) {
+    throw invalidInput(`runtime explain unexpected argument: ${positionals.join(" ")}`)
+  }
+  const { limit } = resolvePagination(options, { limit: DEFAULT_TRACE_LIMIT, page: 1 })
+  const all = options.all === true
+  const rows = new RuntimeTraceStore(db).list(all ? null : sessionId, limit)
+  if (!rows.length) {
+    log(all ? "No auto-continue decisions recorded." : "No auto-continue decisions recorded for this session.")
+    return
+  }
+  log(`Auto-continue decisions${all ? "" : ` for session ${sessionId}`} (latest ${rows.length}, oldest first):`)
+  rows.forEach((row) => log(formatTraceRow(row, all)))
+}
+
 function handlePlanShow(app: PlanpilotApp, args: string[]): number[] {
   const id = parseIdArg(args, "plan show")
   const detail = app.getPlanDetail(id)
-  log(formatPlanDetail(detail.plan, detail.steps, detail.goals))
+  log(formatPlanDetail(detail.plan, detail.steps, detail.goals, detail.dependencies, detail.children))
   return []
 }
 
+function resolvePlanFileFormat(filePath: string, format: string | undefined): PlanFileFormat {
+  if (format !== undefined) return parsePlanFileFormat(format)
+  return inferPlanFileFormat(filePath) ?? "md"
+}
+
 function handlePlanExport(app: PlanpilotApp, args: string[]): number[] {
-  if (args.length < 2) {
+  const { positionals, options } = parseOptions(args)
+  if (positionals.length !== 2) {
     throw invalidInput("plan export requires <id> <path>")
   }
-  const id = parseNumber(args[0], "plan id")
-  const filePath = args[1]
+  const id = parseNumber(positionals[0], "plan id")
+  const filePath = positionals[1]
+  const format = resolvePlanFileFormat(filePath, options.format)
   const detail = app.getPlanDetail(id)
-  const active = app.getActivePlan()
-  const isActive = active?.plan_id === detail.plan.id
-  const activatedAt = isActive ? active?.updated_at ?? null : null
+  let text: string
+  if (format === "md") {
+    const active = app.getActivePlan()
+    const isActive = active?.plan_id === detail.plan.id
+    const activatedAt = isActive ? active?.updated_at ?? null : null
+    text = formatPlanMarkdown(isActive, activatedAt ?? null, detail.plan, detail.steps, detail.goals, detail.dependencies, detail.children)
+  } else {
+    text = formatPlanDocument(planDetailToDocument(detail), format)
+  }
   ensureParentDir(filePath)
-  const markdown = formatPlanMarkdown(isActive, activatedAt ?? null, detail.plan, detail.steps, detail.goals)
-  fs.writeFileSync(filePath, markdown, "utf8")
+  fs.writeFileSync(filePath, text, "utf8")
   log(`Exported plan ID: ${detail.plan.id} to ${filePath}`)
   return []
 }
 
+function handlePlanImport(app: PlanpilotApp, args: string[]): number[] {
+  const { positionals, options } = parseOptions(args)
+  if (positionals.length !== 1) {
+    throw invalidInput("plan import requires <path>")
+  }
+  const filePath = positionals[0]
+  const format = resolvePlanFileFormat(filePath, options.format)
+  let text: string
+  try {
+    text = fs.readFileSync(filePath, "utf8")
+  } catch (err) {
+    throw new AppError("Io", `failed to read ${filePath}: ${err instanceof Error ? err.message : String(err)}`)
+  }
+  const tree = format === "md" ? parsePlanMarkdown(text) : parsePlanDocumentText(text, format)
+  const result = app.addPlanTree(tree, tree.steps)
+  log(
+    `Imported plan ID: ${result.plan.id}: ${result.plan.title} from ${filePath} (steps: ${result.stepCount}, goals: ${result.goalCount})`
+  )
+  log(`Activate it with: plan activate ${result.plan.id}`)
+
+  const detail = app.getPlanDetail(result.plan.id)
+  log("")
+  log(formatPlanDetail(detail.plan, detail.steps, detail.goals, detail.dependencies, detail.children))
+  return [result.plan.id]
+}
+
+function handlePlanQueue(app: PlanpilotApp, args: string[]): { planIds: number[]; shouldSync: boolean } {
+  const [subcommand, ...rest] = args
+  const { positionals, options } = parseOptions(rest)
+  switch (subcommand) {
+    case "add": {
+      if (!positionals.length) {
+        throw invalidInput("plan queue add requires <id> [<id> ...]")
+      }
+      const ids = positionals.map((value) => parseNumber(value, "plan id"))
+      const result = app.enqueuePlans(ids)
+      log(`Queued plan ID(s): ${ids.join(", ")}.`)
+      if (result.activated) {
+        log(`No plan was active; plan ID: ${result.activated.plan_id} is now active.`)
+      }
+      printQueue(app)
+      return { planIds: result.activated ? [result.activated.plan_id] : [], shouldSync: result.activated !== null }
+    }
+    case "remove": {
+      if (!positionals.length) {
+        throw invalidInput("plan queue remove requires <id> [<id> ...]")
+      }
+      const ids = positionals.map((value) => parseNumber(value, "plan id"))
+      const removed = app.dequeuePlans(ids)
+      log(`Removed ${removed} plan(s) from the queue.`)
+      printQueue(app)
+      return { planIds: [], shouldSync: false }
+    }
+    case "list": {
+      if (positionals.length) {
+        throw invalidInput(`unexpected argument: ${positionals.join(" ")}`)
+      }
+      printQueue(app)
+      return { planIds: [], shouldSync: false }
+    }
+    case "reorder": {
+      if (positionals.length !== 1 || options.to === undefined) {
+        throw invalidInput("plan queue reorder requires <id> --to <pos>")
+      }
+      const id = parseNumber(positionals[0], "plan id")
+      app.moveQueuedPlan(id, parseNumber(options.to, "position"))
+      log(`Moved queued plan ID: ${id}.`)
+      printQueue(app)
+      return { planIds: [], shouldSync: false }
+    }
+    default:
+      throw invalidInput(`unknown plan queue command: ${subcommand ?? ""}`)
+  }
+}
+
+function printQueue(app: PlanpilotApp) {
+  const active = app.getActivePlan()
+  if (active) {
+    log(`Active: plan ID ${active.plan_id}: ${app.getPlan(active.plan_id).title}`)
+  } else {
+    log("Active: (none)")
+  }
+  const queued = app.listQueue()
+  if (!queued.length) {
+    log("Queue: (empty)")
+    return
+  }
+  log("Queue:")
+  queued.forEach((row) => {
+    const plan = app.getPlan(row.plan_id)
+    log(`${row.position}. plan ID ${plan.id}: ${plan.title} [${plan.status}]`)
+  })
+}
+
+function handlePlanTemplate(app: PlanpilotApp, args: string[]): number[] {
+  const [subcommand, ...rest] = args
+  const { positionals, options } = parseOptions(rest)
+  switch (subcommand) {
+    case "save": {
+      if (positionals.length !== 2) {
+        throw invalidInput("plan template save requires <plan_id> <name>")
+      }
+      const planId = parseNumber(positionals[0], "plan id")
+      const template = planDetailToTemplate(positionals[1], app.getPlanDetail(planId), options.description)
+      const filePath = savePlanTemplate(template, options.force === true)
+      log(`Saved plan ID: ${planId} as template '${template.name}' (${filePath})`)
+      return []
+    }
+    case "list": {
+      if (positionals.length) {
+        throw invalidInput(`unexpected argument: ${positionals.join(" ")}`)
+      }
+      const templates = listPlanTemplates()
+      if (!templates.length) {
+        log("No templates found.")
+        return []
+      }
+      for (const template of templates) {
+        const vars = template.variables.length ? `, vars: ${template.variables.join(", ")}` : ""
+        log(`- ${template.name}: ${template.title} (steps: ${template.stepCount}${vars})`)
+        if (template.description) log(`  ${template.description}`)
+      }
+      return []
+    }
+    default:
+      throw invalidInput(`unknown plan template command: ${subcommand ?? ""}`)
+  }
+}
+
+function parseTemplateVars(values: string[] | undefined): Record<string, string> {
+  const vars: Record<string, string> = {}
+  for (const value of values ?? []) {
+    const index = value.indexOf("=")
+    if (index <= 0) {
+      throw invalidInput(`--var expects key=value, got '${value}'`)
+    }
+    vars[value.slice(0, index).trim()] = value.slice(index + 1)
+  }
+  return vars
+}
+
+function handlePlanFromTemplate(app: PlanpilotApp, args: string[]): number[] {
+  const { positionals, options } = parseOptions(args)
+  if (positionals.length !== 1) {
+    throw invalidInput("plan from-template requires <name>")
+  }
+  const template = loadPlanTemplate(positionals[0])
+  const tree = renderPlanTemplate(template, parseTemplateVars(options.vars))
+  const result = app.addPlanTree(tree, tree.steps)
+  log(
+    `Created plan ID: ${result.plan.id}: ${result.plan.title} from template '${template.name}' (steps: ${result.stepCount}, goals: ${result.goalCount})`
+  )
+  log(`Activate it with: plan activate ${result.plan.id}`)
+
+  const detail = app.getPlanDetail(result.plan.id)
+  log("")
+  log(formatPlanDetail(detail.plan, detail.steps, detail.goals, detail.dependencies, detail.children))
+  return [result.plan.id]
+}
+
 function handlePlanComment(app: PlanpilotApp, args: string[]): number[] {
   const entries = parseCommentPairs("plan", args)
   const planIds = app.commentPlans(entries)
@@ -437,16 +1036,21 @@ function handlePlanUpdate(app: PlanpilotApp, args: string[]): number[] {
     content: options.content,
     status: options.status ? parsePlanStatus(options.status) : undefined,
     comment: options.comment,
+    messageTemplate: options.messageTemplate === "none" ? null : options.messageTemplate,
+    ...parseRoutingOptions(options),
   }
   const result = app.updatePlanWithActiveClear(id, changes)
   log(`Updated plan ID: ${result.plan.id}: ${result.plan.title}`)
   if (result.cleared) {
     log("Active plan deactivated because plan is done.")
   }
+  if (result.promoted !== null) {
+    log(`Queued plan ID: ${result.promoted} is now active.`)
+  }
   if (result.plan.status === "done") {
-    notifyPlanCompleted(result.plan.id)
+    notifyPlanCompleted(result.plan.id, result.promoted)
   }
-  return [result.plan.id]
+  return result.promoted !== null ? [result.plan.id, result.promoted] : [result.plan.id]
 }
 
 function handlePlanDone(app: PlanpilotApp, args: string[]): number[] {
@@ -456,10 +1060,13 @@ function handlePlanDone(app: PlanpilotApp, args: string[]): number[] {
   if (result.cleared) {
     log("Active plan deactivated because plan is done.")
   }
+  if (result.promoted !== null) {
+    log(`Queued plan ID: ${result.promoted} is now active.`)
+  }
   if (result.plan.status === "done") {
-    notifyPlanCompleted(result.plan.id)
+    notifyPlanCompleted(result.plan.id, result.promoted)
   }
-  return [result.plan.id]
+  return result.promoted !== null ? [result.plan.id, result.promoted] : [result.plan.id]
 }
 
 function handlePlanRemove(app: PlanpilotApp, args: string[]): number[] {
@@ -484,7 +1091,7 @@ function handlePlanActivate(app: PlanpilotApp, args: string[]): number[] {
   return [plan.id]
 }
 
-function handlePlanActive(app: PlanpilotApp): number[] {
+function handlePlanActive(app: PlanpilotApp, context: { cwd: string | undefined }): number[] {
   const active = app.getActivePlan()
   if (!active) {
     log("No active plan.")
@@ -492,7 +1099,8 @@ function handlePlanActive(app: PlanpilotApp): number[] {
   }
   try {
     const detail = app.getPlanDetail(active.plan_id)
-    log(formatPlanDetail(detail.plan, detail.steps, detail.goals))
+    log(formatPlanDetail(detail.plan, detail.steps, detail.goals, detail.dependencies, detail.children))
+    log(formatBudgetStatus(planBudgetStatus(app, active.plan_id, loadPlanpilotConfig(context.cwd).config.autoContinue.budget)))
     return []
   } catch (err) {
     if (err instanceof AppError && err.kind === "NotFound") {
@@ -504,6 +1112,48 @@ function handlePlanActive(app: PlanpilotApp): number[] {
   }
 }
 
+function handlePlanBudget(
+  app: PlanpilotApp,
+  args: string[],
+  context: { cwd: string | undefined },
+): { planIds: number[]; shouldSync: boolean } {
+  if (!args.length) {
+    throw invalidInput("plan budget requires <id>")
+  }
+  const planId = parseNumber(args[0], "plan id")
+  const { options, positionals } = parseOptions(args.slice(1))
+  if (positionals.length) {
+    throw invalidInput(`unexpected argument: ${positionals[0]}`)
+  }
+  const changing = options.maxSends !== undefined || options.maxDuration !== undefined || options.windows !== undefined
+  if (options.clear && changing) {
+    throw invalidInput("plan budget --clear cannot be combined with other budget options")
+  }
+
+  let shouldSync = false
+  if (options.clear) {
+    app.setPlanBudget(planId, null)
+    log(`Plan ID: ${planId} budget override cleared.`)
+    shouldSync = true
+  } else if (changing) {
+    const override = { ...(app.getPlanBudget(planId) ?? {}) }
+    if (options.maxSends !== undefined) override.maxSends = parseNumber(options.maxSends, "max sends")
+    if (options.maxDuration !== undefined) override.maxDurationMs = parseNumber(options.maxDuration, "max duration")
+    if (options.windows !== undefined) {
+      const windows = options.windows as string[]
+      override.windows = windows.length === 1 && windows[0].trim().toLowerCase() === "any" ? [] : windows
+    }
+    app.setPlanBudget(planId, parsePlanBudget(override))
+    log(`Plan ID: ${planId} budget updated.`)
+    shouldSync = true
+  }
+
+  const override = app.getPlanBudget(planId)
+  log(`Plan ID: ${planId} budget override: ${override ? JSON.stringify(override) : "none (config defaults)"}`)
+  log(formatBudgetStatus(planBudgetStatus(app, planId, loadPlanpilotConfig(context.cwd).config.autoContinue.budget)))
+  return { planIds: [planId], shouldSync }
+}
+
 function handlePlanDeactivate(app: PlanpilotApp): number[] {
   const active = app.getActivePlan()
   app.clearActivePlan()
@@ -525,7 +1175,15 @@ function handleStepAdd(app: PlanpilotApp, args: string[]): number[] {
   }
   parsed.contents.forEach((content) => ensureNonEmpty("step content", content))
 
-  const result = app.addStepsBatch(planId, parsed.contents, "todo", parsed.executor ?? "ai", parsed.at)
+  const result = app.addStepsBatch(
+    planId,
+    parsed.contents,
+    "todo",
+    parsed.executor ?? "ai",
+    parsed.at,
+    parsed.after,
+    parsed.routing,
+  )
   if (result.steps.length === 1) {
     log(`Created step ID: ${result.steps[0].id} for plan ID: ${result.steps[0].plan_id}`)
   } else {
@@ -546,7 +1204,7 @@ function handleStepAddTree(app: PlanpilotApp, args: string[]): number[] {
   parsed.goals.forEach((goal) => ensureNonEmpty("goal content", goal))
   const executor = parsed.executor ?? "ai"
 
-  const result = app.addStepTree(planId, content, executor, parsed.goals)
+  const result = app.addStepTree(planId, content, executor, parsed.goals, parsed.after, parsed.routing)
   log(`Created step ID: ${result.step.id} for plan ID: ${result.step.plan_id} (goals: ${result.goals.length})`)
   printStatusChanges(result.changes)
   notifyAfterStepChanges(app, result.changes)
@@ -634,7 +1292,7 @@ function handleStepCount(app: PlanpilotApp, args: string[]): number[] {
 function handleStepShow(app: PlanpilotApp, args: string[]): number[] {
   const id = parseIdArg(args, "step show")
   const detail = app.getStepDetail(id)
-  log(formatStepDetail(detail.step, detail.goals))
+  log(formatStepDetail(detail.step, detail.goals, detail.dependsOn))
   return []
 }
 
@@ -644,17 +1302,18 @@ function handleStepShowNext(app: PlanpilotApp): number[] {
     log("No active plan.")
     return []
   }
-  const next = app.nextStep(active.plan_id)
+  const next = app.nextLeafStep(active.plan_id)
   if (!next) {
     log("No pending step.")
     return []
   }
-  const goals = app.goalsForStep(next.id)
-  log(formatStepDetail(next, goals))
+  const goals = app.goalsForStep(next.step.id)
+  if (next.parents.length) log(formatStepParents(next.parents))
+  log(formatStepDetail(next.step, goals))
   return []
 }
 
-function handleStepWait(app: PlanpilotApp, args: string[]): number[] {
+async function handleStepWait(app: PlanpilotApp, args: string[], cwd: string | undefined): Promise<number[]> {
   if (!args.length) {
     throw invalidInput("step wait requires <id>")
   }
@@ -665,8 +1324,35 @@ function handleStepWait(app: PlanpilotApp, args: string[]): number[] {
     log(`Step ID: ${result.step.id} wait cleared.`)
     return [result.step.plan_id]
   }
+  if (options.waitFor !== undefined) {
+    if (options.delay !== undefined) {
+      throw invalidInput("step wait --for takes --timeout, not --delay")
+    }
+    const timeoutMs = options.timeout !== undefined ? parseNumber(options.timeout, "timeout") : DEFAULT_WAIT_TIMEOUT_MS
+    if (timeoutMs <= 0) {
+      throw invalidInput("timeout must be >= 1")
+    }
+    const condition = await prepareWaitCondition(
+      {
+        ...parseWaitConditionSpec(options.waitFor),
+        onTimeout: options.onTimeout !== undefined ? parseWaitTimeoutAction(options.onTimeout) : undefined,
+      },
+      cwd,
+    )
+    const reason = options.reason ? String(options.reason) : undefined
+    const result = app.setStepWait(stepId, timeoutMs, reason, condition)
+    log(
+      `Step ID: ${result.step.id} waiting for ${formatWaitCondition(condition)} until ${result.until}, then ${
+        condition.onTimeout === "human" ? "handing it to a human" : "continuing anyway"
+      }.`
+    )
+    return [result.step.plan_id]
+  }
+  if (options.timeout !== undefined || options.onTimeout !== undefined) {
+    throw invalidInput("step wait --timeout and --on-timeout require --for")
+  }
   if (options.delay === undefined) {
-    throw invalidInput("step wait requires --delay <ms> or --clear")
+    throw invalidInput("step wait requires --delay <ms>, --for <kind>:<target> or --clear")
   }
   const delayMs = parseNumber(options.delay, "delay")
   if (delayMs < 0) {
@@ -693,6 +1379,8 @@ function handleStepUpdate(app: PlanpilotApp, args: string[]): number[] {
     status,
     executor: options.executor ? parseStepExecutor(options.executor) : undefined,
     comment: options.comment,
+    childPlanId: parseChildPlanOption(options.childPlan),
+    ...parseRoutingOptions(options),
   })
   log(`Updated step ID: ${result.step.id}.`)
   printStatusChanges(result.changes)
@@ -703,6 +1391,23 @@ function handleStepUpdate(app: PlanpilotApp, args: string[]): number[] {
   return [result.step.plan_id]
 }
 
+// `--agent/--model/--variant none` clears the field.
+function parseRoutingOptions(options: Record<string, any>): AutoRouting {
+  const routing: AutoRouting = {}
+  for (const field of ["agent", "model", "variant"] as const) {
+    const value = options[field] as string | undefined
+    if (value === undefined) continue
+    routing[field] = value === "none" ? null : value
+  }
+  return routing
+}
+
+function parseChildPlanOption(value: string | undefined): number | null | undefined {
+  if (value === undefined) return undefined
+  if (value === "none") return null
+  return parseNumber(value, "child plan id")
+}
+
 function handleStepComment(app: PlanpilotApp, args: string[]): number[] {
   const entries = parseCommentPairs("step", args)
   const planIds = app.commentSteps(entries)
@@ -769,12 +1474,13 @@ function handleGoalAdd(app: PlanpilotApp, args: string[]): number[] {
     throw invalidInput("goal add requires <step_id> <content...>")
   }
   const stepId = parseNumber(args[0], "step id")
-  const contents = args.slice(1)
+  const { options, positionals: contents } = parseOptions(args.slice(1))
   if (!contents.length) {
     throw invalidInput("no contents provided")
   }
   contents.forEach((content) => ensureNonEmpty("goal content", content))
-  const result = app.addGoalsBatch(stepId, contents, "todo")
+  const verify = parseVerifyOptions(options, null)
+  const result = app.addGoalsBatch(stepId, contents, "todo", verify ?? undefined)
   if (result.goals.length === 1) {
     log(`Created goal ID: ${result.goals[0].id} for step ID: ${result.goals[0].step_id}`)
   } else {
@@ -871,6 +1577,7 @@ function handleGoalUpdate(app: PlanpilotApp, args: string[]): number[] {
     content: options.content,
     status: options.status ? parseGoalStatus(options.status) : undefined,
     comment: options.comment,
+    verify: parseVerifyOptions(options, app.getGoal(id)),
   })
   log(`Updated goal ${result.goal.id}.`)
   printStatusChanges(result.changes)
@@ -903,6 +1610,37 @@ function handleGoalDone(app: PlanpilotApp, args: string[]): number[] {
   return planIds
 }
 
+async function handleGoalVerify(app: PlanpilotApp, args: string[], cwd: string | undefined): Promise<number[]> {
+  const { options, positionals } = parseOptions(args)
+  let goals: GoalRow[]
+  if (options.step !== undefined) {
+    if (positionals.length) {
+      throw invalidInput("goal verify takes goal ids or --step, not both")
+    }
+    goals = app.goalsForStep(parseNumber(options.step, "step id")).filter((goal) => goal.verify_command)
+    if (!goals.length) {
+      log(`No goals with a verify command for step ID: ${options.step}.`)
+      return []
+    }
+  } else {
+    if (!positionals.length) {
+      throw invalidInput("goal verify requires <id...> or --step <step_id>")
+    }
+    goals = positionals.map((arg) => app.getGoal(parseNumber(arg, "goal id")))
+    const missing = goals.filter((goal) => !goal.verify_command)
+    if (missing.length) {
+      throw invalidInput(`goal(s) without a verify command: ${missing.map((goal) => goal.id).join(", ")}`)
+    }
+  }
+  const planIds = app.planIdsForGoals(goals.map((goal) => goal.id))
+  const { checks, changes } = await verifyGoalsByStep(app, goals, cwd)
+  checks.forEach((check) => log(`Goal ID: ${check.goalId} verify ${formatGoalCheck(check)}.`))
+  printStatusChanges(changes)
+  notifyAfterStepChanges(app, changes)
+  notifyPlansCompleted(app, changes)
+  return planIds
+}
+
 function handleGoalRemove(app: PlanpilotApp, args: string[]): number[] {
   if (!args.length) {
     throw invalidInput("no goal ids provided")
@@ -936,6 +1674,16 @@ function parseNumber(value: string, label: string): number {
   return num
 }
 
+// Accepts epoch milliseconds or anything Date.parse understands (e.g. an ISO 8601 timestamp from `plan history`).
+function parseTimestamp(value: string): number {
+  const trimmed = value.trim()
+  const parsed = /^\d+$/.test(trimmed) ? Number(trimmed) : Date.parse(trimmed)
+  if (!Number.isFinite(parsed)) {
+    throw invalidInput(`timestamp '${value}' is invalid`)
+  }
+  return parsed
+}
+
 function parseOptions(args: string[]) {
   const options: Record<string, any> = { search: [] }
   const positionals: string[] = []
@@ -1004,10 +1752,35 @@ function parseOptions(args: string[]) {
         options.limit = expectValue(args, i, token)
         i += 2
         break
+      case "--all":
+        options.all = true
+        i += 1
+        break
       case "--page":
         options.page = expectValue(args, i, token)
         i += 2
         break
+      case "--count":
+        options.count = expectValue(args, i, token)
+        i += 2
+        break
+      case "--format":
+        options.format = expectValue(args, i, token)
+        i += 2
+        break
+      case "--child-plan":
+        options.childPlan = expectValue(args, i, token)
+        i += 2
+        break
+      case "--description":
+        options.description = expectValue(args, i, token)
+        i += 2
+        break
+      case "--var":
+        if (!options.vars) options.vars = []
+        options.vars.push(expectValue(args, i, token))
+        i += 2
+        break
       case "--order":
         options.order = expectValue(args, i, token)
         i += 2
@@ -1016,6 +1789,18 @@ function parseOptions(args: string[]) {
       options.to = expectValue(args, i, token)
       i += 2
       break
+    case "--for":
+      options.waitFor = expectValue(args, i, token)
+      i += 2
+      break
+    case "--timeout":
+      options.timeout = expectValue(args, i, token)
+      i += 2
+      break
+    case "--on-timeout":
+      options.onTimeout = expectValue(args, i, token)
+      i += 2
+      break
     case "--delay":
       options.delay = expectValue(args, i, token)
       i += 2
@@ -1033,6 +1818,55 @@ function parseOptions(args: string[]) {
       options.goals.push(expectValue(args, i, token))
       i += 2
       break
+    case "--agent":
+      options.agent = expectValue(args, i, token)
+      i += 2
+      break
+    case "--model":
+      options.model = expectValue(args, i, token)
+      i += 2
+      break
+    case "--variant":
+      options.variant = expectValue(args, i, token)
+      i += 2
+      break
+    case "--message-template":
+      options.messageTemplate = expectValue(args, i, token)
+      i += 2
+      break
+    case "--max-sends":
+      options.maxSends = expectValue(args, i, token)
+      i += 2
+      break
+    case "--max-duration":
+      options.maxDuration = expectValue(args, i, token)
+      i += 2
+      break
+    case "--verify":
+      options.verify = expectValue(args, i, token)
+      i += 2
+      break
+    case "--verify-timeout":
+      options.verifyTimeout = expectValue(args, i, token)
+      i += 2
+      break
+    case "--verify-exit":
+      options.verifyExit = expectValue(args, i, token)
+      i += 2
+      break
+    case "--step":
+      options.step = expectValue(args, i, token)
+      i += 2
+      break
+    case "--effective":
+      options.effective = true
+      i += 1
+      break
+    case "--window":
+      if (!options.windows) options.windows = []
+      options.windows.push(expectValue(args, i, token))
+      i += 2
+      break
     default:
       throw invalidInput(`unexpected argument: ${token}`)
   }
@@ -1041,6 +1875,30 @@ function parseOptions(args: string[]) {
   return { options, positionals }
 }
 
+// `--verify <command>|none`, `--verify-timeout <ms>` and `--verify-exit <code>`; undefined when none is given.
+// The timeout and exit code alone adjust the goal's existing command.
+function parseVerifyOptions(options: Record<string, any>, goal: GoalRow | null): GoalVerify | null | undefined {
+  if (options.verify === undefined && options.verifyTimeout === undefined && options.verifyExit === undefined) {
+    return undefined
+  }
+  if (options.verify !== undefined && String(options.verify).trim().toLowerCase() === "none") {
+    if (options.verifyTimeout !== undefined || options.verifyExit !== undefined) {
+      throw invalidInput("--verify none cannot be combined with --verify-timeout or --verify-exit")
+    }
+    return null
+  }
+  const existing = goal ? goalVerify(goal) : null
+  const command = options.verify ?? existing?.command
+  if (command === undefined) {
+    throw invalidInput("--verify-timeout and --verify-exit require --verify <command>")
+  }
+  return parseGoalVerify({
+    command,
+    timeoutMs: options.verifyTimeout !== undefined ? parseNumber(options.verifyTimeout, "verify timeout") : existing?.timeoutMs,
+    exitCode: options.verifyExit !== undefined ? parseNumber(options.verifyExit, "verify exit code") : existing?.exitCode,
+  })
+}
+
 function expectValue(args: string[], index: number, token: string): string {
   const value = args[index + 1]
   if (value === undefined) {
@@ -1207,8 +2065,26 @@ function parsePlanAddTreeSteps(args: string[]) {
     throw invalidInput("plan add-tree requires at least one --step")
   }
 
-  const steps: Array<{ content: string; executor?: StepExecutor; goals?: string[] }> = []
-  let current: { content: string; executor?: StepExecutor; goals: string[] } | null = null
+  type StepSpec = { content: string; executor?: StepExecutor; goals: string[]; after: number[]; routing: AutoRouting }
+  const steps: Array<{
+    content: string
+    executor?: StepExecutor
+    goals?: string[]
+    after?: number[]
+    routing: AutoRouting
+  }> = []
+  // Routing flags before the first --step set the plan's defaults.
+  const routing: AutoRouting = {}
+  let current: StepSpec | null = null
+  const pushCurrent = (spec: StepSpec) => {
+    steps.push({
+      content: spec.content,
+      executor: spec.executor,
+      goals: spec.goals.length ? spec.goals : undefined,
+      after: spec.after.length ? spec.after : undefined,
+      routing: spec.routing,
+    })
+  }
   let i = 0
   while (i < args.length) {
     const token = args[i]
@@ -1225,9 +2101,20 @@ function parsePlanAddTreeSteps(args: string[]) {
         throw invalidInput("plan add-tree --step cannot be empty")
       }
       if (current) {
-        steps.push({ content: current.content, executor: current.executor, goals: current.goals.length ? current.goals : undefined })
+        pushCurrent(current)
       }
-      current = { content: value, goals: [] }
+      current = { content: value, goals: [], after: [], routing: {} }
+      i += 2
+      continue
+    }
+    const routingField = ROUTING_FLAGS.get(token)
+    if (routingField) {
+      const value = args[i + 1]
+      if (value === undefined) {
+        throw invalidInput(`plan add-tree ${token} requires a value`)
+      }
+      const target = current ? current.routing : routing
+      target[routingField] = value
       i += 2
       continue
     }
@@ -1255,17 +2142,29 @@ function parsePlanAddTreeSteps(args: string[]) {
       i += 2
       continue
     }
+    if (token === "--after") {
+      const value = args[i + 1]
+      if (value === undefined) {
+        throw invalidInput("plan add-tree --after requires a value")
+      }
+      if (!current) {
+        throw invalidInput("plan add-tree --after must follow a --step")
+      }
+      current.after.push(parseNumber(value, "step position"))
+      i += 2
+      continue
+    }
     throw invalidInput(`plan add-tree unexpected argument: ${token}`)
   }
 
   if (current) {
-    steps.push({ content: current.content, executor: current.executor, goals: current.goals.length ? current.goals : undefined })
+    pushCurrent(current)
   }
 
   if (!steps.length) {
     throw invalidInput("plan add-tree requires at least one --step")
   }
-  return steps
+  return { steps, routing }
 }
 
 function parseCommentPairs(kind: string, pairs: string[]): Array<[number, string]> {
@@ -1290,9 +2189,17 @@ function parseStepAddArgs(args: string[]) {
   const contents: string[] = []
   let executor: StepExecutor | undefined
   let at: number | undefined
+  const after: number[] = []
+  const routing: AutoRouting = {}
   let i = 0
   while (i < args.length) {
     const token = args[i]
+    const routingField = ROUTING_FLAGS.get(token)
+    if (routingField) {
+      routing[routingField] = expectValue(args, i, token)
+      i += 2
+      continue
+    }
     if (token === "--executor") {
       const value = expectValue(args, i, token)
       executor = parseStepExecutor(value)
@@ -1305,21 +2212,35 @@ function parseStepAddArgs(args: string[]) {
       i += 2
       continue
     }
+    if (token === "--after") {
+      const value = expectValue(args, i, token)
+      after.push(parseNumber(value, "step id"))
+      i += 2
+      continue
+    }
     if (token.startsWith("--")) {
       throw invalidInput(`unexpected argument: ${token}`)
     }
     contents.push(token)
     i += 1
   }
-  return { contents, executor, at }
+  return { contents, executor, at, after, routing }
 }
 
 function parseStepAddTreeArgs(args: string[]) {
   let executor: StepExecutor | undefined
   const goals: string[] = []
+  const after: number[] = []
+  const routing: AutoRouting = {}
   let i = 0
   while (i < args.length) {
     const token = args[i]
+    const routingField = ROUTING_FLAGS.get(token)
+    if (routingField) {
+      routing[routingField] = expectValue(args, i, token)
+      i += 2
+      continue
+    }
     if (token === "--executor") {
       const value = expectValue(args, i, token)
       executor = parseStepExecutor(value)
@@ -1332,9 +2253,15 @@ function parseStepAddTreeArgs(args: string[]) {
       i += 2
       continue
     }
+    if (token === "--after") {
+      const value = expectValue(args, i, token)
+      after.push(parseNumber(value, "step id"))
+      i += 2
+      continue
+    }
     throw invalidInput(`unexpected argument: ${token}`)
   }
-  return { executor, goals }
+  return { executor, goals, after, routing }
 }
 
 function printStatusChanges(changes: ReturnType<typeof createEmptyStatusChanges>) {
@@ -1349,6 +2276,9 @@ function printStatusChanges(changes: ReturnType<typeof createEmptyStatusChanges>
   changes.active_plans_cleared.forEach((change) => {
     log(`- Active plan deactivated for plan ID: ${change.plan_id} (${change.reason}).`)
   })
+  changes.active_plans_promoted.forEach((change) => {
+    log(`- Queued plan ID: ${change.plan_id} activated (${change.reason}).`)
+  })
 }
 
 function notifyAfterStepChanges(app: PlanpilotApp, changes: ReturnType<typeof createEmptyStatusChanges>) {
@@ -1369,26 +2299,36 @@ function notifyPlansCompleted(app: PlanpilotApp, changes: ReturnType<typeof crea
   })
   planIds.forEach((planId) => {
     const plan = app.getPlan(planId)
-    if (plan.status === "done") {
-      notifyPlanCompleted(plan.id)
+    // A finished sub-plan only completes a step; the parent plan carries on.
+    if (plan.status === "done" && !app.parentStepsForPlan(plan.id).length) {
+      notifyPlanCompleted(plan.id, changes.active_plans_promoted[0]?.plan_id ?? null)
     }
   })
 }
 
-function notifyPlanCompleted(planId: number) {
+function notifyPlanCompleted(planId: number, promoted: number | null = null) {
+  if (promoted !== null) {
+    log(
+      `Plan ID: ${planId} is complete and queued plan ID: ${promoted} is now active. Briefly summarize the completed results, then end this turn so Planpilot can continue.`
+    )
+    return
+  }
   log(`Plan ID: ${planId} is complete. Summarize the completed results to the user, then end this turn.`)
 }
 
 function notifyNextStepForPlan(app: PlanpilotApp, planId: number) {
-  const next = app.nextStep(planId)
+  // Finishing a sub-plan step continues with the outermost plan's next step.
+  const root = app.parentStepsForPlan(planId)[0]?.plan_id ?? planId
+  const next = app.nextLeafStep(root)
   if (!next) return
-  if (next.executor === "ai") {
-    log(`Next step is assigned to ai (step ID: ${next.id}). Please end this turn so Planpilot can surface it.`)
+  if (next.step.executor === "ai") {
+    log(`Next step is assigned to ai (step ID: ${next.step.id}). Please end this turn so Planpilot can surface it.`)
     return
   }
-  const goals = app.goalsForStep(next.id)
+  const goals = app.goalsForStep(next.step.id)
   log("Next step requires human action:")
-  log(formatStepDetail(next, goals))
+  if (next.parents.length) log(formatStepParents(next.parents))
+  log(formatStepDetail(next.step, goals))
   log(
     "Tell the user to complete the above step and goals. Confirm each goal when done, then end this turn."
   )
@@ -1444,7 +2384,10 @@ function pad(value: string, width: number) {
 
 function syncPlanMarkdown(app: PlanpilotApp, planIds: number[]) {
   if (!planIds.length) return
-  const unique = Array.from(new Set(planIds))
+  // Parent plans show their sub-plans' progress, so refresh them as well.
+  const unique = Array.from(
+    new Set(planIds.flatMap((planId) => [planId, ...app.parentStepsForPlan(planId).map((step) => step.plan_id)]))
+  )
   const active = app.getActivePlan()
   const activeId = active?.plan_id
   const activeUpdated = active?.updated_at ?? null
@@ -1461,7 +2404,7 @@ function syncPlanMarkdown(app: PlanpilotApp, planIds: number[]) {
     const activatedAt = isActive ? activeUpdated : null
     const mdPath = resolvePlanMarkdownPath(planId)
     ensureParentDir(mdPath)
-    const markdown = formatPlanMarkdown(isActive, activatedAt, detail.plan, detail.steps, detail.goals)
+    const markdown = formatPlanMarkdown(isActive, activatedAt, detail.plan, detail.steps, detail.goals, detail.dependencies, detail.children)
     fs.writeFileSync(mdPath, markdown, "utf8")
   })
 }
@@ -1,9 +1,13 @@
 import { tool, type Plugin } from "@opencode-ai/plugin"
 import { runCommand, formatCommandError } from "./command"
 import { PlanpilotApp } from "./lib/app"
+import { formatBudgetBlock, planBudgetStatus, type BudgetBlock } from "./lib/budget"
 import {
+  diffPlanpilotConfig,
   loadPlanpilotConfig,
   matchesKeywords,
+  watchPlanpilotConfig,
+  type EffectivePlanpilotConfig,
   type EventRule,
   type SendRetryConfig,
   type SessionErrorRule,
@@ -11,30 +15,122 @@ import {
 } from "./lib/config"
 import { openDatabase } from "./lib/db"
 import { invalidInput } from "./lib/errors"
-import { formatStepDetail } from "./lib/format"
-import { parseWaitFromComment } from "./lib/util"
-import { PLANPILOT_SYSTEM_INJECTION, PLANPILOT_TOOL_DESCRIPTION, formatPlanpilotAutoContinueMessage } from "./prompt"
+import { formatStepDetail, formatStepParents } from "./lib/format"
+import { composeAutoContinueMessage } from "./lib/message-template"
+import { resolveRouting } from "./lib/routing"
+import { evaluateRuleMatcher, formatMatchCaptures, type MatchSubject } from "./lib/rule-matcher"
+import { RuntimeStateStore, SessionStateMap } from "./lib/runtime-state"
+import { RuntimeTraceStore, type TraceOutcome } from "./lib/runtime-trace"
+import {
+  applyStallAction,
+  stepProgressMark,
+  unproductiveSends,
+  type SendProgress,
+  type StallRecord,
+} from "./lib/stall"
+import { WAIT_POLL_MS, checkWaitCondition, formatWaitCondition, stepWait } from "./lib/wait"
+import { verifyCwd, verifyGoals } from "./lib/verify"
+import { fireHooks } from "./lib/hooks"
+import { PLANPILOT_SYSTEM_INJECTION, PLANPILOT_TOOL_DESCRIPTION } from "./prompt"
 
 export const PlanpilotPlugin: Plugin = async (ctx) => {
   const IDLE_DEBOUNCE_MS = 1000
   const RECENT_SEND_DEDUPE_MS = 1500
   const TRIGGER_TTL_MS = 10 * 60 * 1000
+  const OWN_PROMPT_CLAIM_MS = 30000
+  const OWN_PROMPT_IDS_KEPT = 20
+
+  const log = async (level: "debug" | "info" | "warn" | "error", message: string, extra?: Record<string, any>) => {
+    try {
+      await ctx.client.app.log({
+        body: {
+          service: "opencode-planpilot",
+          level,
+          message,
+          extra,
+        },
+      })
+    } catch {
+      // ignore logging failures
+    }
+  }
+
+  const logDebug = async (message: string, extra?: Record<string, any>) => {
+    await log("debug", message, extra)
+  }
+
+  // Triggers, retries, the manual-stop guard and armed waits are written through to planpilot.db so a
+  // restart picks them up again (see rehydrateRuntimeState). Timers and per-process counters stay in memory.
+  let runtimeState: RuntimeStateStore | null = null
+  let runtimeTrace: RuntimeTraceStore | null = null
+  let runtimeStateError: unknown = null
+  try {
+    const db = openDatabase()
+    runtimeState = new RuntimeStateStore(db)
+    runtimeTrace = new RuntimeTraceStore(db)
+  } catch (err) {
+    runtimeStateError = err
+  }
+  const onRuntimeStateError = (err: unknown) => {
+    void log("warn", "failed to persist auto-continue state", {
+      error: err instanceof Error ? err.message : String(err),
+    })
+  }
+
+  // Logs an auto-continue decision and appends it to the session's trace (`runtime explain`). The ids
+  // in `extra` become the trace's columns; everything else is kept as its detail.
+  const decide = async (
+    level: "debug" | "info" | "warn",
+    message: string,
+    decision: { outcome: TraceOutcome; reason: string },
+    extra: Record<string, any> & { sessionID: string; source: string },
+  ) => {
+    await log(level, message, extra)
+    const { sessionID, source, run, trigger, planId, stepId, ...rest } = extra
+    const detail = Object.fromEntries(Object.entries(rest).filter(([, value]) => value !== undefined))
+    try {
+      runtimeTrace?.record({ sessionId: sessionID, source, run, trigger, planId, stepId, detail, ...decision })
+    } catch (err) {
+      onRuntimeStateError(err)
+    }
+  }
 
   const inFlight = new Set<string>()
-  const skipNextAuto = new Set<string>()
+  const skipNextAuto = new SessionStateMap<number>(runtimeState, "skip_next_auto", onRuntimeStateError)
   const lastIdleAt = new Map<string, number>()
-  const pendingTrigger = new Map<string, AutoTrigger>()
-  const recentSends = new Map<string, { signature: string; at: number }>()
+  const pendingTrigger = new SessionStateMap<AutoTrigger>(runtimeState, "pending_trigger", onRuntimeStateError)
+  const recentSends = new SessionStateMap<{ signature: string; at: number }>(
+    runtimeState,
+    "recent_send",
+    onRuntimeStateError,
+  )
   const sendRetryTimers = new Map<string, ReturnType<typeof setTimeout>>()
-  const sendRetryState = new Map<string, { signature: string; attempt: number }>()
-  const manualStop = new Map<string, { at: number; reason: string }>()
+  const sendRetryState = new SessionStateMap<SendRetryState>(runtimeState, "send_retry", onRuntimeStateError)
+  const manualStop = new SessionStateMap<{ at: number; reason: string }>(
+    runtimeState,
+    "manual_stop",
+    onRuntimeStateError,
+  )
+  const armedWaits = new SessionStateMap<ArmedWait>(runtimeState, "wait", onRuntimeStateError)
+  const sendProgress = new SessionStateMap<SendProgress>(runtimeState, "send_progress", onRuntimeStateError)
+  const stalls = new SessionStateMap<StallRecord>(runtimeState, "stall", onRuntimeStateError)
+  const budgetBlocks = new SessionStateMap<{ planId: number; reason: BudgetBlock; activatedAt: number }>(
+    runtimeState,
+    "budget_block",
+    onRuntimeStateError,
+  )
   const waitTimers = new Map<string, ReturnType<typeof setTimeout>>()
-  const permissionAsked = new Map<string, { sessionID: string; summary: string }>()
-  const questionAsked = new Map<string, { sessionID: string; summary: string }>()
+  const permissionAsked = new Map<string, { sessionID: string; summary: string; subject: MatchSubject }>()
+  const questionAsked = new Map<string, { sessionID: string; summary: string; subject: MatchSubject }>()
   const runSeq = new Map<string, number>()
+  // The user messages auto-continue created itself. OpenCode reports them (and re-reports their updates)
+  // like any other user message; only a message from a person should reset stall counts.
+  const ownPrompts = new Map<string, { pendingAt: number | null; ids: string[] }>()
 
-  const loadedConfig = loadPlanpilotConfig()
-  const autoConfig = loadedConfig.config.autoContinue
+  const directory = ctx.directory ?? ""
+  // Swapped together by reloadConfig whenever a config layer changes.
+  let loadedConfig = loadPlanpilotConfig(directory || undefined)
+  let autoConfig = loadedConfig.config.autoContinue
 
   type AutoTrigger = {
     source: string
@@ -52,31 +148,52 @@ export const PlanpilotPlugin: Plugin = async (ctx) => {
     error: unknown
   }
 
+  // A scheduled send retry; `at` is when it fires. `directory` keeps other projects sharing
+  // planpilot.db from re-arming it.
+  type PendingRetry = {
+    at: number
+    source: string
+    force: boolean
+    detail?: string
+    directory: string
+  }
+
+  type SendRetryState = {
+    signature: string
+    attempt: number
+    pending?: PendingRetry
+  }
+
+  type ArmedWait = {
+    planId: number
+    stepId: number
+    until: number
+    directory: string
+  }
+
   const clearWaitTimer = (sessionID: string) => {
     const existing = waitTimers.get(sessionID)
     if (existing) {
       clearTimeout(existing)
       waitTimers.delete(sessionID)
     }
+    armedWaits.delete(sessionID)
   }
 
-  const log = async (level: "debug" | "info" | "warn" | "error", message: string, extra?: Record<string, any>) => {
-    try {
-      await ctx.client.app.log({
-        body: {
-          service: "opencode-planpilot",
-          level,
-          message,
-          extra,
-        },
+  const armWaitTimer = (sessionID: string, wait: ArmedWait) => {
+    clearWaitTimer(sessionID)
+    armedWaits.set(sessionID, wait)
+    const timer = setTimeout(() => {
+      waitTimers.delete(sessionID)
+      armedWaits.delete(sessionID)
+      handleSessionIdle(sessionID, "wait_timer").catch((err) => {
+        void log("warn", "auto-continue retry failed", {
+          sessionID,
+          error: err instanceof Error ? err.message : String(err),
+        })
       })
-    } catch {
-      // ignore logging failures
-    }
-  }
-
-  const logDebug = async (message: string, extra?: Record<string, any>) => {
-    await log("debug", message, extra)
+    }, Math.max(0, wait.until - Date.now()))
+    waitTimers.set(sessionID, timer)
   }
 
   const clearSendRetryTimer = (sessionID: string) => {
@@ -92,6 +209,22 @@ export const PlanpilotPlugin: Plugin = async (ctx) => {
     sendRetryState.delete(sessionID)
   }
 
+  const expectOwnPrompt = (sessionID: string) => {
+    const own = ownPrompts.get(sessionID) ?? { pendingAt: null, ids: [] }
+    ownPrompts.set(sessionID, { ...own, pendingAt: Date.now() })
+  }
+
+  // Whether a user message is one auto-continue sent. The first new user message after a send is taken to
+  // be that send's message; its later updates are recognized by id.
+  const claimOwnPrompt = (sessionID: string, messageID: string): boolean => {
+    const own = ownPrompts.get(sessionID)
+    if (!own || !messageID) return false
+    if (own.ids.includes(messageID)) return true
+    if (own.pendingAt === null || Date.now() - own.pendingAt > OWN_PROMPT_CLAIM_MS) return false
+    ownPrompts.set(sessionID, { pendingAt: null, ids: [...own.ids, messageID].slice(-OWN_PROMPT_IDS_KEPT) })
+    return true
+  }
+
   const clearManualStop = async (sessionID: string, source: string) => {
     if (!manualStop.has(sessionID)) return
     manualStop.delete(sessionID)
@@ -130,6 +263,29 @@ export const PlanpilotPlugin: Plugin = async (ctx) => {
       message ? `error=${message}` : undefined,
     ])
 
+  const armSendRetryTimer = (sessionID: string, pending: PendingRetry) => {
+    clearSendRetryTimer(sessionID)
+    const timer = setTimeout(() => {
+      sendRetryTimers.delete(sessionID)
+      const current = sendRetryState.get(sessionID)
+      if (current?.pending) {
+        sendRetryState.set(sessionID, { signature: current.signature, attempt: current.attempt })
+      }
+      queueTrigger(sessionID, {
+        source: `${pending.source}.send_retry`,
+        force: pending.force,
+        detail: pending.detail,
+      }).catch((err) => {
+        void log("warn", "send retry trigger failed", {
+          sessionID,
+          source: pending.source,
+          error: stringifyError(err),
+        })
+      })
+    }, Math.max(0, pending.at - Date.now()))
+    sendRetryTimers.set(sessionID, timer)
+  }
+
   const scheduleSendRetry = async (input: RetryInput) => {
     const cfg: SendRetryConfig = autoConfig.sendRetry
     if (!cfg.enabled) return
@@ -171,31 +327,21 @@ export const PlanpilotPlugin: Plugin = async (ctx) => {
       return
     }
 
+    const index = Math.min(Math.max(attempt - 1, 0), cfg.delaysMs.length - 1)
+    const delayMs = cfg.delaysMs[index]
+    const pending: PendingRetry = {
+      at: Date.now() + delayMs,
+      source: input.source,
+      force: input.force,
+      detail: buildRetryDetail(input.detail, attempt, cfg.maxAttempts, text),
+      directory,
+    }
     sendRetryState.set(input.sessionID, {
       signature: input.signature,
       attempt,
+      pending,
     })
-    clearSendRetryTimer(input.sessionID)
-
-    const index = Math.min(Math.max(attempt - 1, 0), cfg.delaysMs.length - 1)
-    const delayMs = cfg.delaysMs[index]
-    const retryDetail = buildRetryDetail(input.detail, attempt, cfg.maxAttempts, text)
-
-    const timer = setTimeout(() => {
-      sendRetryTimers.delete(input.sessionID)
-      queueTrigger(input.sessionID, {
-        source: `${input.source}.send_retry`,
-        force: input.force,
-        detail: retryDetail,
-      }).catch((err) => {
-        void log("warn", "send retry trigger failed", {
-          sessionID: input.sessionID,
-          source: input.source,
-          error: stringifyError(err),
-        })
-      })
-    }, delayMs)
-    sendRetryTimers.set(input.sessionID, timer)
+    armSendRetryTimer(input.sessionID, pending)
 
     await log("info", "send retry scheduled", {
       sessionID: input.sessionID,
@@ -333,6 +479,11 @@ export const PlanpilotPlugin: Plugin = async (ctx) => {
     return toSummary([permission, patterns.length ? `patterns=${patterns.join(",")}` : undefined])
   }
 
+  const permissionSubject = (properties: any): MatchSubject => {
+    const permission = typeof properties?.permission === "string" ? properties.permission.trim() : ""
+    return { ...(permission ? { permission } : {}), patterns: toStringArray(properties?.patterns) }
+  }
+
   const summarizeQuestionEvent = (properties: any): string => {
     const questions = Array.isArray(properties?.questions) ? properties.questions : []
     const pieces = questions
@@ -346,9 +497,30 @@ export const PlanpilotPlugin: Plugin = async (ctx) => {
     return pieces.join(" | ")
   }
 
-  const shouldTriggerEventRule = (rule: EventRule, text: string): boolean => {
-    if (!rule.enabled) return false
-    return matchesKeywords(text, rule.keywords)
+  const questionSubject = (properties: any): MatchSubject => {
+    const questions = Array.isArray(properties?.questions) ? properties.questions : []
+    return {
+      "question.header": toStringArray(questions.map((item: any) => item?.header)),
+      "question.text": toStringArray(questions.map((item: any) => item?.question)),
+    }
+  }
+
+  // Checks the keywords against `text` and the rule's matcher against the event's fields; named regex
+  // captures are added to the detail.
+  const matchEventRule = (rule: EventRule, text: string, subject: MatchSubject): { matched: boolean; detail: string } => {
+    if (!matchesKeywords(text, rule.keywords)) return { matched: false, detail: text }
+    if (!rule.match) return { matched: true, detail: text }
+    const result = evaluateRuleMatcher(rule.match, { ...subject, text })
+    return { matched: result.matched, detail: toSummary([text, ...formatMatchCaptures(result.captures)]) }
+  }
+
+  const shouldTriggerEventRule = (
+    rule: EventRule,
+    text: string,
+    subject: MatchSubject,
+  ): { matched: boolean; detail: string } => {
+    if (!rule.enabled) return { matched: false, detail: "" }
+    return matchEventRule(rule, text, subject)
   }
 
   const shouldTriggerSessionError = (rule: SessionErrorRule, error: any): { matched: boolean; detail: string } => {
@@ -381,10 +553,12 @@ export const PlanpilotPlugin: Plugin = async (ctx) => {
       retryable !== undefined ? `retryable=${retryable}` : undefined,
       message,
     ])
-    if (!matchesKeywords(detail, rule.keywords)) {
-      return { matched: false, detail }
-    }
-    return { matched: true, detail }
+    return matchEventRule(rule, detail, {
+      ...(name ? { "error.name": name } : {}),
+      ...(message ? { message } : {}),
+      ...(statusCode !== undefined ? { statusCode } : {}),
+      ...(retryable !== undefined ? { retryable } : {}),
+    })
   }
 
   const shouldTriggerSessionRetry = (rule: SessionRetryRule, status: any): { matched: boolean; detail: string } => {
@@ -403,10 +577,7 @@ export const PlanpilotPlugin: Plugin = async (ctx) => {
       next !== undefined ? `next=${next}` : undefined,
       message,
     ])
-    if (!matchesKeywords(detail, rule.keywords)) {
-      return { matched: false, detail }
-    }
-    return { matched: true, detail }
+    return matchEventRule(rule, detail, { attempt, ...(message ? { message } : {}) })
   }
 
   const readTrigger = (sessionID: string): AutoTrigger | undefined => {
@@ -421,10 +592,15 @@ export const PlanpilotPlugin: Plugin = async (ctx) => {
 
   const queueTrigger = async (sessionID: string, trigger: Omit<AutoTrigger, "at">) => {
     if (manualStop.has(sessionID)) {
-      await logDebug("auto-continue trigger skipped: manual-stop guard active", {
-        sessionID,
-        source: trigger.source,
-      })
+      await decide(
+        "debug",
+        "auto-continue trigger skipped: manual-stop guard active",
+        { outcome: "skipped", reason: "manual-stop guard" },
+        {
+          sessionID,
+          source: trigger.source,
+        },
+      )
       return
     }
     pendingTrigger.set(sessionID, {
@@ -448,43 +624,64 @@ export const PlanpilotPlugin: Plugin = async (ctx) => {
     const idleSource = source === "session.idle" || source === "session.status"
 
     if (inFlight.has(sessionID)) {
-      await logDebug("auto-continue skipped: already in-flight", { sessionID, source, run, trigger: trigger?.source })
+      await decide(
+        "debug",
+        "auto-continue skipped: already in-flight",
+        { outcome: "skipped", reason: "already in flight" },
+        { sessionID, source, run, trigger: trigger?.source },
+      )
       return
     }
 
     const stopped = manualStop.get(sessionID)
     if (stopped) {
       pendingTrigger.delete(sessionID)
-      await logDebug("auto-continue skipped: manual-stop guard active", {
-        sessionID,
-        source,
-        run,
-        stopAt: stopped.at,
-        stopReason: stopped.reason,
-      })
+      await decide(
+        "debug",
+        "auto-continue skipped: manual-stop guard active",
+        { outcome: "skipped", reason: "manual-stop guard" },
+        {
+          sessionID,
+          source,
+          run,
+          stopAt: stopped.at,
+          stopReason: stopped.reason,
+        },
+      )
       return
     }
 
     inFlight.add(sessionID)
+    let hookStart: { app: PlanpilotApp; cursor: number } | null = null
     try {
       if (skipNextAuto.has(sessionID)) {
         skipNextAuto.delete(sessionID)
         pendingTrigger.delete(sessionID)
-        await logDebug("auto-continue skipped: skipNextAuto", { sessionID, source, run, trigger: trigger?.source })
+        await decide(
+          "debug",
+          "auto-continue skipped: skipNextAuto",
+          { outcome: "skipped", reason: "skip-next-auto set" },
+          { sessionID, source, run, trigger: trigger?.source },
+        )
         return
       }
 
       if (idleSource && !trigger) {
         const lastIdle = lastIdleAt.get(sessionID)
         if (lastIdle && now - lastIdle < IDLE_DEBOUNCE_MS) {
-          await logDebug("auto-continue skipped: idle debounce", {
-            sessionID,
-            source,
-            run,
-            lastIdle,
-            now,
-            deltaMs: now - lastIdle,
-          })
+          await decide(
+            "debug",
+            "auto-continue skipped: idle debounce",
+            { outcome: "skipped", reason: "idle debounce" },
+            {
+              sessionID,
+              source,
+              run,
+              lastIdle,
+              now,
+              deltaMs: now - lastIdle,
+            },
+          )
           return
         }
       }
@@ -494,83 +691,237 @@ export const PlanpilotPlugin: Plugin = async (ctx) => {
       }
 
       const app = new PlanpilotApp(openDatabase(), sessionID)
+      hookStart = { app, cursor: app.latestEventId() }
       const active = app.getActivePlan()
       if (!active) {
         clearWaitTimer(sessionID)
         pendingTrigger.delete(sessionID)
-        await logDebug("auto-continue skipped: no active plan", { sessionID, source, run, trigger: trigger?.source })
+        await decide(
+          "debug",
+          "auto-continue skipped: no active plan",
+          { outcome: "skipped", reason: "no active plan" },
+          { sessionID, source, run, trigger: trigger?.source },
+        )
         return
       }
-      const next = app.nextStep(active.plan_id)
-      if (!next) {
+      const leaf = app.nextLeafStep(active.plan_id)
+      if (!leaf) {
         clearWaitTimer(sessionID)
         pendingTrigger.delete(sessionID)
-        await logDebug("auto-continue skipped: no pending step", {
-          sessionID,
-          source,
-          run,
-          planId: active.plan_id,
-          trigger: trigger?.source,
-        })
+        await decide(
+          "debug",
+          "auto-continue skipped: no pending step",
+          { outcome: "skipped", reason: "no pending step" },
+          {
+            sessionID,
+            source,
+            run,
+            planId: active.plan_id,
+            trigger: trigger?.source,
+          },
+        )
         return
       }
+      let next = leaf.step
       if (next.executor !== "ai") {
         clearWaitTimer(sessionID)
         pendingTrigger.delete(sessionID)
-        await logDebug("auto-continue skipped: next executor is not ai", {
+        await decide(
+          "debug",
+          "auto-continue skipped: next executor is not ai",
+          { outcome: "skipped", reason: "next step executor is not ai" },
+          {
+            sessionID,
+            source,
+            run,
+            planId: active.plan_id,
+            stepId: next.id,
+            executor: next.executor,
+            trigger: trigger?.source,
+          },
+        )
+        return
+      }
+
+      let wait = stepWait(next)
+      if (wait?.condition) {
+        const condition = wait.condition
+        const check = await checkWaitCondition(app, condition)
+        if (!check.met && wait.until > now) {
+          await decide(
+            "debug",
+            "auto-continue waiting for step condition",
+            { outcome: "delayed", reason: `waiting for ${formatWaitCondition(condition)}` },
+            {
+              sessionID,
+              source,
+              run,
+              planId: active.plan_id,
+              stepId: next.id,
+              until: wait.until,
+              check: check.detail,
+              trigger: trigger?.source,
+            },
+          )
+          const poll = Math.min(now + WAIT_POLL_MS, wait.until)
+          armWaitTimer(sessionID, { planId: active.plan_id, stepId: next.id, until: poll, directory })
+          return
+        }
+        // Met or timed out, the wait is over either way.
+        app.clearStepWait(next.id)
+        if (!check.met && condition.onTimeout === "human") {
+          app.updateStep(next.id, { executor: "human" })
+          clearWaitTimer(sessionID)
+          pendingTrigger.delete(sessionID)
+          await decide(
+            "warn",
+            "auto-continue wait timed out, step handed to a human",
+            { outcome: "stopped", reason: `timed out waiting for ${formatWaitCondition(condition)}` },
+            { sessionID, source, run, planId: active.plan_id, stepId: next.id, check: check.detail },
+          )
+          return
+        }
+        await log(check.met ? "info" : "warn", check.met ? "step wait condition met" : "step wait timed out", {
           sessionID,
-          source,
-          run,
           planId: active.plan_id,
           stepId: next.id,
-          executor: next.executor,
-          trigger: trigger?.source,
+          condition: formatWaitCondition(condition),
+          check: check.detail,
         })
-        return
+        next = app.getStep(next.id)
+        wait = null
       }
-
-      const wait = parseWaitFromComment(next.comment)
       if (wait && wait.until > now) {
+        await decide(
+          "info",
+          "auto-continue delayed by step wait",
+          { outcome: "delayed", reason: "step wait" },
+          {
+            sessionID,
+            source,
+            run,
+            planId: active.plan_id,
+            stepId: next.id,
+            until: wait.until,
+            reason: wait.reason,
+            trigger: trigger?.source,
+          },
+        )
+        armWaitTimer(sessionID, { planId: active.plan_id, stepId: next.id, until: wait.until, directory })
+        return
+      }
+      if (!wait) {
         clearWaitTimer(sessionID)
-        await log("info", "auto-continue delayed by step wait", {
+      }
+
+      // Before a step is sent again, its goal checks run: passing goals are done, and a step whose goals all
+      // pass is done without another send. Failures land in the goal comments the re-sent message shows.
+      const checkGoals = app.goalsForStep(next.id).filter((goal) => goal.status === "todo" && goal.verify_command)
+      if (checkGoals.length && app.countAutoContinueSends(next.id) > 0) {
+        const verification = await verifyGoals(app, checkGoals, verifyCwd(app, next.plan_id, directory || undefined))
+        const failed = verification.checks.filter((check) => !check.passed)
+        next = app.getStep(next.id)
+        if (next.status === "done") {
+          await decide(
+            "info",
+            "auto-continue skipped: goal checks passed",
+            { outcome: "skipped", reason: "goal checks passed, step done" },
+            {
+              sessionID,
+              source,
+              run,
+              planId: active.plan_id,
+              stepId: next.id,
+              checks: verification.checks.length,
+              trigger: trigger?.source,
+            },
+          )
+          // Go again right away so the following step is sent.
+          armWaitTimer(sessionID, { planId: active.plan_id, stepId: next.id, until: now, directory })
+          return
+        }
+        await log("info", "auto-continue ran goal checks", {
           sessionID,
-          source,
-          run,
           planId: active.plan_id,
           stepId: next.id,
-          until: wait.until,
-          reason: wait.reason,
-          trigger: trigger?.source,
+          passed: verification.checks.length - failed.length,
+          failed: failed.map((check) => check.goalId),
         })
-        const msUntil = Math.max(0, wait.until - now)
-        const timer = setTimeout(() => {
-          waitTimers.delete(sessionID)
-          handleSessionIdle(sessionID, "wait_timer").catch((err) => {
-            void log("warn", "auto-continue retry failed", {
+      }
+
+      // Budgets belong to the active plan; steps of nested child plans count against it.
+      const budget = planBudgetStatus(app, active.plan_id, autoConfig.budget, now)
+      if (budget.blocked) {
+        pendingTrigger.delete(sessionID)
+        const block = budgetBlocks.get(sessionID)
+        if (
+          block?.planId === active.plan_id &&
+          block.reason === budget.blocked &&
+          block.activatedAt === active.updated_at
+        ) {
+          await decide(
+            "debug",
+            "auto-continue skipped: plan budget",
+            { outcome: "blocked", reason: formatBudgetBlock(budget) },
+            {
               sessionID,
-              error: err instanceof Error ? err.message : String(err),
-            })
+              source,
+              run,
+              planId: active.plan_id,
+              reason: budget.blocked,
+              trigger: trigger?.source,
+            },
+          )
+        } else {
+          budgetBlocks.set(sessionID, { planId: active.plan_id, reason: budget.blocked, activatedAt: active.updated_at })
+          app.recordAutoContinue(active.plan_id, next.id, "blocked", {
+            reason: budget.blocked,
+            sends: budget.sends,
+            elapsedMs: budget.elapsedMs,
           })
-        }, msUntil)
-        waitTimers.set(sessionID, timer)
+          await decide(
+            "info",
+            "auto-continue blocked by plan budget",
+            { outcome: "blocked", reason: formatBudgetBlock(budget) },
+            {
+              sessionID,
+              source,
+              run,
+              planId: active.plan_id,
+              stepId: next.id,
+              reason: budget.blocked,
+              detail: formatBudgetBlock(budget),
+              nextWindowAt: budget.nextWindowAt,
+              trigger: trigger?.source,
+            },
+          )
+        }
+        // Outside the allowed windows the plan resumes by itself when the next window opens.
+        if (budget.blocked === "window" && budget.nextWindowAt !== null) {
+          armWaitTimer(sessionID, { planId: active.plan_id, stepId: next.id, until: budget.nextWindowAt, directory })
+        }
         return
       }
-      if (!wait) {
-        clearWaitTimer(sessionID)
-      }
+      budgetBlocks.delete(sessionID)
 
       const goals = app.goalsForStep(next.id)
-      const detail = formatStepDetail(next, goals)
+      const parents = formatStepParents(leaf.parents)
+      let detail = parents ? `${parents}\n${formatStepDetail(next, goals)}` : formatStepDetail(next, goals)
       if (!detail.trim()) {
         pendingTrigger.delete(sessionID)
-        await log("warn", "auto-continue stopped: empty step detail", {
-          sessionID,
-          source,
-          run,
-          planId: active.plan_id,
-          stepId: next.id,
-          trigger: trigger?.source,
-        })
+        await decide(
+          "warn",
+          "auto-continue stopped: empty step detail",
+          { outcome: "stopped", reason: "empty step detail" },
+          {
+            sessionID,
+            source,
+            run,
+            planId: active.plan_id,
+            stepId: next.id,
+            trigger: trigger?.source,
+          },
+        )
         return
       }
 
@@ -582,81 +933,181 @@ export const PlanpilotPlugin: Plugin = async (ctx) => {
       const recent = recentSends.get(sessionID)
       if (recent && recent.signature === signature && now - recent.at < RECENT_SEND_DEDUPE_MS) {
         pendingTrigger.delete(sessionID)
-        await logDebug("auto-continue skipped: duplicate send window", {
-          sessionID,
-          source,
-          run,
-          planId: active.plan_id,
-          stepId: next.id,
-          trigger: trigger?.source,
-          deltaMs: now - recent.at,
-        })
+        await decide(
+          "debug",
+          "auto-continue skipped: duplicate send window",
+          { outcome: "skipped", reason: "duplicate send window" },
+          {
+            sessionID,
+            source,
+            run,
+            planId: active.plan_id,
+            stepId: next.id,
+            trigger: trigger?.source,
+            deltaMs: now - recent.at,
+          },
+        )
         return
       }
 
       const autoContext = await resolveAutoContext(sessionID)
       if (autoContext?.missingUser) {
         pendingTrigger.delete(sessionID)
-        await log("warn", "auto-continue stopped: missing user context", { sessionID, source, run, trigger: trigger?.source })
+        await decide(
+          "warn",
+          "auto-continue stopped: missing user context",
+          { outcome: "stopped", reason: "missing user context" },
+          { sessionID, source, run, trigger: trigger?.source },
+        )
         return
       }
       if (!autoContext) {
         pendingTrigger.delete(sessionID)
-        await logDebug("auto-continue stopped: missing autoContext (no recent messages?)", {
-          sessionID,
-          source,
-          run,
-          planId: active.plan_id,
-          stepId: next.id,
-          trigger: trigger?.source,
-        })
+        await decide(
+          "debug",
+          "auto-continue stopped: missing autoContext (no recent messages?)",
+          { outcome: "stopped", reason: "no recent messages" },
+          {
+            sessionID,
+            source,
+            run,
+            planId: active.plan_id,
+            stepId: next.id,
+            trigger: trigger?.source,
+          },
+        )
         return
       }
       if (autoContext.aborted && !force) {
         pendingTrigger.delete(sessionID)
-        await logDebug("auto-continue skipped: last assistant aborted", {
-          sessionID,
-          source,
-          run,
-          planId: active.plan_id,
-          stepId: next.id,
-          assistantErrorName: autoContext.assistantErrorName,
-          assistantErrorMessage: autoContext.assistantErrorMessage,
-          assistantFinish: autoContext.assistantFinish,
-          trigger: trigger?.source,
-        })
+        await decide(
+          "debug",
+          "auto-continue skipped: last assistant aborted",
+          { outcome: "skipped", reason: "last assistant message aborted" },
+          {
+            sessionID,
+            source,
+            run,
+            planId: active.plan_id,
+            stepId: next.id,
+            assistantErrorName: autoContext.assistantErrorName,
+            assistantErrorMessage: autoContext.assistantErrorMessage,
+            assistantFinish: autoContext.assistantFinish,
+            trigger: trigger?.source,
+          },
+        )
         return
       }
       if (autoContext.ready === false && !force) {
         pendingTrigger.delete(sessionID)
-        await logDebug("auto-continue skipped: last assistant not ready", {
-          sessionID,
-          source,
-          run,
+        await decide(
+          "debug",
+          "auto-continue skipped: last assistant not ready",
+          { outcome: "skipped", reason: "last assistant message not finished" },
+          {
+            sessionID,
+            source,
+            run,
+            planId: active.plan_id,
+            stepId: next.id,
+            assistantFinish: autoContext.assistantFinish,
+            assistantErrorName: autoContext.assistantErrorName,
+            assistantErrorMessage: autoContext.assistantErrorMessage,
+            trigger: trigger?.source,
+          },
+        )
+        return
+      }
+
+      // Stall detection: count earlier sends of this step that saw no step/goal status change.
+      const progressMark = stepProgressMark(next, goals)
+      let stalledSends = unproductiveSends(sendProgress.get(sessionID), signature, progressMark)
+      if (!stalledSends) stalls.delete(sessionID)
+      if (autoConfig.stall.enabled && stalledSends >= autoConfig.stall.threshold) {
+        const existing = stalls.get(sessionID)
+        if (existing?.action === "hold" && existing.planId === active.plan_id && existing.stepId === next.id) {
+          pendingTrigger.delete(sessionID)
+          await decide(
+            "debug",
+            "auto-continue skipped: step stalled",
+            { outcome: "stalled", reason: "step stalled, held" },
+            {
+              sessionID,
+              source,
+              run,
+              planId: active.plan_id,
+              stepId: next.id,
+              sends: stalledSends,
+              trigger: trigger?.source,
+            },
+          )
+          return
+        }
+        const record: StallRecord = {
           planId: active.plan_id,
           stepId: next.id,
-          assistantFinish: autoContext.assistantFinish,
-          assistantErrorName: autoContext.assistantErrorName,
-          assistantErrorMessage: autoContext.assistantErrorMessage,
-          trigger: trigger?.source,
-        })
-        return
+          sends: stalledSends,
+          action: autoConfig.stall.action,
+          at: now,
+        }
+        applyStallAction(app, record)
+        stalls.set(sessionID, record)
+        await decide(
+          "warn",
+          "auto-continue stalled",
+          { outcome: "stalled", reason: `step stalled, action ${record.action}` },
+          {
+            sessionID,
+            source,
+            run,
+            planId: active.plan_id,
+            stepId: next.id,
+            sends: stalledSends,
+            action: record.action,
+            trigger: trigger?.source,
+          },
+        )
+        if (record.action !== "comment") {
+          pendingTrigger.delete(sessionID)
+          return
+        }
+        // The diagnostic comment goes out with this send; counting starts over.
+        const commented = app.getStep(next.id)
+        detail = parents ? `${parents}\n${formatStepDetail(commented, goals)}` : formatStepDetail(commented, goals)
+        stalledSends = 0
       }
 
-      const timestamp = new Date().toISOString()
-      const message = formatPlanpilotAutoContinueMessage({
-        timestamp,
+      const composed = composeAutoContinueMessage(app, {
+        activePlanId: active.plan_id,
+        step: next,
+        goals,
         stepDetail: detail,
+        configTemplate: autoConfig.messageTemplate,
         triggerDetail: trigger?.detail,
       })
-
+      if (composed.error) {
+        await log("warn", "auto-continue message template invalid, using the built-in message", {
+          sessionID,
+          planId: active.plan_id,
+          stepId: next.id,
+          error: composed.error,
+        })
+      }
+      const message = composed.text
+
+      // Step routing wins, then the step's plan and the active plan; the rest comes from the last user
+      // message. A routed model does not inherit the session's variant, which may not exist for it.
+      const routingLayers = [next, app.getPlan(next.plan_id)]
+      if (next.plan_id !== active.plan_id) routingLayers.push(app.getPlan(active.plan_id))
+      const routing = resolveRouting(routingLayers)
+      const variant = routing.variant ?? (routing.model ? undefined : autoContext.variant)
       const promptBody: any = {
-        agent: autoContext.agent ?? undefined,
-        model: autoContext.model ?? undefined,
+        agent: routing.agent ?? autoContext.agent ?? undefined,
+        model: routing.model ?? autoContext.model ?? undefined,
         parts: [{ type: "text" as const, text: message }],
       }
-      if (autoContext.variant) {
-        promptBody.variant = autoContext.variant
+      if (variant) {
+        promptBody.variant = variant
       }
 
       await logDebug("auto-continue sending prompt_async", {
@@ -670,9 +1121,11 @@ export const PlanpilotPlugin: Plugin = async (ctx) => {
         agent: promptBody.agent,
         model: promptBody.model,
         variant: promptBody.variant,
+        template: composed.source,
         messageChars: message.length,
       })
 
+      expectOwnPrompt(sessionID)
       await ctx.client.session.promptAsync({
         path: { id: sessionID },
         body: promptBody,
@@ -681,6 +1134,8 @@ export const PlanpilotPlugin: Plugin = async (ctx) => {
         // managed by opencode-studio (cwd != active project directory).
         headers: ctx.directory ? { "x-opencode-directory": ctx.directory } : undefined,
       }).catch(async (err) => {
+        const own = ownPrompts.get(sessionID)
+        if (own) ownPrompts.set(sessionID, { ...own, pendingAt: null })
         await scheduleSendRetry({
           sessionID,
           signature,
@@ -692,38 +1147,172 @@ export const PlanpilotPlugin: Plugin = async (ctx) => {
         throw err
       })
 
+      sendProgress.set(sessionID, { signature, mark: progressMark, sends: stalledSends + 1 })
       recentSends.set(sessionID, {
         signature,
         at: Date.now(),
       })
       clearSendRetry(sessionID)
       pendingTrigger.delete(sessionID)
+      try {
+        app.recordAutoContinue(active.plan_id, next.id, "sent", { message, trigger: trigger?.source ?? source })
+      } catch (err) {
+        await log("warn", "failed to record auto-continue event", {
+          sessionID,
+          planId: active.plan_id,
+          stepId: next.id,
+          error: err instanceof Error ? err.message : String(err),
+        })
+      }
 
-      await log("info", "auto-continue prompt_async accepted", {
-        sessionID,
-        source,
-        run,
-        planId: active.plan_id,
-        stepId: next.id,
-        trigger: trigger?.source,
-        force,
-      })
+      await decide(
+        "info",
+        "auto-continue prompt_async accepted",
+        { outcome: "sent", reason: "prompt accepted" },
+        {
+          sessionID,
+          source,
+          run,
+          planId: active.plan_id,
+          stepId: next.id,
+          trigger: trigger?.source,
+          force,
+        },
+      )
     } catch (err) {
-      await log("warn", "failed to auto-continue plan", {
-        sessionID,
-        source,
-        error: err instanceof Error ? err.message : String(err),
-        stack: err instanceof Error ? err.stack : undefined,
-      })
+      await decide(
+        "warn",
+        "failed to auto-continue plan",
+        { outcome: "failed", reason: stringifyError(err) },
+        {
+          sessionID,
+          source,
+          error: err instanceof Error ? err.message : String(err),
+          stack: err instanceof Error ? err.stack : undefined,
+        },
+      )
     } finally {
       inFlight.delete(sessionID)
+      if (hookStart) {
+        try {
+          const results = await fireHooks(hookStart.app, hookStart.cursor, loadedConfig.config.hooks, {
+            sessionId: sessionID,
+            cwd: directory || undefined,
+          })
+          for (const result of results.filter((item) => !item.ok)) {
+            await log("warn", "planpilot hook failed", { sessionID, event: result.event, target: result.target, error: result.error })
+          }
+        } catch (err) {
+          await log("warn", "planpilot hooks failed", { sessionID, error: stringifyError(err) })
+        }
+      }
+    }
+  }
+
+  // Re-arms this project's step waits and send retries saved before the last restart. A wait that elapsed
+  // while the plugin was down fires right away; handleSessionIdle re-checks the step as usual.
+  const rehydrateRuntimeState = async () => {
+    const waits = armedWaits.entries().filter(([, wait]) => wait.directory === directory)
+    waits.forEach(([sessionID, wait]) => armWaitTimer(sessionID, wait))
+    const retries = sendRetryState
+      .entries()
+      .filter(([, state]) => state.pending && state.pending.directory === directory)
+    retries.forEach(([sessionID, state]) => armSendRetryTimer(sessionID, state.pending as PendingRetry))
+    if (!waits.length && !retries.length) return
+    await log("info", "auto-continue state restored", {
+      directory,
+      waits: waits.map(([sessionID, wait]) => ({ sessionID, planId: wait.planId, stepId: wait.stepId, until: wait.until })),
+      sendRetries: retries.map(([sessionID]) => sessionID),
+    })
+  }
+
+  const reportConfigProblems = async (loaded: EffectivePlanpilotConfig) => {
+    if (loaded.diagnostics.length) {
+      await log("warn", "planpilot config has invalid values, using fallbacks (see `planpilot config validate`)", {
+        path: loaded.path,
+        projectPath: loaded.projectPath,
+        diagnostics: loaded.diagnostics,
+      })
+    }
+  }
+
+  // Moves this project's pending send retries onto the current delays. Each retry keeps the time its
+  // attempt started from; retries that are now disabled or past maxAttempts are dropped.
+  const rescheduleSendRetries = (previous: SendRetryConfig): string[] => {
+    const cfg = autoConfig.sendRetry
+    const delayFor = (delaysMs: number[], attempt: number) => delaysMs[Math.min(Math.max(attempt - 1, 0), delaysMs.length - 1)]
+    const moved: string[] = []
+    for (const [sessionID, state] of sendRetryState.entries()) {
+      if (!state.pending || state.pending.directory !== directory || !sendRetryTimers.has(sessionID)) continue
+      moved.push(sessionID)
+      if (!cfg.enabled || state.attempt > cfg.maxAttempts) {
+        clearSendRetry(sessionID)
+        continue
+      }
+      const startedAt = state.pending.at - delayFor(previous.delaysMs, state.attempt)
+      const pending = { ...state.pending, at: startedAt + delayFor(cfg.delaysMs, state.attempt) }
+      sendRetryState.set(sessionID, { ...state, pending })
+      armSendRetryTimer(sessionID, pending)
+    }
+    return moved
+  }
+
+  // Re-reads the config layers and swaps the new rules in. A file that fails to parse keeps the rules in
+  // use, so a half-saved edit never drops back to defaults. Timers scheduled from changed settings are
+  // moved: send retries onto the new delays, and armed waits fire now so budget windows are re-checked.
+  const reloadConfig = async () => {
+    const next = loadPlanpilotConfig(directory || undefined)
+    const failed = next.layers.filter((layer) => layer.error)
+    if (failed.length) {
+      await log("warn", "planpilot config reload failed, keeping the current config", {
+        errors: failed.map((layer) => ({ source: layer.source, path: layer.path, error: layer.error })),
+      })
+      return
     }
+    const previous = loadedConfig
+    const changed = diffPlanpilotConfig(previous.config, next.config)
+    loadedConfig = next
+    autoConfig = next.config.autoContinue
+    if (!changed.length) return
+
+    const retriesMoved = changed.some((key) => key.startsWith("autoContinue.sendRetry."))
+      ? rescheduleSendRetries(previous.config.autoContinue.sendRetry)
+      : []
+    const waits = changed.some((key) => key.startsWith("autoContinue.budget."))
+      ? armedWaits.entries().filter(([sessionID, wait]) => wait.directory === directory && waitTimers.has(sessionID))
+      : []
+    waits.forEach(([sessionID, wait]) => armWaitTimer(sessionID, { ...wait, until: Date.now() }))
+    await log("info", "planpilot config reloaded", {
+      path: next.path,
+      projectPath: next.projectPath,
+      changed,
+      sendRetriesRescheduled: retriesMoved,
+      waitsRechecked: waits.map(([sessionID]) => sessionID),
+    })
+    await reportConfigProblems(next)
   }
 
-  if (loadedConfig.loadError) {
-    await log("warn", "failed to load planpilot config, falling back to defaults", {
+  if (runtimeStateError) {
+    await log("warn", "failed to open planpilot.db for auto-continue state, keeping it in memory", {
+      error: runtimeStateError instanceof Error ? runtimeStateError.message : String(runtimeStateError),
+    })
+  }
+
+  await rehydrateRuntimeState()
+
+  await reportConfigProblems(loadedConfig)
+
+  let stopWatchingConfig: (() => void) | null = null
+  try {
+    stopWatchingConfig = watchPlanpilotConfig(() => {
+      reloadConfig().catch((err) => {
+        void log("warn", "planpilot config reload failed", { error: stringifyError(err) })
+      })
+    }, directory || undefined)
+  } catch (err) {
+    await log("warn", "failed to watch planpilot config, edits apply after a restart", {
       path: loadedConfig.path,
-      error: loadedConfig.loadError,
+      error: stringifyError(err),
     })
   }
 
@@ -732,6 +1321,7 @@ export const PlanpilotPlugin: Plugin = async (ctx) => {
     worktree: ctx.worktree,
     configPath: loadedConfig.path,
     configLoadedFromFile: loadedConfig.loadedFromFile,
+    projectConfigPath: loadedConfig.projectPath,
   })
 
   return {
@@ -754,6 +1344,12 @@ export const PlanpilotPlugin: Plugin = async (ctx) => {
             return formatCommandError(invalidInput("argv cannot include --cwd or --session-id"))
           }
 
+          if (isConfigChange(argv) && !loadedConfig.config.runtime.allowAgentConfigChanges) {
+            return formatCommandError(
+              invalidInput("config changes through this tool are off; set runtime.allowAgentConfigChanges to allow them"),
+            )
+          }
+
           const cwd = (ctx.directory ?? "").trim()
           if (!cwd) {
             return formatCommandError(invalidInput("cwd is required"))
@@ -775,7 +1371,7 @@ export const PlanpilotPlugin: Plugin = async (ctx) => {
       }),
     },
     "experimental.session.compacting": async ({ sessionID }, output) => {
-      skipNextAuto.add(sessionID)
+      skipNextAuto.set(sessionID, Date.now())
       lastIdleAt.set(sessionID, Date.now())
 
       await logDebug("compaction hook: skip next auto-continue", { sessionID })
@@ -786,14 +1382,24 @@ export const PlanpilotPlugin: Plugin = async (ctx) => {
     event: async ({ event }) => {
       const evt = event as any
 
+      if (evt.type === "server.instance.disposed") {
+        if (evt.properties?.directory && evt.properties.directory !== directory) return
+        stopWatchingConfig?.()
+        stopWatchingConfig = null
+        return
+      }
+
       if (evt.type === "message.updated") {
         const info = evt.properties?.info
         const sessionID = typeof info?.sessionID === "string" ? info.sessionID : ""
         if (!sessionID) return
 
         if (info.role === "user") {
+          if (claimOwnPrompt(sessionID, typeof info.id === "string" ? info.id : "")) return
           pendingTrigger.delete(sessionID)
           clearSendRetry(sessionID)
+          sendProgress.delete(sessionID)
+          stalls.delete(sessionID)
           await clearManualStop(sessionID, "message.updated.user")
           return
         }
@@ -845,17 +1451,20 @@ export const PlanpilotPlugin: Plugin = async (ctx) => {
         if (!sessionID) return
         const requestID = typeof evt.properties?.id === "string" ? evt.properties.id : ""
         const summary = summarizePermissionEvent(evt.properties)
+        const subject = permissionSubject(evt.properties)
         if (requestID) {
           permissionAsked.set(requestID, {
             sessionID,
             summary,
+            subject,
           })
         }
-        if (!shouldTriggerEventRule(autoConfig.onPermissionAsked, summary || "permission asked")) return
+        const result = shouldTriggerEventRule(autoConfig.onPermissionAsked, summary || "permission asked", subject)
+        if (!result.matched) return
         await queueTrigger(sessionID, {
           source: "permission.asked",
           force: autoConfig.onPermissionAsked.force,
-          detail: summary || "permission asked",
+          detail: result.detail,
         })
         return
       }
@@ -885,11 +1494,15 @@ export const PlanpilotPlugin: Plugin = async (ctx) => {
           requestID ? `request=${requestID}` : undefined,
           "reply=reject",
         ])
-        if (!shouldTriggerEventRule(autoConfig.onPermissionRejected, summary || "permission rejected")) return
+        const result = shouldTriggerEventRule(autoConfig.onPermissionRejected, summary || "permission rejected", {
+          ...asked?.subject,
+          reply,
+        })
+        if (!result.matched) return
         await queueTrigger(sessionID, {
           source: "permission.replied.reject",
           force: autoConfig.onPermissionRejected.force,
-          detail: summary || "permission rejected",
+          detail: result.detail,
         })
         return
       }
@@ -899,17 +1512,20 @@ export const PlanpilotPlugin: Plugin = async (ctx) => {
         if (!sessionID) return
         const requestID = typeof evt.properties?.id === "string" ? evt.properties.id : ""
         const summary = summarizeQuestionEvent(evt.properties)
+        const subject = questionSubject(evt.properties)
         if (requestID) {
           questionAsked.set(requestID, {
             sessionID,
             summary,
+            subject,
           })
         }
-        if (!shouldTriggerEventRule(autoConfig.onQuestionAsked, summary || "question asked")) return
+        const result = shouldTriggerEventRule(autoConfig.onQuestionAsked, summary || "question asked", subject)
+        if (!result.matched) return
         await queueTrigger(sessionID, {
           source: "question.asked",
           force: autoConfig.onQuestionAsked.force,
-          detail: summary || "question asked",
+          detail: result.detail,
         })
         return
       }
@@ -934,11 +1550,16 @@ export const PlanpilotPlugin: Plugin = async (ctx) => {
           requestID ? `request=${requestID}` : undefined,
           "question=rejected",
         ])
-        if (!shouldTriggerEventRule(autoConfig.onQuestionRejected, summary || "question rejected")) return
+        const result = shouldTriggerEventRule(
+          autoConfig.onQuestionRejected,
+          summary || "question rejected",
+          asked?.subject ?? {},
+        )
+        if (!result.matched) return
         await queueTrigger(sessionID, {
           source: "question.rejected",
           force: autoConfig.onQuestionRejected.force,
-          detail: summary || "question rejected",
+          detail: result.detail,
         })
       }
     },
@@ -947,6 +1568,10 @@ export const PlanpilotPlugin: Plugin = async (ctx) => {
 
 export default PlanpilotPlugin
 
+function isConfigChange(argv: string[]): boolean {
+  return argv[0] === "config" && ["set", "unset", "reset"].includes(argv[1] ?? "")
+}
+
 function containsForbiddenFlags(argv: string[]): boolean {
   return argv.some((token) => {
     if (token === "--cwd" || token === "--session-id") return true
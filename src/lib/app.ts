@@ -1,20 +1,30 @@
+import { randomUUID } from "crypto"
 import type { DatabaseConnection } from "./db"
 import {
   createEmptyStatusChanges,
   mergeStatusChanges,
   type ActivePlanRow,
+  type AutoRouting,
+  type EventAction,
+  type EventEntityType,
+  type EventRow,
   type GoalChanges,
   type GoalDetail,
+  type GoalInput,
   type GoalQuery,
   type GoalRow,
   type GoalStatus,
+  type GoalVerify,
   type PlanChanges,
   type PlanDetail,
   type PlanOrder,
+  type PlanQueueRow,
   type PlanRow,
   type PlanStatus,
+  type RevertResult,
   type StatusChanges,
   type StepChanges,
+  type StepDependencyRow,
   type StepDetail,
   type StepExecutor,
   type StepInput,
@@ -23,21 +33,33 @@ import {
   type StepStatus,
 } from "./models"
 import {
+  changedRowFields,
   ensureNonEmpty,
+  findDependencyCycle,
   joinIds,
   normalizeCommentEntries,
-  parseWaitFromComment,
-  removeWaitFromComment,
   uniqueIds,
-  upsertWaitInComment,
 } from "./util"
+import type { BudgetUsage, PlanBudget } from "./budget"
+import { normalizeRouting } from "./routing"
+import { NO_WAIT, stepWait, waitColumns, type StepWait, type WaitCondition, type WaitColumns } from "./wait"
+import { validateMessageTemplate } from "./message-template"
 import { invalidInput, notFound } from "./errors"
 import { formatStepDetail } from "./format"
 
+const REVERT_MUTATION_PREFIX = "revert:"
+
+const EVENT_TABLES: Record<Exclude<EventEntityType, "autocontinue">, string> = {
+  plan: "plans",
+  step: "steps",
+  goal: "goals",
+}
+
 export class PlanpilotApp {
   private db: DatabaseConnection
   private sessionId: string
   private cwd?: string
+  private mutationId: string | null = null
 
   constructor(db: DatabaseConnection, sessionId: string, cwd?: string) {
     this.db = db
@@ -56,48 +78,133 @@ export class PlanpilotApp {
       )
       .run(input.title, input.content, "todo", this.sessionId, this.cwd ?? null, now, now)
     const plan = this.getPlan(result.lastInsertRowid as number)
+    this.recordEvent(plan.id, "plan", plan.id, "created", null, plan)
     return plan
   }
 
-  addPlanTree(input: { title: string; content: string }, steps: StepInput[]): { plan: PlanRow; stepCount: number; goalCount: number } {
+  addPlanTree(
+    input: { title: string; content: string; comment?: string | null } & AutoRouting,
+    steps: StepInput[],
+  ): { plan: PlanRow; stepCount: number; goalCount: number } {
     ensureNonEmpty("plan title", input.title)
     ensureNonEmpty("plan content", input.content)
-    steps.forEach((step) => {
+    const treeEdges = new Map<number, number[]>()
+    const goalsByStep = steps.map((step) =>
+      step.goals.map((goal): GoalInput => (typeof goal === "string" ? { content: goal } : goal))
+    )
+    const planRouting = normalizeRouting(input)
+    const routingByStep = steps.map((step) => normalizeRouting(step))
+    steps.forEach((step, idx) => {
       ensureNonEmpty("step content", step.content)
-      step.goals.forEach((goal) => ensureNonEmpty("goal content", goal))
+      goalsByStep[idx].forEach((goal) => ensureNonEmpty("goal content", goal.content))
+      const position = idx + 1
+      const after = uniqueIds(step.after ?? [])
+      after.forEach((target) => {
+        if (!Number.isInteger(target) || target < 1 || target > steps.length) {
+          throw invalidInput(`step ${position} depends on step ${target}, which is not in this tree (1-${steps.length})`)
+        }
+        if (target === position) {
+          throw invalidInput(`step ${position} cannot depend on itself`)
+        }
+      })
+      treeEdges.set(position, after)
     })
+    const cycle = findDependencyCycle(treeEdges)
+    if (cycle) {
+      throw invalidInput(`step dependencies form a cycle: ${cycle.map((pos) => `step ${pos}`).join(" -> ")}`)
+    }
 
-    const tx = this.db.transaction(() => {
+    // Statuses are derived the same way roll-ups would derive them, so imported trees start consistent.
+    const stepStatuses = steps.map((step, idx): StepStatus => {
+      const goals = goalsByStep[idx]
+      if (!goals.length) return step.status ?? "todo"
+      return goals.every((goal) => goal.status === "done") ? "done" : "todo"
+    })
+    const planStatus: PlanStatus = steps.length && stepStatuses.every((status) => status === "done") ? "done" : "todo"
+
+    const tx = this.mutation(() => {
       const now = Date.now()
       const planResult = this.db
         .prepare(
-          `INSERT INTO plans (title, content, status, comment, last_session_id, last_cwd, created_at, updated_at)
-           VALUES (?, ?, ?, NULL, ?, ?, ?, ?)`
+          `INSERT INTO plans (title, content, status, comment, agent, model, variant, last_session_id, last_cwd, created_at, updated_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+        )
+        .run(
+          input.title,
+          input.content,
+          planStatus,
+          input.comment ?? null,
+          planRouting.agent ?? null,
+          planRouting.model ?? null,
+          planRouting.variant ?? null,
+          this.sessionId,
+          this.cwd ?? null,
+          now,
+          now,
         )
-        .run(input.title, input.content, "todo", this.sessionId, this.cwd ?? null, now, now)
       const plan = this.getPlan(planResult.lastInsertRowid as number)
+      this.recordEvent(plan.id, "plan", plan.id, "created", null, plan)
 
       let stepCount = 0
       let goalCount = 0
+      const stepIds: number[] = []
       steps.forEach((step, idx) => {
+        const routing = routingByStep[idx]
+        const wait = step.wait ? waitColumns(step.wait.until, step.wait.reason, step.wait.condition) : NO_WAIT
         const stepResult = this.db
           .prepare(
-            `INSERT INTO steps (plan_id, content, status, executor, sort_order, comment, created_at, updated_at)
-             VALUES (?, ?, ?, ?, ?, NULL, ?, ?)`
+            `INSERT INTO steps (plan_id, content, status, executor, sort_order, comment, agent, model, variant,
+               wait_until, wait_reason, wait_kind, wait_condition_json, created_at, updated_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+          )
+          .run(
+            plan.id,
+            step.content,
+            stepStatuses[idx],
+            step.executor,
+            idx + 1,
+            step.comment ?? null,
+            routing.agent ?? null,
+            routing.model ?? null,
+            routing.variant ?? null,
+            wait.wait_until,
+            wait.wait_reason,
+            wait.wait_kind,
+            wait.wait_condition_json,
+            now,
+            now,
           )
-          .run(plan.id, step.content, "todo", step.executor, idx + 1, now, now)
         const stepId = stepResult.lastInsertRowid as number
+        stepIds.push(stepId)
+        this.recordEvent(plan.id, "step", stepId, "created", null, this.getStep(stepId))
         stepCount += 1
-        step.goals.forEach((goal) => {
-          this.db
+        goalsByStep[idx].forEach((goal) => {
+          const goalResult = this.db
             .prepare(
-              `INSERT INTO goals (step_id, content, status, comment, created_at, updated_at)
-               VALUES (?, ?, ?, NULL, ?, ?)`
+              `INSERT INTO goals (step_id, content, status, comment, verify_command, verify_timeout_ms, verify_exit_code,
+                 created_at, updated_at)
+               VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
             )
-            .run(stepId, goal, "todo", now, now)
+            .run(
+              stepId,
+              goal.content,
+              goal.status ?? "todo",
+              goal.comment ?? null,
+              goal.verify?.command ?? null,
+              goal.verify?.timeoutMs ?? null,
+              goal.verify?.exitCode ?? null,
+              now,
+              now,
+            )
+          const goalId = goalResult.lastInsertRowid as number
+          this.recordEvent(plan.id, "goal", goalId, "created", null, this.getGoal(goalId))
           goalCount += 1
         })
       })
+      steps.forEach((step, idx) => {
+        const dependsOn = (step.after ?? []).map((pos) => stepIds[pos - 1])
+        this.insertDependencies(stepIds[idx], dependsOn)
+      })
 
       return { plan, stepCount, goalCount }
     })
@@ -142,7 +249,7 @@ export class PlanpilotApp {
     return { plan, steps }
   }
 
-  getPlanDetail(id: number): PlanDetail {
+  getPlanDetail(id: number, seen: Set<number> = new Set()): PlanDetail {
     const plan = this.getPlan(id)
     const steps = this.db
       .prepare("SELECT * FROM steps WHERE plan_id = ? ORDER BY sort_order ASC, id ASC")
@@ -153,13 +260,15 @@ export class PlanpilotApp {
     for (const step of steps) {
       goalsMap.set(step.id, goals.get(step.id) ?? [])
     }
-    return { plan, steps, goals: goalsMap }
+    const dependencies = this.dependenciesForSteps(stepIds)
+    return { plan, steps, goals: goalsMap, dependencies, children: this.childPlanDetails(id, steps, seen) }
   }
 
   getStepDetail(id: number): StepDetail {
     const step = this.getStep(id)
     const goals = this.goalsForStep(step.id)
-    return { step, goals }
+    const dependsOn = this.dependenciesForStep(step.id)
+    return { step, goals, dependsOn }
   }
 
   getGoalDetail(id: number): GoalDetail {
@@ -176,6 +285,7 @@ export class PlanpilotApp {
       .all(...planIds) as StepRow[]
     const stepIds = steps.map((step) => step.id)
     const goalsByStep = this.goalsForSteps(stepIds)
+    const dependenciesByStep = this.dependenciesForSteps(stepIds)
 
     const stepsByPlan = new Map<number, StepRow[]>()
     for (const step of steps) {
@@ -187,10 +297,13 @@ export class PlanpilotApp {
     return plans.map((plan) => {
       const planSteps = stepsByPlan.get(plan.id) ?? []
       const goalsMap = new Map<number, GoalRow[]>()
+      const dependencies = new Map<number, number[]>()
       for (const step of planSteps) {
         goalsMap.set(step.id, goalsByStep.get(step.id) ?? [])
+        const dependsOn = dependenciesByStep.get(step.id)
+        if (dependsOn) dependencies.set(step.id, dependsOn)
       }
-      return { plan, steps: planSteps, goals: goalsMap }
+      return { plan, steps: planSteps, goals: goalsMap, dependencies, children: this.childPlanDetails(plan.id, planSteps) }
     })
   }
 
@@ -198,9 +311,11 @@ export class PlanpilotApp {
     if (!steps.length) return []
     const stepIds = steps.map((step) => step.id)
     const goalsMap = this.goalsForSteps(stepIds)
+    const dependenciesMap = this.dependenciesForSteps(stepIds)
     return steps.map((step) => ({
       step,
       goals: goalsMap.get(step.id) ?? [],
+      dependsOn: dependenciesMap.get(step.id) ?? [],
     }))
   }
 
@@ -213,7 +328,7 @@ export class PlanpilotApp {
 
   setActivePlan(planId: number, takeover: boolean): ActivePlanRow {
     this.getPlan(planId)
-    const tx = this.db.transaction(() => {
+    const tx = this.mutation(() => {
       const existing = this.db
         .prepare("SELECT * FROM active_plan WHERE plan_id = ?")
         .get(planId) as ActivePlanRow | undefined
@@ -223,8 +338,22 @@ export class PlanpilotApp {
         )
       }
 
+      const replaced = this.db
+        .prepare("SELECT * FROM active_plan WHERE session_id = ? OR plan_id = ?")
+        .all(this.sessionId, planId) as ActivePlanRow[]
       this.db.prepare("DELETE FROM active_plan WHERE session_id = ?").run(this.sessionId)
       this.db.prepare("DELETE FROM active_plan WHERE plan_id = ?").run(planId)
+      let previous: ActivePlanRow | null = null
+      replaced.forEach((row) => {
+        if (row.session_id === this.sessionId && row.plan_id === planId) {
+          previous = row
+          return
+        }
+        this.recordEvent(row.plan_id, "plan", row.plan_id, "deactivated", row, null)
+      })
+
+      // Activating a queued plan takes it out of the queue.
+      this.dequeuePlanWithConn(planId)
 
       const now = Date.now()
       this.db
@@ -237,6 +366,7 @@ export class PlanpilotApp {
         .prepare("SELECT * FROM active_plan WHERE session_id = ?")
         .get(this.sessionId) as ActivePlanRow | undefined
       if (!created) throw notFound("active plan not found after insert")
+      this.recordEvent(planId, "plan", planId, "activated", previous, created)
       return created
     })
 
@@ -244,39 +374,143 @@ export class PlanpilotApp {
   }
 
   clearActivePlan() {
-    this.db.prepare("DELETE FROM active_plan WHERE session_id = ?").run(this.sessionId)
+    const tx = this.mutation(() => {
+      const existing = this.getActivePlan()
+      this.db.prepare("DELETE FROM active_plan WHERE session_id = ?").run(this.sessionId)
+      if (existing) {
+        this.recordEvent(existing.plan_id, "plan", existing.plan_id, "deactivated", existing, null)
+      }
+    })
+
+    tx()
   }
 
-  updatePlanWithActiveClear(id: number, changes: PlanChanges): { plan: PlanRow; cleared: boolean } {
-    const tx = this.db.transaction(() => {
+  updatePlanWithActiveClear(
+    id: number,
+    changes: PlanChanges,
+  ): { plan: PlanRow; cleared: boolean; promoted: number | null } {
+    const tx = this.mutation(() => {
       const plan = this.updatePlanWithConn(id, changes)
       let cleared = false
+      let promoted: number | null = null
       if (plan.status === "done") {
-        cleared = this.clearActivePlansForPlanWithConn(plan.id)
+        const finished = this.finishActivePlanWithConn(plan.id)
+        cleared = finished.active_plans_cleared.length > 0
+        promoted = finished.active_plans_promoted[0]?.plan_id ?? null
+      }
+      return { plan, cleared, promoted }
+    })
+
+    return tx()
+  }
+
+  listQueue(): PlanQueueRow[] {
+    return this.db
+      .prepare("SELECT * FROM plan_queue WHERE session_id = ? ORDER BY position ASC")
+      .all(this.sessionId) as PlanQueueRow[]
+  }
+
+  // Appends plans to this session's queue; with no active plan the first queued plan starts right away.
+  enqueuePlans(ids: number[]): { queued: PlanQueueRow[]; activated: ActivePlanRow | null } {
+    const tx = this.mutation(() => {
+      const unique = uniqueIds(ids)
+      const active = this.getActivePlan()
+      for (const id of unique) {
+        const plan = this.getPlan(id)
+        if (plan.status === "done") {
+          throw invalidInput(`cannot queue plan id ${id}; plan is done`)
+        }
+        if (active?.plan_id === id) {
+          throw invalidInput(`plan id ${id} is already the active plan`)
+        }
+        const activeElsewhere = this.db.prepare("SELECT session_id FROM active_plan WHERE plan_id = ?").get(id) as
+          | { session_id: string }
+          | undefined
+        if (activeElsewhere) {
+          throw invalidInput(`plan id ${id} is already active in session ${activeElsewhere.session_id}`)
+        }
+        const queued = this.db.prepare("SELECT * FROM plan_queue WHERE plan_id = ?").get(id) as PlanQueueRow | undefined
+        if (queued) {
+          throw invalidInput(
+            queued.session_id === this.sessionId
+              ? `plan id ${id} is already queued at position ${queued.position}`
+              : `plan id ${id} is already queued in session ${queued.session_id}`
+          )
+        }
+        const last = this.db
+          .prepare("SELECT COALESCE(MAX(position), 0) as position FROM plan_queue WHERE session_id = ?")
+          .get(this.sessionId) as { position: number }
+        this.insertQueueRowWithConn({ session_id: this.sessionId, plan_id: id, position: last.position + 1 })
+      }
+      const activated = active ? null : this.promoteQueuedPlanWithConn(this.sessionId)
+      return { queued: this.listQueue(), activated }
+    })
+
+    return tx()
+  }
+
+  dequeuePlans(ids: number[]): number {
+    const tx = this.mutation(() => {
+      const unique = uniqueIds(ids)
+      const queued = this.listQueue()
+      const missing = unique.filter((id) => !queued.some((row) => row.plan_id === id))
+      if (missing.length) {
+        throw notFound(`plan id(s) not queued in this session: ${joinIds(missing)}`)
       }
-      return { plan, cleared }
+      unique.forEach((id) => this.dequeuePlanWithConn(id))
+      return unique.length
+    })
+
+    return tx()
+  }
+
+  moveQueuedPlan(planId: number, to: number): PlanQueueRow[] {
+    const tx = this.mutation(() => {
+      const queued = this.listQueue()
+      const row = queued.find((item) => item.plan_id === planId)
+      if (!row) {
+        throw notFound(`plan id ${planId} is not queued in this session`)
+      }
+      if (to < 1) {
+        throw invalidInput("position must be >= 1")
+      }
+      const moved = this.placeQueueRowWithConn(row, to)
+      if (moved.position !== row.position) {
+        this.recordEvent(planId, "plan", planId, "queued", row, moved)
+      }
+      return this.listQueue()
     })
 
     return tx()
   }
 
   deletePlan(id: number) {
-    const tx = this.db.transaction(() => {
-      this.db.prepare("DELETE FROM active_plan WHERE plan_id = ?").run(id)
-      const stepIds = this.db
-        .prepare("SELECT id FROM steps WHERE plan_id = ?")
-        .all(id)
-        .map((row: any) => row.id as number)
+    const tx = this.mutation(() => {
+      const plan = this.getPlan(id)
+      this.clearActivePlansForPlanWithConn(id)
+      this.dequeuePlanWithConn(id)
+      const parents = this.db.prepare("SELECT * FROM steps WHERE child_plan_id = ?").all(id) as StepRow[]
+      for (const parent of parents) {
+        this.db.prepare("UPDATE steps SET child_plan_id = NULL, updated_at = ? WHERE id = ?").run(Date.now(), parent.id)
+        this.recordUpdate(parent.plan_id, "step", parent, this.getStep(parent.id))
+        this.refreshStepStatus(parent.id)
+      }
+      const steps = this.db
+        .prepare("SELECT * FROM steps WHERE plan_id = ? ORDER BY sort_order ASC, id ASC")
+        .all(id) as StepRow[]
+      const stepIds = steps.map((step) => step.id)
       if (stepIds.length) {
+        this.goalsForSteps(stepIds).forEach((goals) =>
+          goals.forEach((goal) => this.recordEvent(id, "goal", goal.id, "deleted", goal, null))
+        )
+        this.stepSnapshotsWithConn(steps).forEach((step) => this.recordEvent(id, "step", step.id, "deleted", step, null))
         this.db
           .prepare(`DELETE FROM goals WHERE step_id IN (${stepIds.map(() => "?").join(",")})`)
           .run(...stepIds)
         this.db.prepare("DELETE FROM steps WHERE plan_id = ?").run(id)
       }
-      const result = this.db.prepare("DELETE FROM plans WHERE id = ?").run(id)
-      if (result.changes === 0) {
-        throw notFound(`plan id ${id}`)
-      }
+      this.db.prepare("DELETE FROM plans WHERE id = ?").run(id)
+      this.recordEvent(id, "plan", id, "deleted", plan, null)
     })
 
     tx()
@@ -288,6 +522,8 @@ export class PlanpilotApp {
     status: StepStatus,
     executor: StepExecutor,
     at?: number | null,
+    dependsOn: number[] = [],
+    routing: AutoRouting = {},
   ): { steps: StepRow[]; changes: StatusChanges } {
     if (!this.db.prepare("SELECT 1 FROM plans WHERE id = ?").get(planId)) {
       throw notFound(`plan id ${planId}`)
@@ -296,8 +532,10 @@ export class PlanpilotApp {
       return { steps: [], changes: createEmptyStatusChanges() }
     }
     contents.forEach((content) => ensureNonEmpty("step content", content))
+    const normalized = normalizeRouting(routing)
 
-    const tx = this.db.transaction(() => {
+    const tx = this.mutation(() => {
+      this.ensureStepsInPlan(planId, dependsOn)
       const existing = this.db
         .prepare("SELECT * FROM steps WHERE plan_id = ? ORDER BY sort_order ASC, id ASC")
         .all(planId) as StepRow[]
@@ -326,11 +564,24 @@ export class PlanpilotApp {
         const sortOrder = insertPos + idx
         const result = this.db
           .prepare(
-            `INSERT INTO steps (plan_id, content, status, executor, sort_order, comment, created_at, updated_at)
-             VALUES (?, ?, ?, ?, ?, NULL, ?, ?)`
+            `INSERT INTO steps (plan_id, content, status, executor, sort_order, comment, agent, model, variant, created_at, updated_at)
+             VALUES (?, ?, ?, ?, ?, NULL, ?, ?, ?, ?, ?)`
+          )
+          .run(
+            planId,
+            content,
+            status,
+            executor,
+            sortOrder,
+            normalized.agent ?? null,
+            normalized.model ?? null,
+            normalized.variant ?? null,
+            now,
+            now,
           )
-          .run(planId, content, status, executor, sortOrder, now, now)
         const step = this.getStep(result.lastInsertRowid as number)
+        this.insertDependencies(step.id, dependsOn)
+        this.recordEvent(planId, "step", step.id, "created", null, step)
         created.push(step)
       })
 
@@ -342,14 +593,23 @@ export class PlanpilotApp {
     return tx()
   }
 
-  addStepTree(planId: number, content: string, executor: StepExecutor, goals: string[]): { step: StepRow; goals: GoalRow[]; changes: StatusChanges } {
+  addStepTree(
+    planId: number,
+    content: string,
+    executor: StepExecutor,
+    goals: string[],
+    dependsOn: number[] = [],
+    routing: AutoRouting = {},
+  ): { step: StepRow; goals: GoalRow[]; changes: StatusChanges } {
     ensureNonEmpty("step content", content)
     goals.forEach((goal) => ensureNonEmpty("goal content", goal))
+    const normalized = normalizeRouting(routing)
 
-    const tx = this.db.transaction(() => {
+    const tx = this.mutation(() => {
       if (!this.db.prepare("SELECT 1 FROM plans WHERE id = ?").get(planId)) {
         throw notFound(`plan id ${planId}`)
       }
+      this.ensureStepsInPlan(planId, dependsOn)
       const existing = this.db
         .prepare("SELECT * FROM steps WHERE plan_id = ? ORDER BY sort_order ASC, id ASC")
         .all(planId) as StepRow[]
@@ -359,11 +619,24 @@ export class PlanpilotApp {
       const now = Date.now()
       const stepResult = this.db
         .prepare(
-          `INSERT INTO steps (plan_id, content, status, executor, sort_order, comment, created_at, updated_at)
-           VALUES (?, ?, ?, ?, ?, NULL, ?, ?)`
+          `INSERT INTO steps (plan_id, content, status, executor, sort_order, comment, agent, model, variant, created_at, updated_at)
+           VALUES (?, ?, ?, ?, ?, NULL, ?, ?, ?, ?, ?)`
+        )
+        .run(
+          planId,
+          content,
+          "todo",
+          executor,
+          sortOrder,
+          normalized.agent ?? null,
+          normalized.model ?? null,
+          normalized.variant ?? null,
+          now,
+          now,
         )
-        .run(planId, content, "todo", executor, sortOrder, now, now)
       const step = this.getStep(stepResult.lastInsertRowid as number)
+      this.insertDependencies(step.id, dependsOn)
+      this.recordEvent(planId, "step", step.id, "created", null, step)
 
       const createdGoals: GoalRow[] = []
       for (const goalContent of goals) {
@@ -373,7 +646,9 @@ export class PlanpilotApp {
              VALUES (?, ?, ?, NULL, ?, ?)`
           )
           .run(step.id, goalContent, "todo", now, now)
-        createdGoals.push(this.getGoal(goalResult.lastInsertRowid as number))
+        const goal = this.getGoal(goalResult.lastInsertRowid as number)
+        this.recordEvent(planId, "goal", goal.id, "created", null, goal)
+        createdGoals.push(goal)
       }
 
       const changes = this.refreshPlanStatus(planId)
@@ -439,23 +714,68 @@ export class PlanpilotApp {
 
   nextStep(planId: number): StepRow | null {
     const row = this.db
-      .prepare("SELECT * FROM steps WHERE plan_id = ? AND status = ? ORDER BY sort_order ASC, id ASC LIMIT 1")
-      .get(planId, "todo") as StepRow | undefined
+      .prepare(
+        `SELECT * FROM steps s
+         WHERE s.plan_id = ? AND s.status = ?
+           AND NOT EXISTS (
+             SELECT 1 FROM step_dependencies d
+             JOIN steps dep ON dep.id = d.depends_on_id
+             WHERE d.step_id = s.id AND dep.status != ?
+           )
+         ORDER BY s.sort_order ASC, s.id ASC LIMIT 1`
+      )
+      .get(planId, "todo", "done") as StepRow | undefined
     return row ?? null
   }
 
+  // Follows child plans down from the plan's next step to the step that can actually be worked on.
+  nextLeafStep(planId: number): { step: StepRow; parents: StepRow[] } | null {
+    const parents: StepRow[] = []
+    const seen = new Set<number>([planId])
+    let step = this.nextStep(planId)
+    while (step && step.child_plan_id !== null && !seen.has(step.child_plan_id)) {
+      const childNext = this.nextStep(step.child_plan_id)
+      if (!childNext) break
+      seen.add(step.child_plan_id)
+      parents.push(step)
+      step = childNext
+    }
+    return step ? { step, parents } : null
+  }
+
+  // Steps that (transitively) nest the plan, outermost first.
+  parentStepsForPlan(planId: number): StepRow[] {
+    const parents: StepRow[] = []
+    const seen = new Set<number>()
+    let current: number | null = planId
+    while (current !== null && !seen.has(current)) {
+      seen.add(current)
+      const parent = this.db.prepare("SELECT * FROM steps WHERE child_plan_id = ?").get(current) as StepRow | undefined
+      if (!parent) break
+      parents.unshift(parent)
+      current = parent.plan_id
+    }
+    return parents
+  }
+
   updateStep(id: number, changes: StepChanges): { step: StepRow; changes: StatusChanges } {
-    const tx = this.db.transaction(() => {
+    const tx = this.mutation(() => {
       if (changes.content !== undefined) {
         ensureNonEmpty("step content", changes.content)
       }
+      const routing = normalizeRouting(changes)
+      const existing = this.getStep(id)
+      const childPlanId = changes.childPlanId !== undefined ? changes.childPlanId : existing.child_plan_id
+      if (changes.childPlanId !== undefined && changes.childPlanId !== null && changes.childPlanId !== existing.child_plan_id) {
+        this.ensureChildPlanAllowed(existing, changes.childPlanId)
+      }
       if (changes.status === "done") {
         const pending = this.nextGoalForStep(id)
         if (pending) {
           throw invalidInput(`cannot mark step done; next pending goal: ${pending.content} (id ${pending.id})`)
         }
+        this.ensureChildPlanDone(childPlanId)
       }
-      const existing = this.getStep(id)
       const now = Date.now()
 
       const updated = {
@@ -463,18 +783,37 @@ export class PlanpilotApp {
         status: changes.status ?? existing.status,
         executor: changes.executor ?? existing.executor,
         comment: changes.comment !== undefined ? changes.comment : existing.comment,
+        agent: routing.agent !== undefined ? routing.agent : existing.agent,
+        model: routing.model !== undefined ? routing.model : existing.model,
+        variant: routing.variant !== undefined ? routing.variant : existing.variant,
       }
       this.db
         .prepare(
-          `UPDATE steps SET content = ?, status = ?, executor = ?, comment = ?, updated_at = ? WHERE id = ?`
+          `UPDATE steps SET content = ?, status = ?, executor = ?, comment = ?, child_plan_id = ?, agent = ?, model = ?, variant = ?, updated_at = ? WHERE id = ?`
+        )
+        .run(
+          updated.content,
+          updated.status,
+          updated.executor,
+          updated.comment,
+          childPlanId,
+          updated.agent,
+          updated.model,
+          updated.variant,
+          now,
+          id,
         )
-        .run(updated.content, updated.status, updated.executor, updated.comment, now, id)
 
-      const step = this.getStep(id)
+      this.recordUpdate(existing.plan_id, "step", existing, this.getStep(id))
       const statusChanges = createEmptyStatusChanges()
+      if (childPlanId !== existing.child_plan_id) {
+        // The step now rolls up from a different child plan (or none).
+        mergeStatusChanges(statusChanges, this.refreshStepStatus(id))
+      }
       if (changes.status !== undefined) {
-        mergeStatusChanges(statusChanges, this.refreshPlanStatus(step.plan_id))
+        mergeStatusChanges(statusChanges, this.refreshPlanStatus(existing.plan_id))
       }
+      const step = this.getStep(id)
       this.touchPlan(step.plan_id)
       return { step, changes: statusChanges }
     })
@@ -483,7 +822,7 @@ export class PlanpilotApp {
   }
 
   setStepDoneWithGoals(id: number, allGoals: boolean): { step: StepRow; changes: StatusChanges } {
-    const tx = this.db.transaction(() => {
+    const tx = this.mutation(() => {
       let changes = createEmptyStatusChanges()
       if (allGoals) {
         const goalChanges = this.setAllGoalsDoneForStep(id)
@@ -496,11 +835,13 @@ export class PlanpilotApp {
       }
 
       const existing = this.getStep(id)
+      this.ensureChildPlanDone(existing.child_plan_id)
       if (existing.status !== "done") {
         const now = Date.now()
         this.db.prepare("UPDATE steps SET status = ?, updated_at = ? WHERE id = ?").run("done", now, id)
       }
       const step = this.getStep(id)
+      this.recordUpdate(step.plan_id, "step", existing, step)
       mergeStatusChanges(changes, this.refreshPlanStatus(step.plan_id))
       this.touchPlan(step.plan_id)
       return { step, changes }
@@ -510,40 +851,114 @@ export class PlanpilotApp {
   }
 
   moveStep(id: number, to: number): StepRow[] {
-    const tx = this.db.transaction(() => {
+    const tx = this.mutation(() => {
       const target = this.getStep(id)
-      const planId = target.plan_id
-      const steps = this.db
-        .prepare("SELECT * FROM steps WHERE plan_id = ? ORDER BY sort_order ASC, id ASC")
-        .all(planId) as StepRow[]
-      const currentIndex = steps.findIndex((step) => step.id === id)
-      if (currentIndex === -1) throw notFound(`step id ${id}`)
-      let desiredIndex = Math.max(to - 1, 0)
-      if (desiredIndex >= steps.length) desiredIndex = steps.length - 1
-
-      const [moving] = steps.splice(currentIndex, 1)
-      if (desiredIndex >= steps.length) steps.push(moving)
-      else steps.splice(desiredIndex, 0, moving)
-
-      const now = Date.now()
-      steps.forEach((step, idx) => {
-        const desiredOrder = idx + 1
-        if (step.sort_order !== desiredOrder) {
-          this.db
-            .prepare("UPDATE steps SET sort_order = ?, updated_at = ? WHERE id = ?")
-            .run(desiredOrder, now, step.id)
-          step.sort_order = desiredOrder
-          step.updated_at = now
-        }
-      })
+      const steps = this.placeStepWithConn(target, to)
+      const moving = steps.find((step) => step.id === id)
+      if (moving && moving.sort_order !== target.sort_order) {
+        this.recordEvent(target.plan_id, "step", id, "moved", target, { ...moving })
+      }
       return steps
     })
 
     return tx()
   }
 
+  undo(count: number): RevertResult {
+    if (!Number.isInteger(count) || count < 1) {
+      throw invalidInput("count must be >= 1")
+    }
+    const tx = this.mutation(() => {
+      const mutationIds = (
+        this.db
+          .prepare(
+            `SELECT mutation_id FROM events
+             WHERE session_id = ? AND undone = 0 AND mutation_id IS NOT NULL AND mutation_id NOT LIKE ?
+             GROUP BY mutation_id ORDER BY MAX(id) DESC LIMIT ?`
+          )
+          .all(this.sessionId, `${REVERT_MUTATION_PREFIX}%`, count) as Array<{ mutation_id: string }>
+      ).map((row) => row.mutation_id)
+      const events = mutationIds.length
+        ? (this.db
+            .prepare(
+              `SELECT * FROM events WHERE undone = 0 AND mutation_id IN (${mutationIds.map(() => "?").join(",")}) ORDER BY id DESC`
+            )
+            .all(...mutationIds) as EventRow[])
+        : []
+      return { mutations: mutationIds.length, ...this.revertEventsWithConn(events) }
+    }, REVERT_MUTATION_PREFIX)
+
+    return tx()
+  }
+
+  revertPlan(planId: number, to: number): RevertResult {
+    const tx = this.mutation(() => {
+      const events = this.db
+        .prepare(
+          "SELECT * FROM events WHERE plan_id = ? AND created_at > ? AND undone = 0 AND entity_type != 'autocontinue' ORDER BY id DESC"
+        )
+        .all(planId, to) as EventRow[]
+      if (!events.length) this.getPlan(planId)
+      const mutations = new Set(events.map((event) => event.mutation_id ?? `event:${event.id}`)).size
+      return { mutations, ...this.revertEventsWithConn(events) }
+    }, REVERT_MUTATION_PREFIX)
+
+    return tx()
+  }
+
+  // Records an auto-continue prompt delivered for the step, a stall detected on it, or a send held back by
+  // the plan's budget. It has no mutation id, so undo ignores it.
+  recordAutoContinue(planId: number, stepId: number, action: "sent" | "stalled" | "blocked", detail: object) {
+    this.recordEvent(planId, "autocontinue", stepId, action, null, { step_id: stepId, ...detail }, null)
+  }
+
+  // Auto-continue prompts already delivered for the step, in any session.
+  countAutoContinueSends(stepId: number): number {
+    const row = this.db
+      .prepare(
+        "SELECT COUNT(*) as count FROM events WHERE entity_type = 'autocontinue' AND entity_id = ? AND action = 'sent'"
+      )
+      .get(stepId) as { count: number }
+    return row.count
+  }
+
+  getPlanBudget(planId: number): PlanBudget | null {
+    const plan = this.getPlan(planId)
+    if (!plan.budget_json) return null
+    try {
+      return JSON.parse(plan.budget_json) as PlanBudget
+    } catch {
+      return null
+    }
+  }
+
+  // Replaces the plan's budget override; null falls back to the config defaults.
+  setPlanBudget(planId: number, budget: PlanBudget | null): PlanRow {
+    const tx = this.mutation(() => {
+      const existing = this.getPlan(planId)
+      const json = budget && Object.keys(budget).length ? JSON.stringify(budget) : null
+      this.db.prepare("UPDATE plans SET budget_json = ?, updated_at = ? WHERE id = ?").run(json, Date.now(), planId)
+      const plan = this.getPlan(planId)
+      this.recordUpdate(planId, "plan", existing, plan)
+      return plan
+    })
+    return tx()
+  }
+
+  // Budget usage counts from the plan's current activation in any session; an inactive plan has none.
+  budgetUsage(planId: number): BudgetUsage {
+    const active = this.db.prepare("SELECT * FROM active_plan WHERE plan_id = ?").get(planId) as ActivePlanRow | null
+    if (!active) return { activatedAt: null, sends: 0 }
+    const row = this.db
+      .prepare(
+        "SELECT COUNT(*) as count FROM events WHERE plan_id = ? AND entity_type = 'autocontinue' AND action = 'sent' AND created_at >= ?"
+      )
+      .get(planId, active.updated_at) as { count: number }
+    return { activatedAt: active.updated_at, sends: row.count }
+  }
+
   deleteSteps(ids: number[]): { deleted: number; changes: StatusChanges } {
-    const tx = this.db.transaction(() => {
+    const tx = this.mutation(() => {
       if (!ids.length) return { deleted: 0, changes: createEmptyStatusChanges() }
       const unique = uniqueIds(ids)
       const steps = this.db
@@ -556,6 +971,13 @@ export class PlanpilotApp {
       }
 
       const planIds = Array.from(new Set(steps.map((step) => step.plan_id)))
+      this.goalsForSteps(unique).forEach((goals, stepId) => {
+        const planId = steps.find((step) => step.id === stepId)?.plan_id ?? null
+        goals.forEach((goal) => this.recordEvent(planId, "goal", goal.id, "deleted", goal, null))
+      })
+      this.stepSnapshotsWithConn(steps).forEach((step) =>
+        this.recordEvent(step.plan_id, "step", step.id, "deleted", step, null)
+      )
       if (unique.length) {
         this.db
           .prepare(`DELETE FROM goals WHERE step_id IN (${unique.map(() => "?").join(",")})`)
@@ -578,22 +1000,30 @@ export class PlanpilotApp {
     return tx()
   }
 
-  addGoalsBatch(stepId: number, contents: string[], status: GoalStatus): { goals: GoalRow[]; changes: StatusChanges } {
+  addGoalsBatch(
+    stepId: number,
+    contents: string[],
+    status: GoalStatus,
+    verify?: GoalVerify,
+  ): { goals: GoalRow[]; changes: StatusChanges } {
     if (!contents.length) return { goals: [], changes: createEmptyStatusChanges() }
     contents.forEach((content) => ensureNonEmpty("goal content", content))
 
-    const tx = this.db.transaction(() => {
+    const tx = this.mutation(() => {
       const step = this.getStep(stepId)
       const now = Date.now()
       const created: GoalRow[] = []
       contents.forEach((content) => {
         const result = this.db
           .prepare(
-            `INSERT INTO goals (step_id, content, status, comment, created_at, updated_at)
-             VALUES (?, ?, ?, NULL, ?, ?)`
+            `INSERT INTO goals (step_id, content, status, comment, verify_command, verify_timeout_ms, verify_exit_code,
+               created_at, updated_at)
+             VALUES (?, ?, ?, NULL, ?, ?, ?, ?, ?)`
           )
-          .run(stepId, content, status, now, now)
-        created.push(this.getGoal(result.lastInsertRowid as number))
+          .run(stepId, content, status, verify?.command ?? null, verify?.timeoutMs ?? null, verify?.exitCode ?? null, now, now)
+        const goal = this.getGoal(result.lastInsertRowid as number)
+        this.recordEvent(step.plan_id, "goal", goal.id, "created", null, goal)
+        created.push(goal)
       })
       const changes = this.refreshStepStatus(stepId)
       this.touchPlan(step.plan_id)
@@ -638,7 +1068,7 @@ export class PlanpilotApp {
   }
 
   updateGoal(id: number, changes: GoalChanges): { goal: GoalRow; changes: StatusChanges } {
-    const tx = this.db.transaction(() => {
+    const tx = this.mutation(() => {
       if (changes.content !== undefined) {
         ensureNonEmpty("goal content", changes.content)
       }
@@ -649,11 +1079,28 @@ export class PlanpilotApp {
         status: changes.status ?? existing.status,
         comment: changes.comment !== undefined ? changes.comment : existing.comment,
       }
+      let verify = {
+        command: existing.verify_command,
+        timeoutMs: existing.verify_timeout_ms,
+        exitCode: existing.verify_exit_code,
+      }
+      if (changes.verify !== undefined) {
+        verify = {
+          command: changes.verify?.command ?? null,
+          timeoutMs: changes.verify?.timeoutMs ?? null,
+          exitCode: changes.verify?.exitCode ?? null,
+        }
+      }
       this.db
-        .prepare("UPDATE goals SET content = ?, status = ?, comment = ?, updated_at = ? WHERE id = ?")
-        .run(updated.content, updated.status, updated.comment, now, id)
+        .prepare(
+          `UPDATE goals SET content = ?, status = ?, comment = ?, verify_command = ?, verify_timeout_ms = ?,
+             verify_exit_code = ?, updated_at = ?
+           WHERE id = ?`
+        )
+        .run(updated.content, updated.status, updated.comment, verify.command, verify.timeoutMs, verify.exitCode, now, id)
 
       const goal = this.getGoal(id)
+      this.recordUpdate(this.getStep(goal.step_id).plan_id, "goal", existing, goal)
       const statusChanges = createEmptyStatusChanges()
       if (changes.status !== undefined) {
         mergeStatusChanges(statusChanges, this.refreshStepStatus(goal.step_id))
@@ -667,11 +1114,12 @@ export class PlanpilotApp {
   }
 
   setGoalStatus(id: number, status: GoalStatus): { goal: GoalRow; changes: StatusChanges } {
-    const tx = this.db.transaction(() => {
-      this.getGoal(id)
+    const tx = this.mutation(() => {
+      const existing = this.getGoal(id)
       const now = Date.now()
       this.db.prepare("UPDATE goals SET status = ?, updated_at = ? WHERE id = ?").run(status, now, id)
       const goal = this.getGoal(id)
+      this.recordUpdate(this.getStep(goal.step_id).plan_id, "goal", existing, goal)
       const changes = this.refreshStepStatus(goal.step_id)
       const step = this.getStep(goal.step_id)
       this.touchPlan(step.plan_id)
@@ -683,7 +1131,7 @@ export class PlanpilotApp {
 
   setGoalsStatus(ids: number[], status: GoalStatus): { updated: number; changes: StatusChanges } {
     if (!ids.length) return { updated: 0, changes: createEmptyStatusChanges() }
-    const tx = this.db.transaction(() => {
+    const tx = this.mutation(() => {
       const unique = uniqueIds(ids)
       const goals = this.db
         .prepare(`SELECT * FROM goals WHERE id IN (${unique.map(() => "?").join(",")})`)
@@ -696,12 +1144,14 @@ export class PlanpilotApp {
       const now = Date.now()
       const stepIds: number[] = []
       const stepSeen = new Set<number>()
+      const planByStep = this.planIdsByStep(goals.map((goal) => goal.step_id))
       goals.forEach((goal) => {
         if (!stepSeen.has(goal.step_id)) {
           stepSeen.add(goal.step_id)
           stepIds.push(goal.step_id)
         }
         this.db.prepare("UPDATE goals SET status = ?, updated_at = ? WHERE id = ?").run(status, now, goal.id)
+        this.recordUpdate(planByStep.get(goal.step_id) ?? null, "goal", goal, { ...goal, status, updated_at: now })
       })
 
       const changes = createEmptyStatusChanges()
@@ -729,7 +1179,7 @@ export class PlanpilotApp {
   }
 
   deleteGoals(ids: number[]): { deleted: number; changes: StatusChanges } {
-    const tx = this.db.transaction(() => {
+    const tx = this.mutation(() => {
       if (!ids.length) return { deleted: 0, changes: createEmptyStatusChanges() }
       const unique = uniqueIds(ids)
       const goals = this.db
@@ -742,6 +1192,8 @@ export class PlanpilotApp {
       }
 
       const stepIds = Array.from(new Set(goals.map((goal) => goal.step_id)))
+      const planByStep = this.planIdsByStep(stepIds)
+      goals.forEach((goal) => this.recordEvent(planByStep.get(goal.step_id) ?? null, "goal", goal.id, "deleted", goal, null))
       const result = this.db
         .prepare(`DELETE FROM goals WHERE id IN (${unique.map(() => "?").join(",")})`)
         .run(...unique)
@@ -774,13 +1226,12 @@ export class PlanpilotApp {
     const normalized = normalizeCommentEntries(entries)
     if (!normalized.length) return []
     const ids = normalized.map(([id]) => id)
-    const tx = this.db.transaction(() => {
-      const existing = this.db
-        .prepare(`SELECT id FROM plans WHERE id IN (${ids.map(() => "?").join(",")})`)
-        .all(...ids)
-        .map((row: any) => row.id as number)
-      const existingSet = new Set(existing)
-      const missing = ids.filter((id) => !existingSet.has(id))
+    const tx = this.mutation(() => {
+      const plans = this.db
+        .prepare(`SELECT * FROM plans WHERE id IN (${ids.map(() => "?").join(",")})`)
+        .all(...ids) as PlanRow[]
+      const existing = new Map(plans.map((plan) => [plan.id, plan]))
+      const missing = ids.filter((id) => !existing.has(id))
       if (missing.length) {
         throw notFound(`plan id(s) not found: ${joinIds(missing)}`)
       }
@@ -795,6 +1246,8 @@ export class PlanpilotApp {
             .prepare("UPDATE plans SET comment = ?, last_session_id = ?, updated_at = ? WHERE id = ?")
             .run(comment, this.sessionId, now, planId)
         }
+        const before = existing.get(planId)
+        if (before) this.recordUpdate(planId, "plan", before, this.getPlan(planId))
       })
       return ids
     })
@@ -806,7 +1259,7 @@ export class PlanpilotApp {
     const normalized = normalizeCommentEntries(entries)
     if (!normalized.length) return []
     const ids = normalized.map(([id]) => id)
-    const tx = this.db.transaction(() => {
+    const tx = this.mutation(() => {
       const steps = this.db
         .prepare(`SELECT * FROM steps WHERE id IN (${ids.map(() => "?").join(",")})`)
         .all(...ids) as StepRow[]
@@ -819,7 +1272,9 @@ export class PlanpilotApp {
       const planIds = Array.from(new Set(steps.map((step) => step.plan_id)))
       const now = Date.now()
       normalized.forEach(([stepId, comment]) => {
+        const before = steps.find((step) => step.id === stepId)
         this.db.prepare("UPDATE steps SET comment = ?, updated_at = ? WHERE id = ?").run(comment, now, stepId)
+        if (before) this.recordUpdate(before.plan_id, "step", before, this.getStep(stepId))
       })
       if (planIds.length) this.touchPlans(planIds)
       return planIds
@@ -828,17 +1283,23 @@ export class PlanpilotApp {
     return tx()
   }
 
-  setStepWait(stepId: number, delayMs: number, reason?: string): { step: StepRow; until: number } {
+  // With a condition, `delayMs` is the timeout: auto-continue polls the condition until then.
+  setStepWait(
+    stepId: number,
+    delayMs: number,
+    reason?: string,
+    condition?: WaitCondition,
+  ): { step: StepRow; until: number } {
     if (!Number.isFinite(delayMs) || delayMs < 0) {
       throw invalidInput("delay must be a non-negative number")
     }
-    const tx = this.db.transaction(() => {
+    const tx = this.mutation(() => {
       const step = this.getStep(stepId)
       const now = Date.now()
       const until = now + Math.trunc(delayMs)
-      const comment = upsertWaitInComment(step.comment, until, reason)
-      this.db.prepare("UPDATE steps SET comment = ?, updated_at = ? WHERE id = ?").run(comment, now, stepId)
+      this.writeStepWait(stepId, waitColumns(until, reason, condition), now)
       const updated = this.getStep(stepId)
+      this.recordUpdate(updated.plan_id, "step", step, updated)
       this.touchPlan(updated.plan_id)
       return { step: updated, until }
     })
@@ -847,12 +1308,11 @@ export class PlanpilotApp {
   }
 
   clearStepWait(stepId: number): { step: StepRow } {
-    const tx = this.db.transaction(() => {
+    const tx = this.mutation(() => {
       const step = this.getStep(stepId)
-      const comment = step.comment ? removeWaitFromComment(step.comment) : null
-      const now = Date.now()
-      this.db.prepare("UPDATE steps SET comment = ?, updated_at = ? WHERE id = ?").run(comment, now, stepId)
+      this.writeStepWait(stepId, NO_WAIT, Date.now())
       const updated = this.getStep(stepId)
+      this.recordUpdate(updated.plan_id, "step", step, updated)
       this.touchPlan(updated.plan_id)
       return { step: updated }
     })
@@ -860,17 +1320,25 @@ export class PlanpilotApp {
     return tx()
   }
 
-  getStepWait(stepId: number): { step: StepRow; wait: { until: number; reason?: string } | null } {
+  getStepWait(stepId: number): { step: StepRow; wait: StepWait | null } {
     const step = this.getStep(stepId)
-    const wait = parseWaitFromComment(step.comment)
-    return { step, wait }
+    return { step, wait: stepWait(step) }
+  }
+
+  private writeStepWait(stepId: number, wait: WaitColumns, now: number) {
+    this.db
+      .prepare(
+        `UPDATE steps SET wait_until = ?, wait_reason = ?, wait_kind = ?, wait_condition_json = ?, updated_at = ?
+         WHERE id = ?`
+      )
+      .run(wait.wait_until, wait.wait_reason, wait.wait_kind, wait.wait_condition_json, now, stepId)
   }
 
   commentGoals(entries: Array<[number, string]>): number[] {
     const normalized = normalizeCommentEntries(entries)
     if (!normalized.length) return []
     const ids = normalized.map(([id]) => id)
-    const tx = this.db.transaction(() => {
+    const tx = this.mutation(() => {
       const goals = this.db
         .prepare(`SELECT * FROM goals WHERE id IN (${ids.map(() => "?").join(",")})`)
         .all(...ids) as GoalRow[]
@@ -881,9 +1349,14 @@ export class PlanpilotApp {
       }
 
       const stepIds = Array.from(new Set(goals.map((goal) => goal.step_id)))
+      const planByStep = this.planIdsByStep(stepIds)
       const now = Date.now()
       normalized.forEach(([goalId, comment]) => {
+        const before = goals.find((goal) => goal.id === goalId)
         this.db.prepare("UPDATE goals SET comment = ?, updated_at = ? WHERE id = ?").run(comment, now, goalId)
+        if (before) {
+          this.recordUpdate(planByStep.get(before.step_id) ?? null, "goal", before, this.getGoal(goalId))
+        }
       })
 
       if (stepIds.length) {
@@ -926,6 +1399,65 @@ export class PlanpilotApp {
     return grouped
   }
 
+  dependenciesForStep(stepId: number): number[] {
+    return this.dependenciesForSteps([stepId]).get(stepId) ?? []
+  }
+
+  dependenciesForSteps(stepIds: number[]): Map<number, number[]> {
+    const grouped = new Map<number, number[]>()
+    if (!stepIds.length) return grouped
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM step_dependencies WHERE step_id IN (${stepIds.map(() => "?").join(",")}) ORDER BY step_id ASC, depends_on_id ASC`
+      )
+      .all(...stepIds) as StepDependencyRow[]
+    rows.forEach((row) => {
+      const list = grouped.get(row.step_id)
+      if (list) list.push(row.depends_on_id)
+      else grouped.set(row.step_id, [row.depends_on_id])
+    })
+    return grouped
+  }
+
+  planHistory(planId: number, query: { limit?: number; offset?: number } = {}): EventRow[] {
+    let sql = "SELECT * FROM events WHERE plan_id = ? ORDER BY id DESC"
+    const params: any[] = [planId]
+    // SQLite only takes OFFSET after a LIMIT; -1 means no limit.
+    if (query.limit !== undefined || query.offset !== undefined) {
+      sql += " LIMIT ?"
+      params.push(query.limit ?? -1)
+    }
+    if (query.offset !== undefined) {
+      sql += " OFFSET ?"
+      params.push(query.offset)
+    }
+    return this.db.prepare(sql).all(...params) as EventRow[]
+  }
+
+  // The change feed: events with an id above `afterId`, oldest first. Event ids only grow, so the last id
+  // returned is a cursor for the next call.
+  eventsSince(afterId: number, limit?: number): EventRow[] {
+    let sql = "SELECT * FROM events WHERE id > ? ORDER BY id ASC"
+    const params: any[] = [afterId]
+    if (limit !== undefined) {
+      sql += " LIMIT ?"
+      params.push(limit)
+    }
+    return this.db.prepare(sql).all(...params) as EventRow[]
+  }
+
+  latestEventId(): number {
+    const row = this.db.prepare("SELECT MAX(id) as id FROM events").get() as { id: number | null }
+    return row.id ?? 0
+  }
+
+  countPlanHistory(planId: number): number {
+    const row = this.db.prepare("SELECT COUNT(*) as count FROM events WHERE plan_id = ?").get(planId) as { count: number }
+    // Deleted plans keep their history; only report not-found when there is nothing to show.
+    if (row.count === 0) this.getPlan(planId)
+    return row.count
+  }
+
   planIdsForSteps(ids: number[]): number[] {
     if (!ids.length) return []
     const unique = uniqueIds(ids)
@@ -980,6 +1512,12 @@ export class PlanpilotApp {
       }
     }
 
+    const routing = normalizeRouting(changes)
+    // Blank clears the template; anything else must render.
+    let messageTemplate: string | null | undefined
+    if (changes.messageTemplate !== undefined) {
+      messageTemplate = changes.messageTemplate?.trim() ? validateMessageTemplate(changes.messageTemplate) : null
+    }
     const existing = this.getPlan(id)
     const now = Date.now()
     const updated = {
@@ -987,23 +1525,37 @@ export class PlanpilotApp {
       content: changes.content ?? existing.content,
       status: changes.status ?? existing.status,
       comment: changes.comment !== undefined ? changes.comment : existing.comment,
+      agent: routing.agent !== undefined ? routing.agent : existing.agent,
+      model: routing.model !== undefined ? routing.model : existing.model,
+      variant: routing.variant !== undefined ? routing.variant : existing.variant,
+      messageTemplate: messageTemplate !== undefined ? messageTemplate : existing.message_template,
     }
 
-    if (this.cwd) {
-      this.db
-        .prepare(
-          `UPDATE plans SET title = ?, content = ?, status = ?, comment = ?, last_session_id = ?, last_cwd = ?, updated_at = ? WHERE id = ?`
-        )
-        .run(updated.title, updated.content, updated.status, updated.comment, this.sessionId, this.cwd, now, id)
-    } else {
-      this.db
-        .prepare(
-          `UPDATE plans SET title = ?, content = ?, status = ?, comment = ?, last_session_id = ?, updated_at = ? WHERE id = ?`
-        )
-        .run(updated.title, updated.content, updated.status, updated.comment, this.sessionId, now, id)
-    }
+    this.db
+      .prepare(
+        `UPDATE plans SET title = ?, content = ?, status = ?, comment = ?, agent = ?, model = ?, variant = ?, message_template = ?, last_session_id = ?, last_cwd = ?, updated_at = ? WHERE id = ?`
+      )
+      .run(
+        updated.title,
+        updated.content,
+        updated.status,
+        updated.comment,
+        updated.agent,
+        updated.model,
+        updated.variant,
+        updated.messageTemplate,
+        this.sessionId,
+        this.cwd ?? existing.last_cwd,
+        now,
+        id,
+      )
 
-    return this.getPlan(id)
+    const plan = this.getPlan(id)
+    this.recordUpdate(id, "plan", existing, plan)
+    if (plan.status !== existing.status) {
+      this.refreshParentStepsWithConn(id)
+    }
+    return plan
   }
 
   private refreshPlanStatus(planId: number): StatusChanges {
@@ -1020,36 +1572,89 @@ export class PlanpilotApp {
       const now = Date.now()
       const reason = done.count === total.count ? `all steps are done (${done.count}/${total.count})` : `steps done ${done.count}/${total.count}`
       this.db.prepare("UPDATE plans SET status = ?, updated_at = ? WHERE id = ?").run(status, now, planId)
+      this.recordEvent(planId, "plan", planId, "rollup", plan, this.getPlan(planId))
       changes.plans.push({ plan_id: planId, from: plan.status, to: status, reason })
       if (status === "done") {
-        const clearedCurrent = this.clearActivePlansForPlanWithConn(planId)
-        if (clearedCurrent) {
-          changes.active_plans_cleared.push({ plan_id: planId, reason: "plan marked done" })
-        }
+        mergeStatusChanges(changes, this.finishActivePlanWithConn(planId))
       }
+      mergeStatusChanges(changes, this.refreshParentStepsWithConn(planId))
     }
     return changes
   }
 
+  private childPlanDetails(planId: number, steps: StepRow[], seen: Set<number> = new Set()): Map<number, PlanDetail> {
+    const children = new Map<number, PlanDetail>()
+    seen.add(planId)
+    for (const step of steps) {
+      if (step.child_plan_id === null || seen.has(step.child_plan_id)) continue
+      children.set(step.id, this.getPlanDetail(step.child_plan_id, seen))
+    }
+    return children
+  }
+
+  private refreshParentStepsWithConn(childPlanId: number): StatusChanges {
+    const changes = createEmptyStatusChanges()
+    const parents = this.db.prepare("SELECT id FROM steps WHERE child_plan_id = ?").all(childPlanId) as Array<{ id: number }>
+    parents.forEach((parent) => mergeStatusChanges(changes, this.refreshStepStatus(parent.id)))
+    return changes
+  }
+
   private refreshStepStatus(stepId: number): StatusChanges {
     const goals = this.db.prepare("SELECT * FROM goals WHERE step_id = ? ORDER BY id ASC").all(stepId) as GoalRow[]
-    if (!goals.length) return createEmptyStatusChanges()
+    const step = this.getStep(stepId)
+    const child = step.child_plan_id !== null ? this.getPlan(step.child_plan_id) : null
+    if (!goals.length && !child) return createEmptyStatusChanges()
     const doneCount = goals.filter((goal) => goal.status === "done").length
     const total = goals.length
-    const status: StepStatus = doneCount === total ? "done" : "todo"
+    const childDone = !child || child.status === "done"
+    const status: StepStatus = doneCount === total && childDone ? "done" : "todo"
 
-    const step = this.getStep(stepId)
     const changes = createEmptyStatusChanges()
     if (step.status !== status) {
       const now = Date.now()
-      const reason = doneCount === total ? `all goals are done (${doneCount}/${total})` : `goals done ${doneCount}/${total}`
+      const reasons: string[] = []
+      if (total) reasons.push(doneCount === total ? `all goals are done (${doneCount}/${total})` : `goals done ${doneCount}/${total}`)
+      if (child) reasons.push(childDone ? `child plan id ${child.id} is done` : `child plan id ${child.id} is not done`)
       this.db.prepare("UPDATE steps SET status = ?, updated_at = ? WHERE id = ?").run(status, now, stepId)
-      changes.steps.push({ step_id: stepId, from: step.status, to: status, reason })
+      this.recordEvent(step.plan_id, "step", stepId, "rollup", step, this.getStep(stepId))
+      changes.steps.push({ step_id: stepId, from: step.status, to: status, reason: reasons.join("; ") })
     }
     mergeStatusChanges(changes, this.refreshPlanStatus(step.plan_id))
     return changes
   }
 
+  private ensureChildPlanDone(childPlanId: number | null) {
+    if (childPlanId === null) return
+    const child = this.getPlan(childPlanId)
+    if (child.status === "done") return
+    const next = this.nextStep(child.id)
+    const detail = next ? `; next pending step: ${next.content} (id ${next.id})` : ""
+    throw invalidInput(`cannot mark step done; child plan id ${child.id} is not done${detail}`)
+  }
+
+  private ensureChildPlanAllowed(step: StepRow, childPlanId: number) {
+    this.getPlan(childPlanId)
+    const owner = this.db.prepare("SELECT id FROM steps WHERE child_plan_id = ?").get(childPlanId) as
+      | { id: number }
+      | undefined
+    if (owner && owner.id !== step.id) {
+      throw invalidInput(`plan id ${childPlanId} is already nested under step id ${owner.id}`)
+    }
+    // Walk up from the step's plan; meeting the child plan on the way means nesting would loop.
+    let planId: number | null = step.plan_id
+    const seen = new Set<number>()
+    while (planId !== null && !seen.has(planId)) {
+      if (planId === childPlanId) {
+        throw invalidInput(`cannot nest plan id ${childPlanId} under step id ${step.id}: it contains that step`)
+      }
+      seen.add(planId)
+      const parent = this.db.prepare("SELECT plan_id FROM steps WHERE child_plan_id = ?").get(planId) as
+        | { plan_id: number }
+        | undefined
+      planId = parent?.plan_id ?? null
+    }
+  }
+
   private nextGoalForStep(stepId: number): GoalRow | null {
     const row = this.db
       .prepare("SELECT * FROM goals WHERE step_id = ? AND status = ? ORDER BY id ASC LIMIT 1")
@@ -1065,6 +1670,287 @@ export class PlanpilotApp {
     return this.setGoalsStatus(ids, "done").changes
   }
 
+  private ensureStepsInPlan(planId: number, ids: number[]) {
+    if (!ids.length) return
+    const unique = uniqueIds(ids)
+    const rows = this.db
+      .prepare(`SELECT id, plan_id FROM steps WHERE id IN (${unique.map(() => "?").join(",")})`)
+      .all(...unique) as Array<{ id: number; plan_id: number }>
+    const planByStep = new Map(rows.map((row) => [row.id, row.plan_id]))
+    const missing = unique.filter((id) => !planByStep.has(id))
+    if (missing.length) {
+      throw notFound(`step id(s) not found: ${joinIds(missing)}`)
+    }
+    const foreign = unique.filter((id) => planByStep.get(id) !== planId)
+    if (foreign.length) {
+      throw invalidInput(`step id(s) ${joinIds(foreign)} belong to another plan; dependencies must stay within plan id ${planId}`)
+    }
+  }
+
+  private insertDependencies(stepId: number, dependsOn: number[]) {
+    for (const dependsOnId of uniqueIds(dependsOn)) {
+      if (dependsOnId === stepId) {
+        throw invalidInput(`step id ${stepId} cannot depend on itself`)
+      }
+      this.db
+        .prepare("INSERT OR IGNORE INTO step_dependencies (step_id, depends_on_id) VALUES (?, ?)")
+        .run(stepId, dependsOnId)
+    }
+  }
+
+  private placeStepWithConn(target: StepRow, to: number): StepRow[] {
+    const id = target.id
+    const planId = target.plan_id
+    const steps = this.db
+      .prepare("SELECT * FROM steps WHERE plan_id = ? ORDER BY sort_order ASC, id ASC")
+      .all(planId) as StepRow[]
+    const currentIndex = steps.findIndex((step) => step.id === id)
+    if (currentIndex === -1) throw notFound(`step id ${id}`)
+    let desiredIndex = Math.max(to - 1, 0)
+    if (desiredIndex >= steps.length) desiredIndex = steps.length - 1
+
+    const [moving] = steps.splice(currentIndex, 1)
+    if (desiredIndex >= steps.length) steps.push(moving)
+    else steps.splice(desiredIndex, 0, moving)
+
+    const now = Date.now()
+    steps.forEach((step, idx) => {
+      const desiredOrder = idx + 1
+      if (step.sort_order !== desiredOrder) {
+        this.db
+          .prepare("UPDATE steps SET sort_order = ?, updated_at = ? WHERE id = ?")
+          .run(desiredOrder, now, step.id)
+        step.sort_order = desiredOrder
+        step.updated_at = now
+      }
+    })
+    return steps
+  }
+
+  private revertEventsWithConn(events: EventRow[]): Omit<RevertResult, "mutations"> {
+    const touchedSteps = new Set<number>()
+    const touchedPlans = new Set<number>()
+    events.forEach((event) => this.revertEventWithConn(event, touchedSteps, touchedPlans))
+    if (events.length) {
+      this.db
+        .prepare(`UPDATE events SET undone = 1 WHERE id IN (${events.map(() => "?").join(",")})`)
+        .run(...events.map((event) => event.id))
+    }
+
+    const changes = createEmptyStatusChanges()
+    const existingSteps = this.planIdsByStep(Array.from(touchedSteps))
+    existingSteps.forEach((_planId, stepId) => mergeStatusChanges(changes, this.refreshStepStatus(stepId)))
+    const planIds = Array.from(touchedPlans)
+    planIds.forEach((planId) => {
+      if (!this.db.prepare("SELECT 1 FROM plans WHERE id = ?").get(planId)) return
+      mergeStatusChanges(changes, this.refreshPlanStatus(planId))
+      this.touchPlan(planId)
+    })
+    return { events: events.length, planIds, changes }
+  }
+
+  // Makes the row an event describes match its "before" snapshot again, and records that as a new event.
+  private revertEventWithConn(event: EventRow, touchedSteps: Set<number>, touchedPlans: Set<number>) {
+    const before = event.before_json ? (JSON.parse(event.before_json) as Record<string, any>) : null
+    if (event.action === "activated" || event.action === "deactivated") {
+      this.revertActivePlanEventWithConn(event, before)
+      return
+    }
+    if (event.action === "queued" || event.action === "dequeued") {
+      this.revertQueueEventWithConn(event, before)
+      return
+    }
+    if (event.entity_type === "autocontinue") return
+
+    const table = EVENT_TABLES[event.entity_type]
+    const current = (this.db.prepare(`SELECT * FROM ${table} WHERE id = ?`).get(event.entity_id) ??
+      null) as Record<string, any> | null
+    if (!current && !before) return
+
+    if (event.entity_type === "step") {
+      const planId = (before ?? current)?.plan_id as number
+      if (before && !this.db.prepare("SELECT 1 FROM plans WHERE id = ?").get(planId)) {
+        throw invalidInput(`cannot restore step id ${event.entity_id}: plan id ${planId} no longer exists`)
+      }
+      touchedPlans.add(planId)
+    } else if (event.entity_type === "goal") {
+      const stepId = (before ?? current)?.step_id as number
+      if (before && !this.db.prepare("SELECT 1 FROM steps WHERE id = ?").get(stepId)) {
+        throw invalidInput(`cannot restore goal id ${event.entity_id}: step id ${stepId} no longer exists`)
+      }
+      touchedSteps.add(stepId)
+    } else {
+      touchedPlans.add(event.entity_id)
+    }
+
+    if (!before) {
+      this.db.prepare(`DELETE FROM ${table} WHERE id = ?`).run(event.entity_id)
+      if (event.entity_type === "step" && current) this.normalizeStepsForPlan(current.plan_id as number)
+    } else {
+      this.upsertRowWithConn(table, event.entity_id, before)
+      if (event.entity_type === "step") {
+        if (!current || current.sort_order !== before.sort_order) {
+          this.placeStepWithConn(this.getStep(event.entity_id), before.sort_order as number)
+        }
+        this.restoreDependenciesWithConn(event.entity_id, before)
+        touchedSteps.add(event.entity_id)
+      }
+    }
+
+    const restored = before
+      ? ((this.db.prepare(`SELECT * FROM ${table} WHERE id = ?`).get(event.entity_id) ?? null) as object | null)
+      : null
+    this.recordEvent(event.plan_id, event.entity_type, event.entity_id, "reverted", current, restored)
+  }
+
+  private revertActivePlanEventWithConn(event: EventRow, before: Record<string, any> | null) {
+    const planId = event.entity_id
+    if (event.action === "activated") {
+      // Re-activating the plan already active in this session changed nothing worth undoing.
+      if (before) return
+      const after = event.after_json ? (JSON.parse(event.after_json) as ActivePlanRow) : null
+      if (!after) return
+      const row = this.db
+        .prepare("SELECT * FROM active_plan WHERE session_id = ? AND plan_id = ?")
+        .get(after.session_id, planId) as ActivePlanRow | undefined
+      if (!row) return
+      this.db.prepare("DELETE FROM active_plan WHERE id = ?").run(row.id)
+      this.recordEvent(planId, "plan", planId, "deactivated", row, null)
+      return
+    }
+
+    if (!before || !this.db.prepare("SELECT 1 FROM plans WHERE id = ?").get(planId)) return
+    const result = this.db
+      .prepare("INSERT OR IGNORE INTO active_plan (session_id, plan_id, updated_at) VALUES (?, ?, ?)")
+      .run(before.session_id, planId, Date.now())
+    if (result.changes === 0) return
+    const row = this.db.prepare("SELECT * FROM active_plan WHERE plan_id = ?").get(planId) as ActivePlanRow
+    this.recordEvent(planId, "plan", planId, "activated", null, row)
+  }
+
+  private revertQueueEventWithConn(event: EventRow, before: Record<string, any> | null) {
+    const planId = event.entity_id
+    const current = this.db.prepare("SELECT * FROM plan_queue WHERE plan_id = ?").get(planId) as PlanQueueRow | undefined
+    if (!before || !this.db.prepare("SELECT 1 FROM plans WHERE id = ?").get(planId)) {
+      if (current) this.dequeuePlanWithConn(planId)
+      return
+    }
+    let restored: PlanQueueRow
+    if (current && current.session_id === before.session_id) {
+      restored = this.placeQueueRowWithConn(current, before.position as number)
+    } else {
+      if (current) this.dequeuePlanWithConn(planId)
+      restored = this.insertQueueRowWithConn(before as PlanQueueRow, false)
+    }
+    this.recordEvent(planId, "plan", planId, "queued", current ?? null, restored)
+  }
+
+  private upsertRowWithConn(table: string, id: number, row: Record<string, any>) {
+    const columns = (this.db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>)
+      .map((column) => column.name)
+      .filter((name) => name !== "id" && name in row)
+    const values = columns.map((name) => row[name] ?? null)
+    if (this.db.prepare(`SELECT 1 FROM ${table} WHERE id = ?`).get(id)) {
+      this.db
+        .prepare(`UPDATE ${table} SET ${columns.map((name) => `${name} = ?`).join(", ")} WHERE id = ?`)
+        .run(...values, id)
+    } else {
+      this.db
+        .prepare(`INSERT INTO ${table} (id, ${columns.join(", ")}) VALUES (?, ${columns.map(() => "?").join(", ")})`)
+        .run(id, ...values)
+    }
+  }
+
+  // Deleted-step snapshots carry their dependency edges; restore the ones whose other end still exists.
+  private restoreDependenciesWithConn(stepId: number, snapshot: Record<string, any>) {
+    const dependsOn = (snapshot.depends_on ?? []) as number[]
+    const requiredBy = (snapshot.required_by ?? []) as number[]
+    const edges: Array<[number, number]> = [
+      ...dependsOn.map((dependsOnId): [number, number] => [stepId, dependsOnId]),
+      ...requiredBy.map((dependentId): [number, number] => [dependentId, stepId]),
+    ]
+    edges.forEach(([from, to]) => {
+      const other = from === stepId ? to : from
+      if (!this.db.prepare("SELECT 1 FROM steps WHERE id = ?").get(other)) return
+      this.db.prepare("INSERT OR IGNORE INTO step_dependencies (step_id, depends_on_id) VALUES (?, ?)").run(from, to)
+    })
+  }
+
+  private stepSnapshotsWithConn(steps: StepRow[]): Array<StepRow & { depends_on: number[]; required_by: number[] }> {
+    if (!steps.length) return []
+    const ids = steps.map((step) => step.id)
+    const placeholders = ids.map(() => "?").join(",")
+    const rows = this.db
+      .prepare(`SELECT * FROM step_dependencies WHERE step_id IN (${placeholders}) OR depends_on_id IN (${placeholders})`)
+      .all(...ids, ...ids) as StepDependencyRow[]
+    return steps.map((step) => ({
+      ...step,
+      depends_on: rows.filter((row) => row.step_id === step.id).map((row) => row.depends_on_id),
+      required_by: rows.filter((row) => row.depends_on_id === step.id).map((row) => row.step_id),
+    }))
+  }
+
+  // Runs a write in a transaction and tags every event it records with one mutation id, so undo can
+  // roll back a whole command. Nested calls join the outer mutation.
+  private mutation<T>(fn: () => T, prefix = ""): () => T {
+    return this.db.transaction(() => {
+      if (this.mutationId !== null) return fn()
+      this.mutationId = `${prefix}${randomUUID()}`
+      try {
+        return fn()
+      } finally {
+        this.mutationId = null
+      }
+    })
+  }
+
+  private planIdsByStep(stepIds: number[]): Map<number, number> {
+    const unique = uniqueIds(stepIds)
+    if (!unique.length) return new Map()
+    const rows = this.db
+      .prepare(`SELECT id, plan_id FROM steps WHERE id IN (${unique.map(() => "?").join(",")})`)
+      .all(...unique) as Array<{ id: number; plan_id: number }>
+    return new Map(rows.map((row) => [row.id, row.plan_id]))
+  }
+
+  private recordEvent(
+    planId: number | null,
+    entityType: EventEntityType,
+    entityId: number,
+    action: EventAction,
+    before: object | null,
+    after: object | null,
+    mutationId: string | null = this.mutationId ?? randomUUID(),
+  ) {
+    this.db
+      .prepare(
+        `INSERT INTO events (plan_id, entity_type, entity_id, action, before_json, after_json, session_id, cwd, created_at, mutation_id)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        planId,
+        entityType,
+        entityId,
+        action,
+        before ? JSON.stringify(before) : null,
+        after ? JSON.stringify(after) : null,
+        this.sessionId,
+        this.cwd ?? null,
+        Date.now(),
+        mutationId,
+      )
+  }
+
+  private recordUpdate(
+    planId: number | null,
+    entityType: EventEntityType,
+    before: PlanRow | StepRow | GoalRow,
+    after: PlanRow | StepRow | GoalRow,
+  ) {
+    if (!changedRowFields(before, after).length) return
+    this.recordEvent(planId, entityType, after.id, "updated", before, after)
+  }
+
   private touchPlan(planId: number) {
     const now = Date.now()
     if (this.cwd) {
@@ -1107,12 +1993,101 @@ export class PlanpilotApp {
     })
   }
 
+  // A finished plan stops being active (and queued); every session it was active in moves on to its next queued plan.
+  private finishActivePlanWithConn(planId: number): StatusChanges {
+    const changes = createEmptyStatusChanges()
+    const sessions = (
+      this.db.prepare("SELECT session_id FROM active_plan WHERE plan_id = ?").all(planId) as Array<{ session_id: string }>
+    ).map((row) => row.session_id)
+    if (this.clearActivePlansForPlanWithConn(planId)) {
+      changes.active_plans_cleared.push({ plan_id: planId, reason: "plan marked done" })
+    }
+    this.dequeuePlanWithConn(planId)
+    for (const sessionId of sessions) {
+      const promoted = this.promoteQueuedPlanWithConn(sessionId)
+      if (promoted && sessionId === this.sessionId) {
+        changes.active_plans_promoted.push({ plan_id: promoted.plan_id, reason: `next in queue after plan id ${planId}` })
+      }
+    }
+    return changes
+  }
+
+  private promoteQueuedPlanWithConn(sessionId: string): ActivePlanRow | null {
+    const queued = this.db
+      .prepare("SELECT * FROM plan_queue WHERE session_id = ? ORDER BY position ASC")
+      .all(sessionId) as PlanQueueRow[]
+    for (const row of queued) {
+      this.dequeuePlanWithConn(row.plan_id)
+      const plan = this.getPlan(row.plan_id)
+      if (plan.status === "done") continue
+      if (this.db.prepare("SELECT 1 FROM active_plan WHERE plan_id = ?").get(row.plan_id)) continue
+      this.db
+        .prepare("INSERT INTO active_plan (session_id, plan_id, updated_at) VALUES (?, ?, ?)")
+        .run(sessionId, row.plan_id, Date.now())
+      const created = this.db.prepare("SELECT * FROM active_plan WHERE plan_id = ?").get(row.plan_id) as ActivePlanRow
+      this.recordEvent(row.plan_id, "plan", row.plan_id, "activated", null, created)
+      this.touchPlan(row.plan_id)
+      return created
+    }
+    return null
+  }
+
+  private insertQueueRowWithConn(
+    row: Pick<PlanQueueRow, "session_id" | "plan_id" | "position"> & { created_at?: number },
+    record = true,
+  ): PlanQueueRow {
+    this.db
+      .prepare("UPDATE plan_queue SET position = position + 1 WHERE session_id = ? AND position >= ?")
+      .run(row.session_id, row.position)
+    this.db
+      .prepare("INSERT INTO plan_queue (session_id, plan_id, position, created_at) VALUES (?, ?, ?, ?)")
+      .run(row.session_id, row.plan_id, row.position, row.created_at ?? Date.now())
+    this.normalizeQueueWithConn(row.session_id)
+    const inserted = this.db.prepare("SELECT * FROM plan_queue WHERE plan_id = ?").get(row.plan_id) as PlanQueueRow
+    if (record) this.recordEvent(row.plan_id, "plan", row.plan_id, "queued", null, inserted)
+    return inserted
+  }
+
+  private placeQueueRowWithConn(row: PlanQueueRow, to: number): PlanQueueRow {
+    const others = (
+      this.db
+        .prepare("SELECT id FROM plan_queue WHERE session_id = ? AND id != ? ORDER BY position ASC, id ASC")
+        .all(row.session_id, row.id) as Array<{ id: number }>
+    ).map((item) => item.id)
+    const index = Math.min(Math.max(to, 1), others.length + 1) - 1
+    const ordered = [...others.slice(0, index), row.id, ...others.slice(index)]
+    ordered.forEach((id, idx) => {
+      this.db.prepare("UPDATE plan_queue SET position = ? WHERE id = ?").run(idx + 1, id)
+    })
+    return this.db.prepare("SELECT * FROM plan_queue WHERE id = ?").get(row.id) as PlanQueueRow
+  }
+
+  private dequeuePlanWithConn(planId: number) {
+    const row = this.db.prepare("SELECT * FROM plan_queue WHERE plan_id = ?").get(planId) as PlanQueueRow | undefined
+    if (!row) return
+    this.db.prepare("DELETE FROM plan_queue WHERE id = ?").run(row.id)
+    this.normalizeQueueWithConn(row.session_id)
+    this.recordEvent(planId, "plan", planId, "dequeued", row, null)
+  }
+
+  private normalizeQueueWithConn(sessionId: string) {
+    const rows = this.db
+      .prepare("SELECT id, position FROM plan_queue WHERE session_id = ? ORDER BY position ASC, id ASC")
+      .all(sessionId) as Array<{ id: number; position: number }>
+    rows.forEach((row, idx) => {
+      if (row.position !== idx + 1) {
+        this.db.prepare("UPDATE plan_queue SET position = ? WHERE id = ?").run(idx + 1, row.id)
+      }
+    })
+  }
+
   private clearActivePlansForPlanWithConn(planId: number): boolean {
     const existing = this.db
       .prepare("SELECT * FROM active_plan WHERE plan_id = ?")
       .all(planId) as ActivePlanRow[]
     const clearedCurrent = existing.some((row) => row.session_id === this.sessionId)
     this.db.prepare("DELETE FROM active_plan WHERE plan_id = ?").run(planId)
+    existing.forEach((row) => this.recordEvent(planId, "plan", planId, "deactivated", row, null))
     return clearedCurrent
   }
 }
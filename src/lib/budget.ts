@@ -0,0 +1,189 @@
+import type { PlanpilotApp } from "./app"
+import type { BudgetConfig } from "./config"
+import { invalidInput } from "./errors"
+
+// Auto-continue budgets. `autoContinue.budget` in the config sets the defaults; a plan can override any
+// field (stored as JSON in `plans.budget_json`). Sends and elapsed time count from the plan's activation,
+// so re-activating a plan starts a fresh budget.
+
+export type PlanBudget = Partial<BudgetConfig>
+
+export type BudgetUsage = {
+  activatedAt: number | null
+  sends: number
+}
+
+// Why auto-continue may not send for the plan right now: the send or time budget is used up, or the
+// current time is outside every allowed window.
+export type BudgetBlock = "sends" | "duration" | "window"
+
+export type BudgetStatus = {
+  maxSends: number
+  sends: number
+  remainingSends: number | null
+  maxDurationMs: number
+  elapsedMs: number
+  remainingMs: number | null
+  windows: string[]
+  inWindow: boolean
+  nextWindowAt: number | null
+  blocked: BudgetBlock | null
+}
+
+type TimeWindow = {
+  start: number
+  end: number
+}
+
+const TIME_WINDOW = /^(\d{1,2}):(\d{2})\s*-\s*(\d{1,2}):(\d{2})$/
+
+// `HH:MM-HH:MM` in local time, as minutes since midnight. A window that ends before it starts wraps
+// past midnight (`22:00-06:00`).
+export function parseTimeWindow(text: string): TimeWindow | null {
+  const match = TIME_WINDOW.exec(text.trim())
+  if (!match) return null
+  const [startHour, startMinute, endHour, endMinute] = match.slice(1).map(Number)
+  if (startHour > 23 || endHour > 24 || startMinute > 59 || endMinute > 59) return null
+  if (endHour === 24 && endMinute !== 0) return null
+  const start = startHour * 60 + startMinute
+  const end = endHour * 60 + endMinute
+  if (start === end) return null
+  return { start, end }
+}
+
+function insideWindow(minutes: number, window: TimeWindow): boolean {
+  if (window.start < window.end) return minutes >= window.start && minutes < window.end
+  return minutes >= window.start || minutes < window.end
+}
+
+function nextWindowStart(windows: TimeWindow[], now: number): number | null {
+  let next: number | null = null
+  windows.forEach((window) => {
+    const start = new Date(now)
+    start.setHours(Math.floor(window.start / 60), window.start % 60, 0, 0)
+    if (start.getTime() <= now) start.setDate(start.getDate() + 1)
+    if (next === null || start.getTime() < next) next = start.getTime()
+  })
+  return next
+}
+
+export function resolveBudget(defaults: BudgetConfig, override: PlanBudget | null): BudgetConfig {
+  return {
+    maxSends: override?.maxSends ?? defaults.maxSends,
+    maxDurationMs: override?.maxDurationMs ?? defaults.maxDurationMs,
+    windows: override?.windows ?? defaults.windows,
+  }
+}
+
+export function evaluateBudget(budget: BudgetConfig, usage: BudgetUsage, now = Date.now()): BudgetStatus {
+  const elapsedMs = usage.activatedAt === null ? 0 : Math.max(0, now - usage.activatedAt)
+  const remainingSends = budget.maxSends > 0 ? Math.max(0, budget.maxSends - usage.sends) : null
+  const remainingMs = budget.maxDurationMs > 0 ? Math.max(0, budget.maxDurationMs - elapsedMs) : null
+  const windows = budget.windows
+    .map((text) => parseTimeWindow(text))
+    .filter((window): window is TimeWindow => window !== null)
+  const current = new Date(now)
+  const minutes = current.getHours() * 60 + current.getMinutes()
+  const inWindow = !windows.length || windows.some((window) => insideWindow(minutes, window))
+
+  let blocked: BudgetBlock | null = null
+  if (remainingSends === 0) blocked = "sends"
+  else if (remainingMs === 0) blocked = "duration"
+  else if (!inWindow) blocked = "window"
+
+  return {
+    maxSends: budget.maxSends,
+    sends: usage.sends,
+    remainingSends,
+    maxDurationMs: budget.maxDurationMs,
+    elapsedMs,
+    remainingMs,
+    windows: budget.windows,
+    inWindow,
+    nextWindowAt: inWindow ? null : nextWindowStart(windows, now),
+    blocked,
+  }
+}
+
+export function planBudgetStatus(app: PlanpilotApp, planId: number, defaults: BudgetConfig, now = Date.now()) {
+  return evaluateBudget(resolveBudget(defaults, app.getPlanBudget(planId)), app.budgetUsage(planId), now)
+}
+
+// Validates an override from the CLI or the bridge. Missing fields inherit the config defaults.
+export function parsePlanBudget(raw: unknown): PlanBudget {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw invalidInput("budget must be an object")
+  }
+  const input = raw as Record<string, unknown>
+  const budget: PlanBudget = {}
+  for (const key of Object.keys(input)) {
+    if (key !== "maxSends" && key !== "maxDurationMs" && key !== "windows") {
+      throw invalidInput(`unknown budget field '${key}' (expected maxSends, maxDurationMs or windows)`)
+    }
+  }
+  for (const key of ["maxSends", "maxDurationMs"] as const) {
+    const value = input[key]
+    if (value === undefined || value === null) continue
+    if (typeof value !== "number" || !Number.isInteger(value) || value < 0) {
+      throw invalidInput(`${key} must be an integer >= 0 (0 means no limit)`)
+    }
+    budget[key] = value
+  }
+  if (input.windows !== undefined && input.windows !== null) {
+    if (!Array.isArray(input.windows) || input.windows.some((item) => typeof item !== "string")) {
+      throw invalidInput("windows must be a list of HH:MM-HH:MM strings")
+    }
+    const windows = (input.windows as string[]).map((item) => item.trim())
+    const invalid = windows.find((item) => parseTimeWindow(item) === null)
+    if (invalid !== undefined) {
+      throw invalidInput(`invalid time window '${invalid}', expected HH:MM-HH:MM`)
+    }
+    budget.windows = windows
+  }
+  return budget
+}
+
+function formatDuration(ms: number): string {
+  const totalMinutes = Math.floor(ms / 60000)
+  const hours = Math.floor(totalMinutes / 60)
+  const minutes = totalMinutes % 60
+  if (hours && minutes) return `${hours}h ${minutes}m`
+  if (hours) return `${hours}h`
+  if (minutes) return `${minutes}m`
+  return `${Math.floor(ms / 1000)}s`
+}
+
+export function formatBudgetBlock(status: BudgetStatus): string {
+  switch (status.blocked) {
+    case "sends":
+      return `send budget used up (${status.sends}/${status.maxSends})`
+    case "duration":
+      return `time budget used up (${formatDuration(status.maxDurationMs)})`
+    case "window":
+      return `outside allowed windows (${status.windows.join(", ")})`
+    default:
+      return ""
+  }
+}
+
+export function formatBudgetStatus(status: BudgetStatus): string {
+  const sends = status.maxSends
+    ? `${status.sends}/${status.maxSends} (${status.remainingSends} left)`
+    : `${status.sends} (no limit)`
+  const time = status.maxDurationMs
+    ? `${formatDuration(status.elapsedMs)} of ${formatDuration(status.maxDurationMs)} (${formatDuration(
+        status.remainingMs ?? 0,
+      )} left)`
+    : `${formatDuration(status.elapsedMs)} (no limit)`
+  const lines = [`Budget: sends ${sends}; time ${time}`]
+  if (status.windows.length) {
+    const state = status.inWindow
+      ? "open"
+      : `closed${status.nextWindowAt ? `, opens ${new Date(status.nextWindowAt).toISOString()}` : ""}`
+    lines.push(`Windows: ${status.windows.join(", ")} (${state})`)
+  }
+  if (status.blocked) {
+    lines.push(`Auto-continue blocked: ${formatBudgetBlock(status)}`)
+  }
+  return lines.join("\n")
+}
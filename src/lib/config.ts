@@ -1,6 +1,10 @@
 import fs from "fs"
 import path from "path"
+import { parseTimeWindow } from "./budget"
 import { resolvePlanpilotDir } from "./db"
+import { invalidInput } from "./errors"
+import { messageTemplateErrors } from "./message-template"
+import { MATCH_FIELDS, MATCH_REGEX_FLAGS, type FieldMatcher, type RuleMatcher } from "./rule-matcher"
 
 export type KeywordRule = {
   any: string[]
@@ -13,6 +17,8 @@ export type EventRule = {
   enabled: boolean
   force: boolean
   keywords: KeywordRule
+  // Structured conditions on the event's fields, checked along with the keywords; null matches any event.
+  match: RuleMatcher | null
 }
 
 export type SessionErrorRule = EventRule & {
@@ -31,8 +37,30 @@ export type SendRetryConfig = {
   delaysMs: number[]
 }
 
+// What to do once a step has been auto-sent `threshold` times without any step or goal status change.
+export type StallAction = "hold" | "human" | "comment"
+
+export type StallConfig = {
+  enabled: boolean
+  threshold: number
+  action: StallAction
+}
+
+// Limits on unattended runs of the active plan, counted from its activation. 0 means no limit; an
+// empty `windows` list allows every hour. Plans can override any field (see lib/budget.ts).
+export type BudgetConfig = {
+  maxSends: number
+  maxDurationMs: number
+  windows: string[]
+}
+
 export type AutoContinueConfig = {
   sendRetry: SendRetryConfig
+  stall: StallConfig
+  budget: BudgetConfig
+  // `{{variable}}` template for the auto-continue message; empty uses the built-in message. Plans can
+  // set their own (see lib/message-template.ts).
+  messageTemplate: string
   onSessionError: SessionErrorRule
   onSessionRetry: SessionRetryRule
   onPermissionAsked: EventRule
@@ -43,11 +71,50 @@ export type AutoContinueConfig = {
 
 export type RuntimeConfig = {
   paused: boolean
+  // Lets agents run `config set|unset|reset` through the planpilot tool.
+  allowAgentConfigChanges: boolean
+}
+
+export type HookEvent =
+  | "plan.done"
+  | "step.done"
+  | "goal.done"
+  | "plan.activated"
+  | "autocontinue.sent"
+  | "autocontinue.stalled"
+  | "next_step.human"
+
+// Runs `command` through the shell with the JSON payload on stdin, or POSTs it to `url` (localhost only);
+// exactly one of the two is set. See lib/hooks.ts.
+export type HookConfig = {
+  event: HookEvent
+  command: string
+  url: string
+  timeoutMs: number
 }
 
 export type PlanpilotConfig = {
   autoContinue: AutoContinueConfig
   runtime: RuntimeConfig
+  hooks: HookConfig[]
+}
+
+export type ConfigSource = "default" | "global" | "project" | "env"
+
+// A value normalization replaced or left out.
+export type ConfigDiagnostic = {
+  // JSON path of the value, e.g. `autoContinue.sendRetry.maxAtempts` or `hooks[1].url`.
+  path: string
+  problem: string
+  // What is used instead: the JSON of the applied value, "defaults", "ignored", "dropped" or "rule disabled".
+  fallback: string
+  // The config layer the value came from, when read from one.
+  source?: Exclude<ConfigSource, "default">
+}
+
+export type NormalizedPlanpilotConfig = {
+  config: PlanpilotConfig
+  diagnostics: ConfigDiagnostic[]
 }
 
 export type LoadedPlanpilotConfig = {
@@ -55,6 +122,24 @@ export type LoadedPlanpilotConfig = {
   loadedFromFile: boolean
   config: PlanpilotConfig
   loadError?: string
+  diagnostics: ConfigDiagnostic[]
+}
+
+export type ConfigLayer = {
+  source: Exclude<ConfigSource, "default">
+  // The file the layer was read from; the environment layer has none.
+  path: string | null
+  loaded: boolean
+  error?: string
+}
+
+// The config in effect for a directory. `path`, `loadedFromFile` and `loadError` describe the global file,
+// which is where changes are saved.
+export type EffectivePlanpilotConfig = LoadedPlanpilotConfig & {
+  projectPath: string | null
+  layers: ConfigLayer[]
+  // Which layer each setting came from, by dotted key (e.g. `autoContinue.stall.threshold`).
+  sources: Record<string, ConfigSource>
 }
 
 const DEFAULT_KEYWORDS: KeywordRule = {
@@ -68,12 +153,14 @@ const DEFAULT_EVENT_RULE: EventRule = {
   enabled: false,
   force: false,
   keywords: DEFAULT_KEYWORDS,
+  match: null,
 }
 
 const DEFAULT_SESSION_ERROR_RULE: SessionErrorRule = {
   enabled: false,
   force: true,
   keywords: DEFAULT_KEYWORDS,
+  match: null,
   errorNames: [],
   statusCodes: [],
   retryableOnly: false,
@@ -83,6 +170,7 @@ const DEFAULT_SESSION_RETRY_RULE: SessionRetryRule = {
   enabled: false,
   force: false,
   keywords: DEFAULT_KEYWORDS,
+  match: null,
   attemptAtLeast: 1,
 }
 
@@ -92,9 +180,38 @@ const DEFAULT_SEND_RETRY: SendRetryConfig = {
   delaysMs: [1500, 5000, 15000],
 }
 
+const DEFAULT_STALL: StallConfig = {
+  enabled: true,
+  threshold: 5,
+  action: "hold",
+}
+
+const DEFAULT_BUDGET: BudgetConfig = {
+  maxSends: 0,
+  maxDurationMs: 0,
+  windows: [],
+}
+
+export const STALL_ACTIONS: StallAction[] = ["hold", "human", "comment"]
+
+export const HOOK_EVENTS: HookEvent[] = [
+  "plan.done",
+  "step.done",
+  "goal.done",
+  "plan.activated",
+  "autocontinue.sent",
+  "autocontinue.stalled",
+  "next_step.human",
+]
+
+export const DEFAULT_HOOK_TIMEOUT_MS = 10000
+
 export const DEFAULT_PLANPILOT_CONFIG: PlanpilotConfig = {
   autoContinue: {
     sendRetry: DEFAULT_SEND_RETRY,
+    stall: DEFAULT_STALL,
+    budget: DEFAULT_BUDGET,
+    messageTemplate: "",
     onSessionError: DEFAULT_SESSION_ERROR_RULE,
     onSessionRetry: DEFAULT_SESSION_RETRY_RULE,
     onPermissionAsked: DEFAULT_EVENT_RULE,
@@ -110,9 +227,14 @@ export const DEFAULT_PLANPILOT_CONFIG: PlanpilotConfig = {
   },
   runtime: {
     paused: false,
+    allowAgentConfigChanges: false,
   },
+  hooks: [],
 }
 
+export const PROJECT_CONFIG_FILE = ".planpilot.json"
+export const CONFIG_ENV_OVERRIDE = "OPENCODE_PLANPILOT_CONFIG_JSON"
+
 export function resolvePlanpilotConfigPath(): string {
   const override = process.env.OPENCODE_PLANPILOT_CONFIG
   if (override && override.trim()) {
@@ -133,6 +255,7 @@ type RawEventRule = {
   enabled?: unknown
   force?: unknown
   keywords?: RawKeywordRule
+  match?: unknown
 }
 
 type RawSessionErrorRule = RawEventRule & {
@@ -151,8 +274,23 @@ type RawSendRetryConfig = {
   delaysMs?: unknown
 }
 
+type RawStallConfig = {
+  enabled?: unknown
+  threshold?: unknown
+  action?: unknown
+}
+
+type RawBudgetConfig = {
+  maxSends?: unknown
+  maxDurationMs?: unknown
+  windows?: unknown
+}
+
 type RawAutoContinueConfig = {
   sendRetry?: RawSendRetryConfig
+  stall?: RawStallConfig
+  budget?: RawBudgetConfig
+  messageTemplate?: unknown
   onSessionError?: RawSessionErrorRule
   onSessionRetry?: RawSessionRetryRule
   onPermissionAsked?: RawEventRule
@@ -163,11 +301,20 @@ type RawAutoContinueConfig = {
 
 type RawRuntimeConfig = {
   paused?: unknown
+  allowAgentConfigChanges?: unknown
+}
+
+type RawHookConfig = {
+  event?: unknown
+  command?: unknown
+  url?: unknown
+  timeoutMs?: unknown
 }
 
 type RawPlanpilotConfig = {
   autoContinue?: RawAutoContinueConfig
   runtime?: RawRuntimeConfig
+  hooks?: unknown
 }
 
 function cloneDefaultConfig(): PlanpilotConfig {
@@ -178,6 +325,17 @@ function cloneDefaultConfig(): PlanpilotConfig {
         maxAttempts: DEFAULT_PLANPILOT_CONFIG.autoContinue.sendRetry.maxAttempts,
         delaysMs: [...DEFAULT_PLANPILOT_CONFIG.autoContinue.sendRetry.delaysMs],
       },
+      stall: {
+        enabled: DEFAULT_PLANPILOT_CONFIG.autoContinue.stall.enabled,
+        threshold: DEFAULT_PLANPILOT_CONFIG.autoContinue.stall.threshold,
+        action: DEFAULT_PLANPILOT_CONFIG.autoContinue.stall.action,
+      },
+      budget: {
+        maxSends: DEFAULT_PLANPILOT_CONFIG.autoContinue.budget.maxSends,
+        maxDurationMs: DEFAULT_PLANPILOT_CONFIG.autoContinue.budget.maxDurationMs,
+        windows: [...DEFAULT_PLANPILOT_CONFIG.autoContinue.budget.windows],
+      },
+      messageTemplate: DEFAULT_PLANPILOT_CONFIG.autoContinue.messageTemplate,
       onSessionError: {
         enabled: DEFAULT_PLANPILOT_CONFIG.autoContinue.onSessionError.enabled,
         force: DEFAULT_PLANPILOT_CONFIG.autoContinue.onSessionError.force,
@@ -187,6 +345,7 @@ function cloneDefaultConfig(): PlanpilotConfig {
           none: [...DEFAULT_PLANPILOT_CONFIG.autoContinue.onSessionError.keywords.none],
           matchCase: DEFAULT_PLANPILOT_CONFIG.autoContinue.onSessionError.keywords.matchCase,
         },
+        match: DEFAULT_PLANPILOT_CONFIG.autoContinue.onSessionError.match,
         errorNames: [...DEFAULT_PLANPILOT_CONFIG.autoContinue.onSessionError.errorNames],
         statusCodes: [...DEFAULT_PLANPILOT_CONFIG.autoContinue.onSessionError.statusCodes],
         retryableOnly: DEFAULT_PLANPILOT_CONFIG.autoContinue.onSessionError.retryableOnly,
@@ -200,6 +359,7 @@ function cloneDefaultConfig(): PlanpilotConfig {
           none: [...DEFAULT_PLANPILOT_CONFIG.autoContinue.onSessionRetry.keywords.none],
           matchCase: DEFAULT_PLANPILOT_CONFIG.autoContinue.onSessionRetry.keywords.matchCase,
         },
+        match: DEFAULT_PLANPILOT_CONFIG.autoContinue.onSessionRetry.match,
         attemptAtLeast: DEFAULT_PLANPILOT_CONFIG.autoContinue.onSessionRetry.attemptAtLeast,
       },
       onPermissionAsked: {
@@ -211,6 +371,7 @@ function cloneDefaultConfig(): PlanpilotConfig {
           none: [...DEFAULT_PLANPILOT_CONFIG.autoContinue.onPermissionAsked.keywords.none],
           matchCase: DEFAULT_PLANPILOT_CONFIG.autoContinue.onPermissionAsked.keywords.matchCase,
         },
+        match: DEFAULT_PLANPILOT_CONFIG.autoContinue.onPermissionAsked.match,
       },
       onPermissionRejected: {
         enabled: DEFAULT_PLANPILOT_CONFIG.autoContinue.onPermissionRejected.enabled,
@@ -221,6 +382,7 @@ function cloneDefaultConfig(): PlanpilotConfig {
           none: [...DEFAULT_PLANPILOT_CONFIG.autoContinue.onPermissionRejected.keywords.none],
           matchCase: DEFAULT_PLANPILOT_CONFIG.autoContinue.onPermissionRejected.keywords.matchCase,
         },
+        match: DEFAULT_PLANPILOT_CONFIG.autoContinue.onPermissionRejected.match,
       },
       onQuestionAsked: {
         enabled: DEFAULT_PLANPILOT_CONFIG.autoContinue.onQuestionAsked.enabled,
@@ -231,6 +393,7 @@ function cloneDefaultConfig(): PlanpilotConfig {
           none: [...DEFAULT_PLANPILOT_CONFIG.autoContinue.onQuestionAsked.keywords.none],
           matchCase: DEFAULT_PLANPILOT_CONFIG.autoContinue.onQuestionAsked.keywords.matchCase,
         },
+        match: DEFAULT_PLANPILOT_CONFIG.autoContinue.onQuestionAsked.match,
       },
       onQuestionRejected: {
         enabled: DEFAULT_PLANPILOT_CONFIG.autoContinue.onQuestionRejected.enabled,
@@ -241,138 +404,461 @@ function cloneDefaultConfig(): PlanpilotConfig {
           none: [...DEFAULT_PLANPILOT_CONFIG.autoContinue.onQuestionRejected.keywords.none],
           matchCase: DEFAULT_PLANPILOT_CONFIG.autoContinue.onQuestionRejected.keywords.matchCase,
         },
+        match: DEFAULT_PLANPILOT_CONFIG.autoContinue.onQuestionRejected.match,
       },
     },
     runtime: {
       paused: DEFAULT_PLANPILOT_CONFIG.runtime.paused,
+      allowAgentConfigChanges: DEFAULT_PLANPILOT_CONFIG.runtime.allowAgentConfigChanges,
     },
+    hooks: [],
   }
 }
 
-function parseBoolean(value: unknown, fallback: boolean): boolean {
+// Collects a diagnostic for a value that was replaced or left out; see ConfigDiagnostic.
+type Report = (path: string, problem: string, fallback: unknown) => void
+
+function describe(value: unknown): string {
+  return typeof value === "string" && value ? value : JSON.stringify(value)
+}
+
+function show(value: unknown): string {
+  return JSON.stringify(value) ?? String(value)
+}
+
+function parseBoolean(value: unknown, fallback: boolean, path: string, report: Report): boolean {
   if (typeof value === "boolean") return value
+  if (value !== undefined) report(path, `expected a boolean, got ${show(value)}`, fallback)
   return fallback
 }
 
-function parseStringArray(value: unknown): string[] {
-  if (!Array.isArray(value)) return []
-  const parsed = value
-    .filter((item): item is string => typeof item === "string")
-    .map((item) => item.trim())
-    .filter((item) => item.length > 0)
+function parseStringArray(value: unknown, path: string, report: Report): string[] {
+  if (value === undefined) return []
+  if (!Array.isArray(value)) {
+    report(path, `expected an array of strings, got ${show(value)}`, [])
+    return []
+  }
+  const parsed: string[] = []
+  value.forEach((item, index) => {
+    if (typeof item === "string" && item.trim()) parsed.push(item.trim())
+    else report(`${path}[${index}]`, `expected a non-empty string, got ${show(item)}`, "dropped")
+  })
   return Array.from(new Set(parsed))
 }
 
-function parseNumberArray(value: unknown): number[] {
-  if (!Array.isArray(value)) return []
-  const parsed = value
-    .map((item) => (typeof item === "number" ? item : Number.NaN))
-    .filter((item) => Number.isFinite(item))
-    .map((item) => Math.trunc(item))
+function parseNumberArray(value: unknown, path: string, report: Report): number[] {
+  if (value === undefined) return []
+  if (!Array.isArray(value)) {
+    report(path, `expected an array of numbers, got ${show(value)}`, [])
+    return []
+  }
+  const parsed: number[] = []
+  value.forEach((item, index) => {
+    if (typeof item === "number" && Number.isFinite(item)) parsed.push(Math.trunc(item))
+    else report(`${path}[${index}]`, `expected a number, got ${show(item)}`, "dropped")
+  })
   return Array.from(new Set(parsed))
 }
 
-function parsePositiveInt(value: unknown, fallback: number): number {
-  if (typeof value !== "number" || !Number.isFinite(value)) return fallback
-  const parsed = Math.trunc(value)
-  return parsed > 0 ? parsed : fallback
+function parsePositiveInt(value: unknown, fallback: number, path: string, report: Report): number {
+  if (value === undefined) return fallback
+  const parsed = typeof value === "number" && Number.isFinite(value) ? Math.trunc(value) : 0
+  if (parsed > 0) return parsed
+  report(path, `expected a positive integer, got ${show(value)}`, fallback)
+  return fallback
 }
 
-function parsePositiveNumberArray(value: unknown, fallback: number[]): number[] {
-  if (!Array.isArray(value)) return fallback
-  const parsed = value
-    .map((item) => (typeof item === "number" ? item : Number.NaN))
-    .filter((item) => Number.isFinite(item))
-    .map((item) => Math.trunc(item))
-    .filter((item) => item > 0)
-  if (!parsed.length) return fallback
+function parsePositiveNumberArray(value: unknown, fallback: number[], path: string, report: Report): number[] {
+  if (value === undefined) return fallback
+  if (!Array.isArray(value)) {
+    report(path, `expected an array of positive integers, got ${show(value)}`, fallback)
+    return fallback
+  }
+  const parsed: number[] = []
+  value.forEach((item, index) => {
+    const number = typeof item === "number" && Number.isFinite(item) ? Math.trunc(item) : 0
+    if (number > 0) parsed.push(number)
+    else report(`${path}[${index}]`, `expected a positive integer, got ${show(item)}`, "dropped")
+  })
+  if (!parsed.length) {
+    if (value.length) report(path, "no valid entries left", fallback)
+    return fallback
+  }
   return Array.from(new Set(parsed))
 }
 
-function parseKeywordRule(value: RawKeywordRule | undefined, fallback: KeywordRule): KeywordRule {
+function parseKeywordRule(
+  value: RawKeywordRule | undefined,
+  fallback: KeywordRule,
+  path: string,
+  report: Report,
+): KeywordRule {
   return {
-    any: parseStringArray(value?.any),
-    all: parseStringArray(value?.all),
-    none: parseStringArray(value?.none),
-    matchCase: parseBoolean(value?.matchCase, fallback.matchCase),
+    any: parseStringArray(value?.any, `${path}.any`, report),
+    all: parseStringArray(value?.all, `${path}.all`, report),
+    none: parseStringArray(value?.none, `${path}.none`, report),
+    matchCase: parseBoolean(value?.matchCase, fallback.matchCase, `${path}.matchCase`, report),
   }
 }
 
-function parseEventRule(value: RawEventRule | undefined, fallback: EventRule): EventRule {
+// A rule whose matcher is invalid is turned off rather than left to fire on events it was meant to filter out.
+function parseEventRule(value: RawEventRule | undefined, fallback: EventRule, path: string, report: Report): EventRule {
+  const problems: Array<[string, string]> = []
+  const match =
+    value?.match === undefined || value.match === null
+      ? null
+      : parseRuleMatcher(value.match, `${path}.match`, (at, problem) => problems.push([at, problem]))
+  const enabled = parseBoolean(value?.enabled, fallback.enabled, `${path}.enabled`, report)
+  problems.forEach(([at, problem]) => report(at, problem, "rule disabled"))
   return {
-    enabled: parseBoolean(value?.enabled, fallback.enabled),
-    force: parseBoolean(value?.force, fallback.force),
-    keywords: parseKeywordRule(value?.keywords, fallback.keywords),
+    enabled: problems.length ? false : enabled,
+    force: parseBoolean(value?.force, fallback.force, `${path}.force`, report),
+    keywords: parseKeywordRule(value?.keywords, fallback.keywords, `${path}.keywords`, report),
+    match: problems.length ? null : match,
+  }
+}
+
+const MATCHER_KEYS = ["and", "or", "not", "field", "regex", "flags", "equals", "min", "max"]
+
+// Checks a matcher tree, calling `problem` for each fault; the result is only usable when there were none.
+function parseRuleMatcher(value: unknown, path: string, problem: (path: string, problem: string) => void): RuleMatcher {
+  if (!isPlainObject(value)) {
+    problem(path, `expected a matcher object, got ${show(value)}`)
+    return { or: [] }
+  }
+  for (const key of Object.keys(value).filter((key) => !MATCHER_KEYS.includes(key))) {
+    const suggestion = closestKey(key, MATCHER_KEYS)
+    problem(`${path}.${key}`, suggestion ? `unknown key (did you mean ${suggestion}?)` : "unknown key")
+  }
+  const combinators = ["and", "or", "not"].filter((key) => key in value)
+  if (combinators.length > 1 || (combinators.length && "field" in value)) {
+    problem(path, "expected exactly one of and, or, not or field")
+    return { or: [] }
+  }
+  if ("and" in value || "or" in value) {
+    const key = "and" in value ? "and" : "or"
+    const list = value[key]
+    if (!Array.isArray(list) || !list.length) {
+      problem(`${path}.${key}`, `expected a non-empty array of matchers, got ${show(list)}`)
+      return { or: [] }
+    }
+    const children = list.map((child, index) => parseRuleMatcher(child, `${path}.${key}[${index}]`, problem))
+    return key === "and" ? { and: children } : { or: children }
+  }
+  if ("not" in value) {
+    return { not: parseRuleMatcher(value.not, `${path}.not`, problem) }
+  }
+  return parseFieldMatcher(value, path, problem)
+}
+
+function parseFieldMatcher(
+  value: Record<string, unknown>,
+  path: string,
+  problem: (path: string, problem: string) => void,
+): FieldMatcher {
+  const field = MATCH_FIELDS.find((name) => name === value.field)
+  if (!field) {
+    problem(`${path}.field`, `expected ${MATCH_FIELDS.join("|")}, got ${show(value.field)}`)
+  }
+  const matcher: FieldMatcher = { field: field ?? "text" }
+  if (value.regex !== undefined) {
+    const flags = value.flags === undefined ? "" : value.flags
+    if (typeof value.regex !== "string" || !value.regex) {
+      problem(`${path}.regex`, `expected a non-empty string, got ${show(value.regex)}`)
+    } else if (typeof flags !== "string" || [...flags].some((flag) => !MATCH_REGEX_FLAGS.includes(flag))) {
+      problem(`${path}.flags`, `expected any of ${MATCH_REGEX_FLAGS.split("").join(", ")}, got ${show(flags)}`)
+    } else {
+      try {
+        new RegExp(value.regex, flags)
+        matcher.regex = value.regex
+        if (flags) matcher.flags = flags
+      } catch (err) {
+        const reason = (err instanceof Error ? err.message : String(err)).replace(/^invalid regular expression:\s*/i, "")
+        problem(`${path}.regex`, `invalid regular expression: ${reason}`)
+      }
+    }
+  } else if (value.flags !== undefined) {
+    problem(`${path}.flags`, "flags need a regex")
+  }
+  if (value.equals !== undefined) {
+    if (["string", "number", "boolean"].includes(typeof value.equals)) {
+      matcher.equals = value.equals as string | number | boolean
+    } else {
+      problem(`${path}.equals`, `expected a string, number or boolean, got ${show(value.equals)}`)
+    }
+  }
+  for (const bound of ["min", "max"] as const) {
+    if (value[bound] === undefined) continue
+    if (typeof value[bound] === "number" && Number.isFinite(value[bound])) matcher[bound] = value[bound] as number
+    else problem(`${path}.${bound}`, `expected a number, got ${show(value[bound])}`)
+  }
+  if (matcher.min !== undefined && matcher.max !== undefined && matcher.min > matcher.max) {
+    problem(path, `min ${matcher.min} is greater than max ${matcher.max}`)
+  }
+  if (["regex", "equals", "min", "max"].every((key) => value[key] === undefined)) {
+    problem(path, "expected at least one of regex, equals, min or max")
   }
+  return matcher
 }
 
-function parseSessionErrorRule(value: RawSessionErrorRule | undefined, fallback: SessionErrorRule): SessionErrorRule {
-  const base = parseEventRule(value, fallback)
+function parseSessionErrorRule(
+  value: RawSessionErrorRule | undefined,
+  fallback: SessionErrorRule,
+  path: string,
+  report: Report,
+): SessionErrorRule {
+  const base = parseEventRule(value, fallback, path, report)
   return {
     ...base,
-    errorNames: parseStringArray(value?.errorNames),
-    statusCodes: parseNumberArray(value?.statusCodes),
-    retryableOnly: parseBoolean(value?.retryableOnly, fallback.retryableOnly),
+    errorNames: parseStringArray(value?.errorNames, `${path}.errorNames`, report),
+    statusCodes: parseNumberArray(value?.statusCodes, `${path}.statusCodes`, report),
+    retryableOnly: parseBoolean(value?.retryableOnly, fallback.retryableOnly, `${path}.retryableOnly`, report),
   }
 }
 
-function parseSessionRetryRule(value: RawSessionRetryRule | undefined, fallback: SessionRetryRule): SessionRetryRule {
-  const base = parseEventRule(value, fallback)
-  const rawAttempt = typeof value?.attemptAtLeast === "number" ? Math.trunc(value.attemptAtLeast) : fallback.attemptAtLeast
+function parseSessionRetryRule(
+  value: RawSessionRetryRule | undefined,
+  fallback: SessionRetryRule,
+  path: string,
+  report: Report,
+): SessionRetryRule {
+  const base = parseEventRule(value, fallback, path, report)
   return {
     ...base,
-    attemptAtLeast: rawAttempt > 0 ? rawAttempt : fallback.attemptAtLeast,
+    attemptAtLeast: parsePositiveInt(value?.attemptAtLeast, fallback.attemptAtLeast, `${path}.attemptAtLeast`, report),
   }
 }
 
-function parseSendRetryConfig(value: RawSendRetryConfig | undefined, fallback: SendRetryConfig): SendRetryConfig {
+function parseSendRetryConfig(
+  value: RawSendRetryConfig | undefined,
+  fallback: SendRetryConfig,
+  path: string,
+  report: Report,
+): SendRetryConfig {
   return {
-    enabled: parseBoolean(value?.enabled, fallback.enabled),
-    maxAttempts: parsePositiveInt(value?.maxAttempts, fallback.maxAttempts),
-    delaysMs: parsePositiveNumberArray(value?.delaysMs, fallback.delaysMs),
+    enabled: parseBoolean(value?.enabled, fallback.enabled, `${path}.enabled`, report),
+    maxAttempts: parsePositiveInt(value?.maxAttempts, fallback.maxAttempts, `${path}.maxAttempts`, report),
+    delaysMs: parsePositiveNumberArray(value?.delaysMs, fallback.delaysMs, `${path}.delaysMs`, report),
+  }
+}
+
+function parseStallConfig(value: RawStallConfig | undefined, fallback: StallConfig, path: string, report: Report): StallConfig {
+  const action = STALL_ACTIONS.find((item) => item === value?.action)
+  if (value?.action !== undefined && !action) {
+    report(`${path}.action`, `expected ${STALL_ACTIONS.join("|")}, got ${show(value.action)}`, fallback.action)
+  }
+  return {
+    enabled: parseBoolean(value?.enabled, fallback.enabled, `${path}.enabled`, report),
+    threshold: parsePositiveInt(value?.threshold, fallback.threshold, `${path}.threshold`, report),
+    action: action ?? fallback.action,
+  }
+}
+
+function parseNonNegativeInt(value: unknown, fallback: number, path: string, report: Report): number {
+  if (value === undefined) return fallback
+  const parsed = typeof value === "number" && Number.isFinite(value) ? Math.trunc(value) : -1
+  if (parsed >= 0) return parsed
+  report(path, `expected a non-negative integer, got ${show(value)}`, fallback)
+  return fallback
+}
+
+export function parseTimeWindows(value: unknown, path = "windows", report: Report = () => {}): string[] {
+  const windows = parseStringArray(value, path, report)
+  windows
+    .filter((item) => parseTimeWindow(item) === null)
+    .forEach((item) => report(path, `invalid time window ${show(item)}, expected HH:MM-HH:MM`, "dropped"))
+  return windows.filter((item) => parseTimeWindow(item) !== null)
+}
+
+function parseBudgetConfig(value: RawBudgetConfig | undefined, fallback: BudgetConfig, path: string, report: Report): BudgetConfig {
+  return {
+    maxSends: parseNonNegativeInt(value?.maxSends, fallback.maxSends, `${path}.maxSends`, report),
+    maxDurationMs: parseNonNegativeInt(value?.maxDurationMs, fallback.maxDurationMs, `${path}.maxDurationMs`, report),
+    windows: value?.windows === undefined ? [...fallback.windows] : parseTimeWindows(value.windows, `${path}.windows`, report),
+  }
+}
+
+export function isLocalHookUrl(value: string): boolean {
+  try {
+    const url = new URL(value)
+    return (
+      (url.protocol === "http:" || url.protocol === "https:") &&
+      ["localhost", "127.0.0.1", "[::1]"].includes(url.hostname)
+    )
+  } catch {
+    return false
+  }
+}
+
+// Entries with an unknown event, with neither or both of command and url, or with a non-local url are dropped.
+function parseHooks(value: unknown, path: string, report: Report): HookConfig[] {
+  if (value === undefined) return []
+  if (!Array.isArray(value)) {
+    report(path, `expected an array of hooks, got ${show(value)}`, [])
+    return []
   }
+  const hooks: HookConfig[] = []
+  value.forEach((item, index) => {
+    const at = `${path}[${index}]`
+    if (!isPlainObject(item)) {
+      report(at, `expected a hook object, got ${show(item)}`, "dropped")
+      return
+    }
+    const raw = item as RawHookConfig
+    const event = HOOK_EVENTS.find((name) => name === raw.event)
+    const command = typeof raw.command === "string" ? raw.command.trim() : ""
+    const url = typeof raw.url === "string" ? raw.url.trim() : ""
+    if (!event) {
+      report(`${at}.event`, `expected ${HOOK_EVENTS.join("|")}, got ${show(raw.event)}`, "dropped")
+    } else if (Boolean(command) === Boolean(url)) {
+      report(at, "expected exactly one of command or url", "dropped")
+    } else if (url && !isLocalHookUrl(url)) {
+      report(`${at}.url`, `expected an http(s) URL on localhost, got ${show(url)}`, "dropped")
+    } else {
+      const timeoutMs = parsePositiveInt(raw.timeoutMs, DEFAULT_HOOK_TIMEOUT_MS, `${at}.timeoutMs`, report)
+      hooks.push({ event, command, url, timeoutMs })
+    }
+  })
+  return hooks
+}
+
+// A template with unknown or malformed placeholders would be refused when a message is composed, so it falls
+// back to the built-in message here, where the problem is reported.
+function parseMessageTemplate(value: unknown, fallback: string, report: Report): string {
+  const path = "autoContinue.messageTemplate"
+  if (value === undefined) return fallback
+  if (typeof value !== "string") {
+    report(path, `expected a string, got ${show(value)}`, fallback)
+    return fallback
+  }
+  const errors = value.trim() ? messageTemplateErrors(value) : []
+  errors.forEach((error) => report(path, error, fallback))
+  return errors.length ? fallback : value
 }
 
-function parseConfig(raw: RawPlanpilotConfig): PlanpilotConfig {
+function parseConfig(raw: RawPlanpilotConfig, report: Report): PlanpilotConfig {
+  const defaults = DEFAULT_PLANPILOT_CONFIG.autoContinue
+  const auto = raw.autoContinue
+  const messageTemplate = parseMessageTemplate(auto?.messageTemplate, defaults.messageTemplate, report)
   return {
     autoContinue: {
-      sendRetry: parseSendRetryConfig(raw.autoContinue?.sendRetry, DEFAULT_PLANPILOT_CONFIG.autoContinue.sendRetry),
+      sendRetry: parseSendRetryConfig(auto?.sendRetry, defaults.sendRetry, "autoContinue.sendRetry", report),
+      stall: parseStallConfig(auto?.stall, defaults.stall, "autoContinue.stall", report),
+      budget: parseBudgetConfig(auto?.budget, defaults.budget, "autoContinue.budget", report),
+      messageTemplate,
       onSessionError: parseSessionErrorRule(
-        raw.autoContinue?.onSessionError,
-        DEFAULT_PLANPILOT_CONFIG.autoContinue.onSessionError,
+        auto?.onSessionError,
+        defaults.onSessionError,
+        "autoContinue.onSessionError",
+        report,
       ),
       onSessionRetry: parseSessionRetryRule(
-        raw.autoContinue?.onSessionRetry,
-        DEFAULT_PLANPILOT_CONFIG.autoContinue.onSessionRetry,
+        auto?.onSessionRetry,
+        defaults.onSessionRetry,
+        "autoContinue.onSessionRetry",
+        report,
       ),
       onPermissionAsked: parseEventRule(
-        raw.autoContinue?.onPermissionAsked,
-        DEFAULT_PLANPILOT_CONFIG.autoContinue.onPermissionAsked,
+        auto?.onPermissionAsked,
+        defaults.onPermissionAsked,
+        "autoContinue.onPermissionAsked",
+        report,
       ),
       onPermissionRejected: parseEventRule(
-        raw.autoContinue?.onPermissionRejected,
-        DEFAULT_PLANPILOT_CONFIG.autoContinue.onPermissionRejected,
-      ),
-      onQuestionAsked: parseEventRule(
-        raw.autoContinue?.onQuestionAsked,
-        DEFAULT_PLANPILOT_CONFIG.autoContinue.onQuestionAsked,
+        auto?.onPermissionRejected,
+        defaults.onPermissionRejected,
+        "autoContinue.onPermissionRejected",
+        report,
       ),
+      onQuestionAsked: parseEventRule(auto?.onQuestionAsked, defaults.onQuestionAsked, "autoContinue.onQuestionAsked", report),
       onQuestionRejected: parseEventRule(
-        raw.autoContinue?.onQuestionRejected,
-        DEFAULT_PLANPILOT_CONFIG.autoContinue.onQuestionRejected,
+        auto?.onQuestionRejected,
+        defaults.onQuestionRejected,
+        "autoContinue.onQuestionRejected",
+        report,
       ),
     },
     runtime: {
-      paused: parseBoolean(raw.runtime?.paused, DEFAULT_PLANPILOT_CONFIG.runtime.paused),
+      paused: parseBoolean(raw.runtime?.paused, DEFAULT_PLANPILOT_CONFIG.runtime.paused, "runtime.paused", report),
+      allowAgentConfigChanges: parseBoolean(
+        raw.runtime?.allowAgentConfigChanges,
+        DEFAULT_PLANPILOT_CONFIG.runtime.allowAgentConfigChanges,
+        "runtime.allowAgentConfigChanges",
+        report,
+      ),
     },
+    hooks: parseHooks(raw.hooks, "hooks", report),
+  }
+}
+
+const HOOK_KEYS = ["event", "command", "url", "timeoutMs"]
+
+// Reports keys the config does not know, with the closest known key when it looks like a typo, and
+// sections that are not objects. Sections left out or set to a non-object fall back to their defaults.
+function checkShape(raw: unknown, shape: unknown, path: string, report: Report): unknown {
+  if (!isPlainObject(shape)) return raw
+  if (!isPlainObject(raw)) {
+    report(path, `expected an object, got ${show(raw)}`, "defaults")
+    return undefined
+  }
+  const checked: Record<string, unknown> = {}
+  for (const [key, value] of Object.entries(raw)) {
+    const at = path ? `${path}.${key}` : key
+    if (!(key in shape)) {
+      const suggestion = closestKey(key, Object.keys(shape))
+      report(at, suggestion ? `unknown key (did you mean ${suggestion}?)` : "unknown key", "ignored")
+      continue
+    }
+    if (value === undefined) continue
+    checked[key] = key === "hooks" && path === "" ? checkHookKeys(value, report) : checkShape(value, shape[key], at, report)
+  }
+  return checked
+}
+
+function checkHookKeys(value: unknown, report: Report): unknown {
+  if (!Array.isArray(value)) return value
+  value.forEach((item, index) => {
+    if (!isPlainObject(item)) return
+    for (const key of Object.keys(item).filter((key) => !HOOK_KEYS.includes(key))) {
+      const suggestion = closestKey(key, HOOK_KEYS)
+      report(`hooks[${index}].${key}`, suggestion ? `unknown key (did you mean ${suggestion}?)` : "unknown key", "ignored")
+    }
+  })
+  return value
+}
+
+// A known key within two edits of `key`, for typo hints.
+function closestKey(key: string, known: string[]): string | null {
+  let best: { key: string; distance: number } | null = null
+  for (const candidate of known) {
+    const distance = editDistance(key.toLowerCase(), candidate.toLowerCase())
+    if (distance <= 2 && (!best || distance < best.distance)) best = { key: candidate, distance }
+  }
+  return best?.key ?? null
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index)
+  for (let i = 1; i <= a.length; i += 1) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j += 1) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1))
+    }
+    previous = current
   }
+  return previous[b.length]
 }
 
-export function normalizePlanpilotConfig(raw: unknown): PlanpilotConfig {
-  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
-    return cloneDefaultConfig()
+// Invalid values fall back to their defaults and unknown keys are ignored; each one is reported in
+// `diagnostics` so typos do not vanish silently.
+export function normalizePlanpilotConfig(raw: unknown): NormalizedPlanpilotConfig {
+  const diagnostics: ConfigDiagnostic[] = []
+  const report: Report = (path, problem, fallback) => {
+    diagnostics.push({ path: path || "(root)", problem, fallback: describe(fallback) })
   }
-  return parseConfig(raw as RawPlanpilotConfig)
+  const checked = checkShape(raw, DEFAULT_PLANPILOT_CONFIG, "", report)
+  const config = isPlainObject(checked) ? parseConfig(checked as RawPlanpilotConfig, report) : cloneDefaultConfig()
+  return { config, diagnostics }
 }
 
 export function savePlanpilotConfig(config: PlanpilotConfig): LoadedPlanpilotConfig {
@@ -380,42 +866,270 @@ export function savePlanpilotConfig(config: PlanpilotConfig): LoadedPlanpilotCon
   const normalized = normalizePlanpilotConfig(config)
   const parentDir = path.dirname(filePath)
   fs.mkdirSync(parentDir, { recursive: true })
-  fs.writeFileSync(filePath, `${JSON.stringify(normalized, null, 2)}\n`, "utf8")
+  fs.writeFileSync(filePath, `${JSON.stringify(normalized.config, null, 2)}\n`, "utf8")
   return {
     path: filePath,
     loadedFromFile: true,
-    config: normalized,
+    config: normalized.config,
+    diagnostics: normalized.diagnostics.map((diagnostic) => ({ ...diagnostic, source: "global" })),
   }
 }
 
-export function loadPlanpilotConfig(): LoadedPlanpilotConfig {
+// The global config file alone, without project or environment overrides; edit this to save changes.
+export function loadGlobalPlanpilotConfig(): LoadedPlanpilotConfig {
   const filePath = resolvePlanpilotConfigPath()
+  const file = readConfigFile(filePath)
+  const normalized = file.error ? { config: cloneDefaultConfig(), diagnostics: [] } : normalizePlanpilotConfig(file.raw ?? {})
+  return {
+    path: filePath,
+    loadedFromFile: file.loaded && !file.error,
+    config: normalized.config,
+    ...(file.error ? { loadError: file.error } : {}),
+    diagnostics: layerDiagnostics({ source: "global", path: filePath, ...file }, normalized.diagnostics),
+  }
+}
+
+// Layers, each overriding the one before it key by key: built-in defaults, the global config file, the
+// nearest `.planpilot.json` at or above `cwd`, then a JSON object in OPENCODE_PLANPILOT_CONFIG_JSON.
+// Arrays replace rather than merge. A layer that fails to load is skipped and reported in `layers`.
+export function loadPlanpilotConfig(cwd?: string): EffectivePlanpilotConfig {
+  const filePath = resolvePlanpilotConfigPath()
+  const projectPath = cwd ? findProjectConfig(cwd, filePath) : null
+  const global = readConfigFile(filePath)
+  const layers: Array<ConfigLayer & { raw: unknown }> = [{ source: "global", path: filePath, ...global }]
+  if (projectPath) {
+    layers.push({ source: "project", path: projectPath, ...readConfigFile(projectPath) })
+  }
+  const envText = process.env[CONFIG_ENV_OVERRIDE]
+  if (envText && envText.trim()) {
+    layers.push({ source: "env", path: null, ...parseConfigText(envText, CONFIG_ENV_OVERRIDE) })
+  }
+
+  let merged: Record<string, unknown> = {}
+  const diagnostics: ConfigDiagnostic[] = []
+  for (const layer of layers) {
+    const usable = layer.loaded && !layer.error
+    const dropped: ConfigDiagnostic[] = []
+    if (usable && layer.source !== "global") {
+      layer.raw = withoutGlobalOnlyKeys(layer.raw, dropped)
+    }
+    if (usable) merged = mergeRawConfig(merged, layer.raw)
+    // Each layer is checked on its own so every problem points at the file it is in.
+    diagnostics.push(
+      ...layerDiagnostics(layer, usable ? [...dropped, ...normalizePlanpilotConfig(layer.raw).diagnostics] : []),
+    )
+  }
+  const { config } = normalizePlanpilotConfig(merged)
+  const sources: Record<string, ConfigSource> = {}
+  for (const key of Object.keys(flattenConfig(config))) {
+    const layer = [...layers].reverse().find((item) => item.loaded && !item.error && rawHasKey(item.raw, key))
+    sources[key] = layer?.source ?? "default"
+  }
+  return {
+    path: filePath,
+    loadedFromFile: global.loaded && !global.error,
+    config,
+    ...(global.error ? { loadError: global.error } : {}),
+    projectPath,
+    diagnostics,
+    layers: layers.map(({ raw: _raw, ...layer }) => layer),
+    sources,
+  }
+}
+
+// A setting or a whole section by dotted key, e.g. `autoContinue.stall.threshold` or `autoContinue.stall`.
+export function configValueAt(config: PlanpilotConfig, key: string): unknown {
+  let current: unknown = config
+  let shape: unknown = DEFAULT_PLANPILOT_CONFIG
+  for (const part of key.split(".")) {
+    if (!isPlainObject(shape) || !(part in shape) || !isPlainObject(current)) {
+      throw invalidInput(`unknown config key '${key}'`)
+    }
+    shape = shape[part]
+    current = current[part]
+  }
+  return current
+}
+
+// A copy of `config` with the setting or section at `key` replaced, ready for normalizePlanpilotConfig.
+export function withConfigValue(config: PlanpilotConfig, key: string, value: unknown): Record<string, unknown> {
+  configValueAt(config, key)
+  const parts = key.split(".")
+  const copy = JSON.parse(JSON.stringify(config)) as Record<string, unknown>
+  let parent = copy
+  for (const part of parts.slice(0, -1)) {
+    parent = parent[part] as Record<string, unknown>
+  }
+  parent[parts[parts.length - 1]] = value
+  return copy
+}
+
+// Whether a diagnostic is about `key` or something inside it.
+export function diagnosticWithin(diagnostic: ConfigDiagnostic, key: string): boolean {
+  return diagnostic.path === key || diagnostic.path.startsWith(`${key}.`) || diagnostic.path.startsWith(`${key}[`)
+}
+
+export function formatConfigDiagnostic(diagnostic: ConfigDiagnostic): string {
+  const kept = ["defaults", "ignored", "dropped", "rule disabled", "layer skipped"].includes(diagnostic.fallback)
+    ? diagnostic.fallback
+    : `using ${diagnostic.fallback}`
+  return `${diagnostic.source ? `[${diagnostic.source}] ` : ""}${diagnostic.path}: ${diagnostic.problem} (${kept})`
+}
+
+// Settings that run commands or widen what agents may do. A project file arrives with any cloned repo, so
+// these are only read from the global file.
+const GLOBAL_ONLY_KEYS = ["hooks", "runtime.allowAgentConfigChanges"]
+
+function withoutGlobalOnlyKeys(raw: unknown, dropped: ConfigDiagnostic[]): unknown {
+  if (!isPlainObject(raw)) return raw
+  const copy = JSON.parse(JSON.stringify(raw)) as Record<string, unknown>
+  for (const key of GLOBAL_ONLY_KEYS) {
+    if (!rawHasKey(copy, key)) continue
+    const parts = key.split(".")
+    let parent = copy
+    for (const part of parts.slice(0, -1)) {
+      parent = parent[part] as Record<string, unknown>
+    }
+    delete parent[parts[parts.length - 1]]
+    dropped.push({ path: key, problem: "can only be set in the global config file", fallback: "ignored" })
+  }
+  return copy
+}
+
+function layerDiagnostics(layer: ConfigLayer, diagnostics: ConfigDiagnostic[]): ConfigDiagnostic[] {
+  const loadError: ConfigDiagnostic[] = layer.error
+    ? [{ path: layer.path ?? CONFIG_ENV_OVERRIDE, problem: `cannot be read: ${layer.error}`, fallback: "layer skipped" }]
+    : []
+  return [...loadError, ...diagnostics].map((diagnostic) => ({ ...diagnostic, source: layer.source }))
+}
+
+function readConfigFile(filePath: string): { raw: unknown; loaded: boolean; error?: string } {
   try {
     if (!fs.existsSync(filePath)) {
-      return {
-        path: filePath,
-        loadedFromFile: false,
-        config: cloneDefaultConfig(),
-      }
+      return { raw: null, loaded: false }
     }
-    const text = fs.readFileSync(filePath, "utf8")
-    const parsed = JSON.parse(text) as unknown
-    return {
-      path: filePath,
-      loadedFromFile: true,
-      config: normalizePlanpilotConfig(parsed),
+    return parseConfigText(fs.readFileSync(filePath, "utf8"), filePath)
+  } catch (error) {
+    return { raw: null, loaded: true, error: error instanceof Error ? error.message : String(error) }
+  }
+}
+
+function parseConfigText(text: string, origin: string): { raw: unknown; loaded: boolean; error?: string } {
+  try {
+    const raw = JSON.parse(text) as unknown
+    if (!isPlainObject(raw)) {
+      return { raw: null, loaded: true, error: `${origin} must contain a JSON object` }
     }
+    return { raw, loaded: true }
   } catch (error) {
-    const loadError = error instanceof Error ? error.message : String(error)
-    return {
-      path: filePath,
-      loadedFromFile: false,
-      config: cloneDefaultConfig(),
-      loadError,
+    return { raw: null, loaded: true, error: error instanceof Error ? error.message : String(error) }
+  }
+}
+
+// The nearest project config at or above `cwd`, unless it is the global file itself.
+function findProjectConfig(cwd: string, globalPath: string): string | null {
+  let dir = path.resolve(cwd)
+  while (true) {
+    const candidate = path.join(dir, PROJECT_CONFIG_FILE)
+    if (fs.existsSync(candidate)) {
+      return candidate === globalPath ? null : candidate
     }
+    const parent = path.dirname(dir)
+    if (parent === dir) return null
+    dir = parent
   }
 }
 
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value)
+}
+
+// Rule matchers (`match`) are replaced whole, like arrays; merging two matcher trees would mix their conditions.
+function mergeRawConfig(base: Record<string, unknown>, overlay: unknown): Record<string, unknown> {
+  if (!isPlainObject(overlay)) return base
+  const merged: Record<string, unknown> = { ...base }
+  for (const [key, value] of Object.entries(overlay)) {
+    merged[key] =
+      key !== "match" && isPlainObject(value) && isPlainObject(merged[key]) ? mergeRawConfig(merged[key], value) : value
+  }
+  return merged
+}
+
+function rawHasKey(raw: unknown, key: string): boolean {
+  let current = raw
+  for (const part of key.split(".")) {
+    if (!isPlainObject(current)) return false
+    current = current[part]
+  }
+  return current !== undefined
+}
+
+// Every setting by dotted key; arrays and rule matchers are single settings.
+function flattenConfig(value: unknown, prefix = "", into: Record<string, unknown> = {}): Record<string, unknown> {
+  if (isPlainObject(value) && !prefix.endsWith(".match")) {
+    for (const [key, child] of Object.entries(value)) {
+      flattenConfig(child, prefix ? `${prefix}.${key}` : key, into)
+    }
+  } else {
+    into[prefix] = value
+  }
+  return into
+}
+
+const CONFIG_POLL_MS = 500
+
+// Calls `onChange` after any config layer file is written, replaced or removed, once writes have settled
+// for `debounceMs`: the global file and, for `cwd`, the project file `loadPlanpilotConfig(cwd)` would read
+// (or where one would be created). The project file is looked up again on every check, so one created in
+// a nearer directory, or removed to reveal one further up, is picked up like an edit.
+// The files are checked with `fs.statSync` every CONFIG_POLL_MS rather than watched: under Bun, `fs.watch`
+// stops reporting a file's edits once it has been deleted and created again, and `fs.watchFile` does not
+// reliably poll. Returns a function that stops watching.
+export function watchPlanpilotConfig(onChange: () => void, cwd?: string, debounceMs = 200): () => void {
+  const globalPath = resolvePlanpilotConfigPath()
+  const layerFiles = () => {
+    if (!cwd) return [globalPath]
+    return [globalPath, findProjectConfig(cwd, globalPath) ?? path.join(path.resolve(cwd), PROJECT_CONFIG_FILE)]
+  }
+  const snapshot = () => layerFiles().map((filePath) => `${filePath}=${fileVersion(filePath)}`).join("\n")
+  let seen = snapshot()
+  let timer: ReturnType<typeof setTimeout> | null = null
+  const poll = setInterval(() => {
+    const current = snapshot()
+    if (current === seen) return
+    seen = current
+    if (timer) clearTimeout(timer)
+    timer = setTimeout(() => {
+      timer = null
+      onChange()
+    }, debounceMs)
+  }, CONFIG_POLL_MS)
+  poll.unref()
+  return () => {
+    clearInterval(poll)
+    if (timer) clearTimeout(timer)
+  }
+}
+
+// Identifies one version of a file; a missing file is "".
+function fileVersion(filePath: string): string {
+  try {
+    const stats = fs.statSync(filePath)
+    return `${stats.ino}:${stats.size}:${stats.mtimeMs}`
+  } catch {
+    return ""
+  }
+}
+
+// The dotted keys whose values differ, e.g. `autoContinue.sendRetry.delaysMs`; arrays compare whole.
+export function diffPlanpilotConfig(before: PlanpilotConfig, after: PlanpilotConfig): string[] {
+  const left = flattenConfig(before)
+  const right = flattenConfig(after)
+  return [...new Set([...Object.keys(left), ...Object.keys(right)])].filter(
+    (key) => JSON.stringify(left[key]) !== JSON.stringify(right[key]),
+  )
+}
+
 export function matchesKeywords(text: string, rule: KeywordRule): boolean {
   const source = rule.matchCase ? text : text.toLowerCase()
   const normalize = (value: string) => (rule.matchCase ? value : value.toLowerCase())
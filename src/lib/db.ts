@@ -3,6 +3,7 @@ import path from "path"
 import os from "os"
 import { Database } from "bun:sqlite"
 import { xdgConfig } from "xdg-basedir"
+import { AppError, wrapDbError } from "./errors"
 
 export type DatabaseConnection = Database
 
@@ -34,6 +35,10 @@ export function resolvePlanMarkdownPath(planId: number): string {
   return path.join(resolvePlanMarkdownDir(), `plan_${planId}.md`)
 }
 
+export function resolvePlanTemplateDir(): string {
+  return path.join(resolvePlanpilotDir(), "templates")
+}
+
 export function ensureParentDir(filePath: string) {
   const dir = path.dirname(filePath)
   fs.mkdirSync(dir, { recursive: true })
@@ -50,59 +55,374 @@ export function openDatabase(): Database {
   return db
 }
 
+type Migration = {
+  version: number
+  description: string
+  up: (db: Database) => void
+}
+
+// Migrations run in order, each inside its own transaction. Never edit a migration that has
+// shipped; append a new one instead so every machine converges on the same schema.
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: "baseline plans/steps/goals/active_plan schema",
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS plans (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          title TEXT NOT NULL,
+          content TEXT NOT NULL,
+          status TEXT NOT NULL,
+          comment TEXT,
+          last_session_id TEXT,
+          last_cwd TEXT,
+          created_at INTEGER NOT NULL,
+          updated_at INTEGER NOT NULL
+        );
+        CREATE TABLE IF NOT EXISTS steps (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          plan_id INTEGER NOT NULL,
+          content TEXT NOT NULL,
+          status TEXT NOT NULL,
+          executor TEXT NOT NULL,
+          sort_order INTEGER NOT NULL,
+          comment TEXT,
+          created_at INTEGER NOT NULL,
+          updated_at INTEGER NOT NULL,
+          FOREIGN KEY(plan_id) REFERENCES plans(id) ON DELETE CASCADE
+        );
+        CREATE TABLE IF NOT EXISTS goals (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          step_id INTEGER NOT NULL,
+          content TEXT NOT NULL,
+          status TEXT NOT NULL,
+          comment TEXT,
+          created_at INTEGER NOT NULL,
+          updated_at INTEGER NOT NULL,
+          FOREIGN KEY(step_id) REFERENCES steps(id) ON DELETE CASCADE
+        );
+        CREATE TABLE IF NOT EXISTS active_plan (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          session_id TEXT NOT NULL,
+          plan_id INTEGER NOT NULL,
+          updated_at INTEGER NOT NULL,
+          UNIQUE(session_id),
+          UNIQUE(plan_id),
+          FOREIGN KEY(plan_id) REFERENCES plans(id) ON DELETE CASCADE
+        );
+        CREATE INDEX IF NOT EXISTS idx_steps_plan_order ON steps(plan_id, sort_order);
+        CREATE INDEX IF NOT EXISTS idx_goals_step ON goals(step_id);
+      `)
+
+      // Databases created before versioned migrations may predate the last_cwd column.
+      if (!tableHasColumn(db, "plans", "last_cwd")) {
+        db.exec("ALTER TABLE plans ADD COLUMN last_cwd TEXT")
+      }
+    },
+  },
+  {
+    version: 2,
+    description: "step dependencies",
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS step_dependencies (
+          step_id INTEGER NOT NULL,
+          depends_on_id INTEGER NOT NULL,
+          PRIMARY KEY(step_id, depends_on_id),
+          FOREIGN KEY(step_id) REFERENCES steps(id) ON DELETE CASCADE,
+          FOREIGN KEY(depends_on_id) REFERENCES steps(id) ON DELETE CASCADE
+        );
+        CREATE INDEX IF NOT EXISTS idx_step_dependencies_depends_on ON step_dependencies(depends_on_id);
+      `)
+    },
+  },
+  {
+    version: 3,
+    description: "append-only change history",
+    up: (db) => {
+      // No foreign keys: history must outlive the plans, steps and goals it describes.
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS events (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          plan_id INTEGER,
+          entity_type TEXT NOT NULL,
+          entity_id INTEGER NOT NULL,
+          action TEXT NOT NULL,
+          before_json TEXT,
+          after_json TEXT,
+          session_id TEXT,
+          cwd TEXT,
+          created_at INTEGER NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS idx_events_plan ON events(plan_id, id);
+      `)
+    },
+  },
+  {
+    version: 4,
+    description: "group events by mutation for undo/revert",
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE events ADD COLUMN mutation_id TEXT;
+        ALTER TABLE events ADD COLUMN undone INTEGER NOT NULL DEFAULT 0;
+        CREATE INDEX IF NOT EXISTS idx_events_session_mutation ON events(session_id, mutation_id);
+      `)
+    },
+  },
+  {
+    version: 5,
+    description: "nest a child plan under a step",
+    up: (db) => {
+      // A plan can be nested under at most one step.
+      db.exec(`
+        ALTER TABLE steps ADD COLUMN child_plan_id INTEGER REFERENCES plans(id) ON DELETE SET NULL;
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_steps_child_plan ON steps(child_plan_id) WHERE child_plan_id IS NOT NULL;
+      `)
+    },
+  },
+  {
+    version: 6,
+    description: "per-session queue of plans to activate next",
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS plan_queue (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          session_id TEXT NOT NULL,
+          plan_id INTEGER NOT NULL,
+          position INTEGER NOT NULL,
+          created_at INTEGER NOT NULL,
+          UNIQUE(plan_id),
+          FOREIGN KEY(plan_id) REFERENCES plans(id) ON DELETE CASCADE
+        );
+        CREATE INDEX IF NOT EXISTS idx_plan_queue_session ON plan_queue(session_id, position);
+      `)
+    },
+  },
+  {
+    version: 7,
+    description: "persisted auto-continue runtime state",
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS runtime_state (
+          session_id TEXT NOT NULL,
+          key TEXT NOT NULL,
+          value_json TEXT NOT NULL,
+          updated_at INTEGER NOT NULL,
+          PRIMARY KEY(session_id, key)
+        );
+      `)
+    },
+  },
+  {
+    version: 8,
+    description: "per-plan auto-continue budget overrides",
+    up: (db) => {
+      db.exec("ALTER TABLE plans ADD COLUMN budget_json TEXT")
+    },
+  },
+  {
+    version: 9,
+    description: "agent/model/variant routing on plans and steps",
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE plans ADD COLUMN agent TEXT;
+        ALTER TABLE plans ADD COLUMN model TEXT;
+        ALTER TABLE plans ADD COLUMN variant TEXT;
+        ALTER TABLE steps ADD COLUMN agent TEXT;
+        ALTER TABLE steps ADD COLUMN model TEXT;
+        ALTER TABLE steps ADD COLUMN variant TEXT;
+      `)
+    },
+  },
+  {
+    version: 10,
+    description: "per-plan auto-continue message template",
+    up: (db) => {
+      db.exec("ALTER TABLE plans ADD COLUMN message_template TEXT")
+    },
+  },
+  {
+    version: 11,
+    description: "auto-continue decision trace",
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS runtime_trace (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          session_id TEXT NOT NULL,
+          source TEXT NOT NULL,
+          run INTEGER,
+          trigger_source TEXT,
+          outcome TEXT NOT NULL,
+          reason TEXT NOT NULL,
+          plan_id INTEGER,
+          step_id INTEGER,
+          detail_json TEXT,
+          created_at INTEGER NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS idx_runtime_trace_session ON runtime_trace(session_id, id);
+      `)
+    },
+  },
+  {
+    version: 12,
+    description: "collapse repeated auto-continue trace decisions",
+    up: (db) => {
+      db.exec("ALTER TABLE runtime_trace ADD COLUMN repeats INTEGER NOT NULL DEFAULT 1")
+    },
+  },
+  {
+    version: 13,
+    description: "step wait columns, lifted out of @wait-* comment markers",
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE steps ADD COLUMN wait_until INTEGER;
+        ALTER TABLE steps ADD COLUMN wait_reason TEXT;
+        ALTER TABLE steps ADD COLUMN wait_kind TEXT;
+        ALTER TABLE steps ADD COLUMN wait_condition_json TEXT;
+      `)
+      const rows = db
+        .prepare("SELECT id, comment FROM steps WHERE comment LIKE '%@wait-%'")
+        .all() as Array<{ id: number; comment: string }>
+      const update = db.prepare(
+        `UPDATE steps SET comment = ?, wait_until = ?, wait_reason = ?, wait_kind = ?, wait_condition_json = ?
+         WHERE id = ?`
+      )
+      for (const row of rows) {
+        const lifted = liftWaitMarkers(row.comment)
+        update.run(lifted.comment, lifted.until, lifted.reason, lifted.kind, lifted.conditionJson, row.id)
+      }
+    },
+  },
+  {
+    version: 14,
+    description: "goal verify commands",
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE goals ADD COLUMN verify_command TEXT;
+        ALTER TABLE goals ADD COLUMN verify_timeout_ms INTEGER;
+        ALTER TABLE goals ADD COLUMN verify_exit_code INTEGER;
+      `)
+    },
+  },
+]
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version
+
 export function ensureSchema(db: Database) {
   db.exec(`
-    CREATE TABLE IF NOT EXISTS plans (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      title TEXT NOT NULL,
-      content TEXT NOT NULL,
-      status TEXT NOT NULL,
-      comment TEXT,
-      last_session_id TEXT,
-      last_cwd TEXT,
-      created_at INTEGER NOT NULL,
-      updated_at INTEGER NOT NULL
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      description TEXT NOT NULL,
+      applied_at INTEGER NOT NULL
     );
-    CREATE TABLE IF NOT EXISTS steps (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      plan_id INTEGER NOT NULL,
-      content TEXT NOT NULL,
-      status TEXT NOT NULL,
-      executor TEXT NOT NULL,
-      sort_order INTEGER NOT NULL,
-      comment TEXT,
-      created_at INTEGER NOT NULL,
-      updated_at INTEGER NOT NULL,
-      FOREIGN KEY(plan_id) REFERENCES plans(id) ON DELETE CASCADE
-    );
-    CREATE TABLE IF NOT EXISTS goals (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      step_id INTEGER NOT NULL,
-      content TEXT NOT NULL,
-      status TEXT NOT NULL,
-      comment TEXT,
-      created_at INTEGER NOT NULL,
-      updated_at INTEGER NOT NULL,
-      FOREIGN KEY(step_id) REFERENCES steps(id) ON DELETE CASCADE
-    );
-    CREATE TABLE IF NOT EXISTS active_plan (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      session_id TEXT NOT NULL,
-      plan_id INTEGER NOT NULL,
-      updated_at INTEGER NOT NULL,
-      UNIQUE(session_id),
-      UNIQUE(plan_id),
-      FOREIGN KEY(plan_id) REFERENCES plans(id) ON DELETE CASCADE
-    );
-    CREATE INDEX IF NOT EXISTS idx_steps_plan_order ON steps(plan_id, sort_order);
-    CREATE INDEX IF NOT EXISTS idx_goals_step ON goals(step_id);
   `)
 
-  const columns = db
-    .prepare("PRAGMA table_info(plans)")
+  const current = getSchemaVersion(db)
+  if (current > SCHEMA_VERSION) {
+    throw new AppError(
+      "Db",
+      `planpilot.db schema version ${current} is newer than this plugin supports (${SCHEMA_VERSION}); upgrade opencode-planpilot`,
+    )
+  }
+
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= current) continue
+    const tx = db.transaction(() => {
+      migration.up(db)
+      db.prepare("INSERT INTO schema_migrations (version, description, applied_at) VALUES (?, ?, ?)").run(
+        migration.version,
+        migration.description,
+        Date.now(),
+      )
+    })
+    try {
+      tx()
+    } catch (err) {
+      throw wrapDbError(`schema migration ${migration.version} (${migration.description}) failed`, err)
+    }
+  }
+}
+
+export function getSchemaVersion(db: Database): number {
+  const row = db.prepare("SELECT MAX(version) as version FROM schema_migrations").get() as
+    | { version: number | null }
+    | undefined
+  return row?.version ?? 0
+}
+
+function tableHasColumn(db: Database, table: string, column: string): boolean {
+  return db
+    .prepare(`PRAGMA table_info(${table})`)
     .all()
-    .map((row: any) => row.name as string)
-  if (!columns.includes("last_cwd")) {
-    db.exec("ALTER TABLE plans ADD COLUMN last_cwd TEXT")
+    .some((row: any) => row.name === column)
+}
+
+// Migration 13's reading of the old `@wait-until=`, `@wait-reason=` and `@wait-for=` comment markers, kept
+// here as they were when it shipped so later changes to waits cannot change what the migration does.
+const WAIT_MARKER_PREFIXES = ["@wait-until=", "@wait-reason=", "@wait-for="]
+const WAIT_MARKER_CONDITION_KINDS = ["file", "command", "git-ref", "step", "plan"]
+
+type LiftedWait = {
+  comment: string | null
+  until: number | null
+  reason: string | null
+  kind: string | null
+  conditionJson: string | null
+}
+
+function liftWaitMarkers(comment: string): LiftedWait {
+  let until: number | null = null
+  let reason: string | null = null
+  let condition: Record<string, string> | null = null
+  const kept: string[] = []
+  for (const line of comment.split(/\r?\n/)) {
+    const trimmed = line.trim()
+    const prefix = WAIT_MARKER_PREFIXES.find((item) => trimmed.startsWith(item))
+    if (!prefix) {
+      kept.push(line)
+      continue
+    }
+    const raw = trimmed.slice(prefix.length)
+    if (prefix === "@wait-until=") {
+      const value = Number(raw.trim())
+      if (Number.isFinite(value)) until = value
+    } else if (prefix === "@wait-reason=") {
+      if (raw.trim()) reason = raw.trim()
+    } else {
+      condition = readMarkerCondition(raw)
+    }
+  }
+  const cleaned = kept.join("\n").trimEnd()
+  const lifted: LiftedWait = { comment: cleaned || null, until: null, reason: null, kind: null, conditionJson: null }
+  if (until === null) return lifted
+  const { kind = "delay", ...rest } = condition ?? {}
+  return {
+    ...lifted,
+    until: Math.trunc(until),
+    reason,
+    kind,
+    conditionJson: condition ? JSON.stringify(rest) : null,
+  }
+}
+
+function readMarkerCondition(raw: string): Record<string, string> | null {
+  let value: unknown
+  try {
+    value = JSON.parse(raw)
+  } catch {
+    return null
+  }
+  if (!value || typeof value !== "object" || Array.isArray(value)) return null
+  const fields = value as Record<string, unknown>
+  if (typeof fields.kind !== "string" || !WAIT_MARKER_CONDITION_KINDS.includes(fields.kind)) return null
+  if (typeof fields.target !== "string" || !fields.target) return null
+  const condition: Record<string, string> = {
+    kind: fields.kind,
+    target: fields.target,
+    onTimeout: fields.onTimeout === "human" ? "human" : "continue",
   }
+  if (typeof fields.cwd === "string") condition.cwd = fields.cwd
+  if (typeof fields.baseline === "string") condition.baseline = fields.baseline
+  return condition
 }
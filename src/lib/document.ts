@@ -0,0 +1,479 @@
+import { AppError, invalidInput } from "./errors"
+import type {
+  AutoRouting,
+  GoalInput,
+  GoalStatus,
+  GoalVerify,
+  PlanDetail,
+  PlanStatus,
+  PlanTreeInput,
+  StepExecutor,
+  StepInput,
+  StepStatus,
+} from "./models"
+import { parseModelRef } from "./routing"
+import { goalVerify, parseGoalVerify } from "./verify"
+import { WAIT_CONDITION_KINDS, WAIT_TIMEOUT_ACTIONS, readWaitCondition, stepWait, type WaitCondition } from "./wait"
+
+// Canonical, versioned file format for a whole plan tree (`plan export --format json|yaml`, `plan import`).
+// Bump PLAN_DOCUMENT_VERSION and publish a new schema file for incompatible changes; readers reject
+// versions they do not know.
+export const PLAN_DOCUMENT_VERSION = 1
+export const PLAN_DOCUMENT_SCHEMA_FILE = `plan-document.v${PLAN_DOCUMENT_VERSION}.schema.json`
+
+export type PlanFileFormat = "md" | "json" | "yaml"
+
+export interface PlanDocumentGoal {
+  id?: number
+  content: string
+  status?: GoalStatus
+  comment?: string | null
+  // Written only when the goal has a verify command.
+  verify?: GoalVerify
+  createdAt?: number
+  updatedAt?: number
+}
+
+// Auto-continue routing; only fields that are set are written.
+export interface PlanDocumentRouting {
+  agent?: string
+  model?: string
+  variant?: string
+}
+
+export interface PlanDocumentStep extends PlanDocumentRouting {
+  id?: number
+  order?: number
+  content: string
+  status?: StepStatus
+  executor?: StepExecutor
+  comment?: string | null
+  wait?: { until: number; reason?: string; condition?: WaitCondition } | null
+  // Ids of other steps in this document.
+  dependsOn?: number[]
+  createdAt?: number
+  updatedAt?: number
+  goals?: PlanDocumentGoal[]
+}
+
+export interface PlanDocument {
+  $schema?: string
+  version: typeof PLAN_DOCUMENT_VERSION
+  plan: PlanDocumentRouting & {
+    id?: number
+    title: string
+    content: string
+    status?: PlanStatus
+    comment?: string | null
+    createdAt?: number
+    updatedAt?: number
+    steps: PlanDocumentStep[]
+  }
+}
+
+const statusSchema = { type: "string", enum: ["todo", "done"] }
+const commentSchema = { type: ["string", "null"] }
+const timestampSchema = { type: "integer", description: "Epoch milliseconds (informational; not restored on import)." }
+const idSchema = { type: "integer", minimum: 1, description: "Id in the exporting database; import assigns new ids." }
+const routingSchema = {
+  agent: { type: "string", minLength: 1, description: "Agent auto-continue sends this to." },
+  model: { type: "string", pattern: "^[^/]+/.+$", description: "providerID/modelID auto-continue sends this to." },
+  variant: { type: "string", minLength: 1, description: "Model variant auto-continue sends this with." },
+}
+
+export const PLAN_DOCUMENT_SCHEMA = {
+  $schema: "https://json-schema.org/draft/2020-12/schema",
+  $id: PLAN_DOCUMENT_SCHEMA_FILE,
+  title: "Planpilot plan document",
+  description: "A plan with its ordered steps and goals, as written by `plan export --format json|yaml`.",
+  type: "object",
+  required: ["version", "plan"],
+  properties: {
+    $schema: { type: "string" },
+    version: { const: PLAN_DOCUMENT_VERSION },
+    plan: {
+      type: "object",
+      required: ["title", "content", "steps"],
+      properties: {
+        id: idSchema,
+        title: { type: "string", minLength: 1 },
+        content: { type: "string", minLength: 1 },
+        status: { ...statusSchema, description: "Informational; derived from steps on import." },
+        comment: commentSchema,
+        ...routingSchema,
+        createdAt: timestampSchema,
+        updatedAt: timestampSchema,
+        steps: { type: "array", items: { $ref: "#/$defs/step" } },
+      },
+      additionalProperties: false,
+    },
+  },
+  additionalProperties: false,
+  $defs: {
+    step: {
+      type: "object",
+      required: ["content"],
+      properties: {
+        id: idSchema,
+        order: { type: "integer", minimum: 1, description: "1-based position; defaults to array order." },
+        content: { type: "string", minLength: 1 },
+        status: { ...statusSchema, description: "Used only when the step has no goals." },
+        executor: { type: "string", enum: ["ai", "human"], default: "ai" },
+        comment: commentSchema,
+        ...routingSchema,
+        wait: {
+          type: ["object", "null"],
+          required: ["until"],
+          properties: {
+            until: { ...timestampSchema, description: "End of a plain wait, or when a condition wait times out." },
+            reason: { type: "string" },
+            condition: {
+              type: "object",
+              required: ["kind", "target"],
+              properties: {
+                kind: { type: "string", enum: WAIT_CONDITION_KINDS },
+                target: { type: "string", minLength: 1, description: "Path, shell command, git ref, or step/plan id." },
+                cwd: { type: "string" },
+                baseline: { type: "string", description: "Commit a git-ref wait started from." },
+                onTimeout: { type: "string", enum: WAIT_TIMEOUT_ACTIONS, default: "continue" },
+              },
+              additionalProperties: false,
+            },
+          },
+          additionalProperties: false,
+        },
+        dependsOn: { type: "array", items: { type: "integer" }, description: "Ids of other steps in this document." },
+        createdAt: timestampSchema,
+        updatedAt: timestampSchema,
+        goals: { type: "array", items: { $ref: "#/$defs/goal" } },
+      },
+      additionalProperties: false,
+    },
+    goal: {
+      type: "object",
+      required: ["content"],
+      properties: {
+        id: idSchema,
+        content: { type: "string", minLength: 1 },
+        status: statusSchema,
+        comment: commentSchema,
+        verify: {
+          type: "object",
+          required: ["command"],
+          properties: {
+            command: { type: "string", minLength: 1, description: "Shell command that proves the goal is met." },
+            timeoutMs: { type: "integer", minimum: 1 },
+            exitCode: { type: "integer", minimum: 0, maximum: 255, default: 0 },
+          },
+          additionalProperties: false,
+        },
+        createdAt: timestampSchema,
+        updatedAt: timestampSchema,
+      },
+      additionalProperties: false,
+    },
+  },
+}
+
+export function inferPlanFileFormat(filePath: string): PlanFileFormat | null {
+  const lower = filePath.toLowerCase()
+  if (lower.endsWith(".json")) return "json"
+  if (lower.endsWith(".yaml") || lower.endsWith(".yml")) return "yaml"
+  if (lower.endsWith(".md") || lower.endsWith(".markdown")) return "md"
+  return null
+}
+
+export function parsePlanFileFormat(value: string): PlanFileFormat {
+  const normalized = value.trim().toLowerCase()
+  if (normalized === "md" || normalized === "markdown") return "md"
+  if (normalized === "json") return "json"
+  if (normalized === "yaml" || normalized === "yml") return "yaml"
+  throw invalidInput(`invalid format '${value}', expected md|json|yaml`)
+}
+
+export function planDetailToDocument(detail: PlanDetail): PlanDocument {
+  const { plan } = detail
+  return {
+    $schema: PLAN_DOCUMENT_SCHEMA_FILE,
+    version: PLAN_DOCUMENT_VERSION,
+    plan: {
+      id: plan.id,
+      title: plan.title,
+      content: plan.content,
+      status: plan.status,
+      comment: plan.comment,
+      ...routingFields(plan),
+      createdAt: plan.created_at,
+      updatedAt: plan.updated_at,
+      steps: detail.steps.map((step) => {
+        const wait = stepWait(step)
+        return {
+          id: step.id,
+          order: step.sort_order,
+          content: step.content,
+          status: step.status,
+          executor: step.executor,
+          comment: step.comment,
+          ...routingFields(step),
+          wait: wait
+            ? {
+                until: wait.until,
+                ...(wait.reason ? { reason: wait.reason } : {}),
+                ...(wait.condition ? { condition: wait.condition } : {}),
+              }
+            : null,
+          dependsOn: detail.dependencies.get(step.id) ?? [],
+          createdAt: step.created_at,
+          updatedAt: step.updated_at,
+          goals: (detail.goals.get(step.id) ?? []).map((goal) => ({
+            id: goal.id,
+            content: goal.content,
+            status: goal.status,
+            comment: goal.comment,
+            ...(goal.verify_command ? { verify: goalVerify(goal) as GoalVerify } : {}),
+            createdAt: goal.created_at,
+            updatedAt: goal.updated_at,
+          })),
+        }
+      }),
+    },
+  }
+}
+
+export function routingFields(source: AutoRouting): PlanDocumentRouting {
+  const routing: PlanDocumentRouting = {}
+  if (source.agent) routing.agent = source.agent
+  if (source.model) routing.model = source.model
+  if (source.variant) routing.variant = source.variant
+  return routing
+}
+
+export function formatPlanDocument(document: PlanDocument, format: Exclude<PlanFileFormat, "md">): string {
+  if (format === "yaml") {
+    return `${Bun.YAML.stringify(document, null, 2).trimEnd()}\n`
+  }
+  return `${JSON.stringify(document, null, 2)}\n`
+}
+
+export function parsePlanDocumentText(text: string, format: Exclude<PlanFileFormat, "md">): PlanTreeInput {
+  let value: unknown
+  try {
+    value = format === "yaml" ? Bun.YAML.parse(text) : JSON.parse(text)
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err)
+    throw new AppError("Json", `invalid ${format === "yaml" ? "YAML" : "JSON"} plan document: ${message}`)
+  }
+  return planDocumentToTree(value)
+}
+
+type Obj = Record<string, unknown>
+
+function expectObject(value: unknown, path: string): Obj {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw invalidInput(`${path} must be an object`)
+  }
+  return value as Obj
+}
+
+function checkKeys(obj: Obj, allowed: string[], path: string) {
+  const unknown = Object.keys(obj).filter((key) => !allowed.includes(key))
+  if (unknown.length) {
+    throw invalidInput(`${path}: unknown field(s) ${unknown.map((key) => `"${key}"`).join(", ")}`)
+  }
+}
+
+function expectText(value: unknown, path: string): string {
+  if (typeof value !== "string" || !value.trim()) {
+    throw invalidInput(`${path} must be a non-empty string`)
+  }
+  return value
+}
+
+function optionalComment(value: unknown, path: string): string | null {
+  if (value === undefined || value === null) return null
+  if (typeof value !== "string") throw invalidInput(`${path} must be a string or null`)
+  return value.trim() ? value : null
+}
+
+function optionalVerify(value: unknown, path: string): GoalVerify | undefined {
+  if (value === undefined || value === null) return undefined
+  try {
+    return parseGoalVerify(value)
+  } catch (err) {
+    if (err instanceof AppError) throw invalidInput(`${path}: ${err.detail}`)
+    throw err
+  }
+}
+
+function optionalInt(value: unknown, path: string): number | undefined {
+  if (value === undefined || value === null) return undefined
+  if (typeof value !== "number" || !Number.isInteger(value)) throw invalidInput(`${path} must be an integer`)
+  return value
+}
+
+function optionalStatus(value: unknown, path: string): "todo" | "done" | undefined {
+  if (value === undefined || value === null) return undefined
+  if (value !== "todo" && value !== "done") throw invalidInput(`${path} must be "todo" or "done"`)
+  return value
+}
+
+function optionalRouting(obj: Obj, path: string): AutoRouting {
+  const routing: AutoRouting = {}
+  for (const field of ["agent", "model", "variant"] as const) {
+    const value = obj[field]
+    if (value === undefined || value === null) continue
+    routing[field] = expectText(value, `${path}.${field}`).trim()
+  }
+  if (routing.model) {
+    try {
+      parseModelRef(routing.model)
+    } catch {
+      throw invalidInput(`${path}.model must be providerID/modelID`)
+    }
+  }
+  return routing
+}
+
+function optionalArray(value: unknown, path: string): unknown[] {
+  if (value === undefined || value === null) return []
+  if (!Array.isArray(value)) throw invalidInput(`${path} must be an array`)
+  return value
+}
+
+// Validates a parsed document against PLAN_DOCUMENT_SCHEMA and turns it into addPlanTree input.
+export function planDocumentToTree(value: unknown): PlanTreeInput {
+  const root = expectObject(value, "document")
+  checkKeys(root, ["$schema", "version", "plan"], "document")
+  if (root.version !== PLAN_DOCUMENT_VERSION) {
+    throw invalidInput(
+      `unsupported plan document version ${JSON.stringify(root.version)} (this plugin reads version ${PLAN_DOCUMENT_VERSION})`
+    )
+  }
+  const plan = expectObject(root.plan, "plan")
+  checkKeys(
+    plan,
+    ["id", "title", "content", "status", "comment", "agent", "model", "variant", "createdAt", "updatedAt", "steps"],
+    "plan"
+  )
+  const title = expectText(plan.title, "plan.title")
+  const content = expectText(plan.content, "plan.content")
+  const comment = optionalComment(plan.comment, "plan.comment")
+  const routing = optionalRouting(plan, "plan")
+  optionalStatus(plan.status, "plan.status")
+  optionalInt(plan.id, "plan.id")
+  optionalInt(plan.createdAt, "plan.createdAt")
+  optionalInt(plan.updatedAt, "plan.updatedAt")
+  if (!Array.isArray(plan.steps)) {
+    throw invalidInput("plan.steps must be an array")
+  }
+
+  const drafts = plan.steps.map((item, idx) => {
+    const path = `plan.steps[${idx}]`
+    const step = expectObject(item, path)
+    checkKeys(
+      step,
+      [
+        "id",
+        "order",
+        "content",
+        "status",
+        "executor",
+        "comment",
+        "agent",
+        "model",
+        "variant",
+        "wait",
+        "dependsOn",
+        "createdAt",
+        "updatedAt",
+        "goals",
+      ],
+      path
+    )
+    const executor = step.executor ?? "ai"
+    if (executor !== "ai" && executor !== "human") {
+      throw invalidInput(`${path}.executor must be "ai" or "human"`)
+    }
+    let waitInput: StepInput["wait"] = null
+    if (step.wait !== undefined && step.wait !== null) {
+      const wait = expectObject(step.wait, `${path}.wait`)
+      checkKeys(wait, ["until", "reason", "condition"], `${path}.wait`)
+      const until = optionalInt(wait.until, `${path}.wait.until`)
+      if (until === undefined) throw invalidInput(`${path}.wait.until is required`)
+      if (wait.reason !== undefined && typeof wait.reason !== "string") {
+        throw invalidInput(`${path}.wait.reason must be a string`)
+      }
+      let condition: WaitCondition | undefined
+      if (wait.condition !== undefined) {
+        const raw = expectObject(wait.condition, `${path}.wait.condition`)
+        checkKeys(raw, ["kind", "target", "cwd", "baseline", "onTimeout"], `${path}.wait.condition`)
+        const parsed = readWaitCondition(raw)
+        if (!parsed || (raw.onTimeout !== undefined && !WAIT_TIMEOUT_ACTIONS.includes(raw.onTimeout as never))) {
+          throw invalidInput(
+            `${path}.wait.condition needs kind ${WAIT_CONDITION_KINDS.join("|")}, a target and onTimeout ${WAIT_TIMEOUT_ACTIONS.join("|")}`
+          )
+        }
+        condition = parsed
+      }
+      waitInput = { until, reason: wait.reason as string | undefined, condition }
+    }
+    const goals = optionalArray(step.goals, `${path}.goals`).map((goalItem, goalIdx): GoalInput => {
+      const goalPath = `${path}.goals[${goalIdx}]`
+      const goal = expectObject(goalItem, goalPath)
+      checkKeys(goal, ["id", "content", "status", "comment", "verify", "createdAt", "updatedAt"], goalPath)
+      optionalInt(goal.id, `${goalPath}.id`)
+      optionalInt(goal.createdAt, `${goalPath}.createdAt`)
+      optionalInt(goal.updatedAt, `${goalPath}.updatedAt`)
+      return {
+        content: expectText(goal.content, `${goalPath}.content`),
+        status: optionalStatus(goal.status, `${goalPath}.status`) ?? "todo",
+        comment: optionalComment(goal.comment, `${goalPath}.comment`),
+        verify: optionalVerify(goal.verify, `${goalPath}.verify`),
+      }
+    })
+    const dependsOn = optionalArray(step.dependsOn, `${path}.dependsOn`).map((dep, depIdx) => {
+      const id = optionalInt(dep, `${path}.dependsOn[${depIdx}]`)
+      if (id === undefined) throw invalidInput(`${path}.dependsOn[${depIdx}] must be an integer`)
+      return id
+    })
+    optionalInt(step.createdAt, `${path}.createdAt`)
+    optionalInt(step.updatedAt, `${path}.updatedAt`)
+    return {
+      path,
+      index: idx,
+      id: optionalInt(step.id, `${path}.id`),
+      order: optionalInt(step.order, `${path}.order`),
+      dependsOn,
+      input: {
+        content: expectText(step.content, `${path}.content`),
+        executor,
+        status: optionalStatus(step.status, `${path}.status`),
+        comment: optionalComment(step.comment, `${path}.comment`),
+        wait: waitInput,
+        ...optionalRouting(step, path),
+        goals,
+      } as StepInput,
+    }
+  })
+
+  // Array order breaks ties so documents without `order` keep their layout.
+  const ordered = [...drafts].sort((a, b) => (a.order ?? a.index + 1) - (b.order ?? b.index + 1) || a.index - b.index)
+  const positions = new Map<number, number>()
+  ordered.forEach((draft, idx) => {
+    if (draft.id === undefined) return
+    if (positions.has(draft.id)) throw invalidInput(`${draft.path}.id ${draft.id} is used by more than one step`)
+    positions.set(draft.id, idx + 1)
+  })
+  const steps = ordered.map((draft) => {
+    const after = draft.dependsOn.map((id) => {
+      const position = positions.get(id)
+      if (position === undefined) {
+        throw invalidInput(`${draft.path}.dependsOn refers to step id ${id}, which is not in this document`)
+      }
+      return position
+    })
+    return { ...draft.input, after: after.length ? after : undefined }
+  })
+
+  return { title, content, comment, ...routing, steps }
+}
@@ -1,17 +1,47 @@
-import type { GoalRow, PlanRow, StepRow, PlanDetail } from "./models"
-import { formatDateTimeUTC } from "./util"
+import type { EventRow, GoalRow, PlanRow, StepRow, PlanDetail } from "./models"
+import { formatRouting } from "./routing"
+import { changedRowFields, formatDateTimeUTC } from "./util"
+import { formatWaitCondition, stepWait } from "./wait"
 
 function hasText(value?: string | null) {
   return value !== undefined && value !== null && value.trim().length > 0
 }
 
-export function formatStepDetail(step: StepRow, goals: GoalRow[]): string {
+function formatGoalVerify(goal: GoalRow) {
+  const exitCode = goal.verify_exit_code ?? 0
+  const timeout = goal.verify_timeout_ms !== null ? `, timeout ${goal.verify_timeout_ms}ms` : ""
+  return `${goal.verify_command} (expects exit ${exitCode}${timeout})`
+}
+
+function formatDependencies(dependsOn?: number[]) {
+  return (dependsOn ?? []).map((id) => `${id}`).join(", ")
+}
+
+export function formatStepDetail(step: StepRow, goals: GoalRow[], dependsOn: number[] = []): string {
   let output = ""
   output += `Step ID: ${step.id}\n`
   output += `Plan ID: ${step.plan_id}\n`
   output += `Status: ${step.status}\n`
   output += `Executor: ${step.executor}\n`
   output += `Content: ${step.content}\n`
+  if (dependsOn.length) {
+    output += `Depends on: ${formatDependencies(dependsOn)}\n`
+  }
+  if (step.child_plan_id !== null) {
+    output += `Sub-plan ID: ${step.child_plan_id}\n`
+  }
+  const routing = formatRouting(step)
+  if (routing) {
+    output += `Routing: ${routing}\n`
+  }
+  const wait = stepWait(step)
+  if (wait) {
+    const until = formatDateTimeUTC(wait.until)
+    output += wait.condition
+      ? `Wait: for ${formatWaitCondition(wait.condition)} (until ${until}, then ${wait.condition.onTimeout})`
+      : `Wait: until ${until}`
+    output += wait.reason ? ` - ${wait.reason}\n` : "\n"
+  }
   if (hasText(step.comment)) {
     output += `Comment: ${step.comment ?? ""}\n`
   }
@@ -25,6 +55,9 @@ export function formatStepDetail(step: StepRow, goals: GoalRow[]): string {
   output += "Goals:\n"
   for (const goal of goals) {
     output += `- [${goal.status}] ${goal.content} (goal id ${goal.id})\n`
+    if (goal.verify_command) {
+      output += `  Verify: ${formatGoalVerify(goal)}\n`
+    }
     if (hasText(goal.comment)) {
       output += `  Comment: ${goal.comment ?? ""}\n`
     }
@@ -39,6 +72,9 @@ export function formatGoalDetail(goal: GoalRow, step: StepRow): string {
   output += `Plan ID: ${step.plan_id}\n`
   output += `Status: ${goal.status}\n`
   output += `Content: ${goal.content}\n`
+  if (goal.verify_command) {
+    output += `Verify: ${formatGoalVerify(goal)}\n`
+  }
   if (hasText(goal.comment)) {
     output += `Comment: ${goal.comment ?? ""}\n`
   }
@@ -54,7 +90,18 @@ export function formatGoalDetail(goal: GoalRow, step: StepRow): string {
   return output.trimEnd()
 }
 
-export function formatPlanDetail(plan: PlanRow, steps: StepRow[], goals: Map<number, GoalRow[]>): string {
+export function formatStepParents(parents: StepRow[]): string {
+  if (!parents.length) return ""
+  return `Parent steps: ${parents.map((step) => `${step.content} (step id ${step.id}, plan id ${step.plan_id})`).join(" > ")}`
+}
+
+export function formatPlanDetail(
+  plan: PlanRow,
+  steps: StepRow[],
+  goals: Map<number, GoalRow[]>,
+  dependencies: Map<number, number[]> = new Map(),
+  children: Map<number, PlanDetail> = new Map(),
+): string {
   let output = ""
   output += `Plan ID: ${plan.id}\n`
   output += `Title: ${plan.title}\n`
@@ -63,6 +110,13 @@ export function formatPlanDetail(plan: PlanRow, steps: StepRow[], goals: Map<num
   if (hasText(plan.comment)) {
     output += `Comment: ${plan.comment ?? ""}\n`
   }
+  const routing = formatRouting(plan)
+  if (routing) {
+    output += `Routing: ${routing}\n`
+  }
+  if (hasText(plan.message_template)) {
+    output += `Message template:\n${plan.message_template ?? ""}\n`
+  }
   output += `Created: ${formatDateTimeUTC(plan.created_at)}\n`
   output += `Updated: ${formatDateTimeUTC(plan.updated_at)}\n`
   output += "\n"
@@ -71,27 +125,84 @@ export function formatPlanDetail(plan: PlanRow, steps: StepRow[], goals: Map<num
     return output.trimEnd()
   }
   output += "Steps:\n"
+  output += formatStepLines(steps, goals, dependencies, children, "")
+  return output.trimEnd()
+}
+
+function formatStepLines(
+  steps: StepRow[],
+  goals: Map<number, GoalRow[]>,
+  dependencies: Map<number, number[]>,
+  children: Map<number, PlanDetail>,
+  indent: string,
+): string {
+  let output = ""
   for (const step of steps) {
     const stepGoals = goals.get(step.id) ?? []
+    const dependsOn = dependencies.get(step.id) ?? []
+    const after = dependsOn.length ? `, after ${formatDependencies(dependsOn)}` : ""
+    const subPlan = step.child_plan_id !== null ? `, sub-plan ${step.child_plan_id}` : ""
+    const routing = formatRouting(step)
+    const route = routing ? `, ${routing}` : ""
     if (stepGoals.length) {
       const done = stepGoals.filter((goal) => goal.status === "done").length
-      output += `- [${step.status}] ${step.content} (step id ${step.id}, exec ${step.executor}, goals ${done}/${stepGoals.length})\n`
+      output += `${indent}- [${step.status}] ${step.content} (step id ${step.id}, exec ${step.executor}${after}${subPlan}${route}, goals ${done}/${stepGoals.length})\n`
     } else {
-      output += `- [${step.status}] ${step.content} (step id ${step.id}, exec ${step.executor})\n`
+      output += `${indent}- [${step.status}] ${step.content} (step id ${step.id}, exec ${step.executor}${after}${subPlan}${route})\n`
     }
     if (hasText(step.comment)) {
-      output += `  Comment: ${step.comment ?? ""}\n`
+      output += `${indent}  Comment: ${step.comment ?? ""}\n`
     }
     if (stepGoals.length) {
       for (const goal of stepGoals) {
-        output += `  - [${goal.status}] ${goal.content} (goal id ${goal.id})\n`
+        output += `${indent}  - [${goal.status}] ${goal.content} (goal id ${goal.id})\n`
         if (hasText(goal.comment)) {
-          output += `    Comment: ${goal.comment ?? ""}\n`
+          output += `${indent}    Comment: ${goal.comment ?? ""}\n`
         }
       }
     }
+    const child = children.get(step.id)
+    if (child) {
+      const done = child.steps.filter((childStep) => childStep.status === "done").length
+      output += `${indent}  Sub-plan ${child.plan.id}: ${child.plan.title} [${child.plan.status}] (steps ${done}/${child.steps.length})\n`
+      output += formatStepLines(child.steps, child.goals, child.dependencies, child.children, `${indent}    `)
+    }
   }
-  return output.trimEnd()
+  return output
+}
+
+function summarizeValue(value: unknown): string {
+  if (value === null || value === undefined) return "(none)"
+  const text = String(value).replace(/\s+/g, " ").trim()
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text
+}
+
+function parseEventRow(json: string | null): Record<string, unknown> | null {
+  if (!json) return null
+  try {
+    return JSON.parse(json) as Record<string, unknown>
+  } catch {
+    return null
+  }
+}
+
+export function formatEventLine(event: EventRow): string {
+  const before = parseEventRow(event.before_json)
+  const after = parseEventRow(event.after_json)
+  let summary = ""
+  if (before && after && event.action !== "activated") {
+    summary = changedRowFields(before, after)
+      .map((key) => `${key}: ${summarizeValue(before[key])} -> ${summarizeValue(after[key])}`)
+      .join("; ")
+  } else {
+    const row = after ?? before
+    const label = row ? (row.title ?? row.content) : undefined
+    if (label !== undefined) summary = summarizeValue(label)
+  }
+  const who = [`session ${event.session_id ?? "(unknown)"}`]
+  if (event.cwd) who.push(`cwd ${event.cwd}`)
+  const head = `#${event.id} ${new Date(event.created_at).toISOString()} ${event.entity_type} ${event.entity_id} ${event.action}`
+  return `${head} (${who.join(", ")})${summary ? `: ${summary}` : ""}`
 }
 
 export function formatPlanMarkdown(
@@ -100,6 +211,8 @@ export function formatPlanMarkdown(
   plan: PlanRow,
   steps: StepRow[],
   goals: Map<number, GoalRow[]>,
+  dependencies: Map<number, number[]> = new Map(),
+  children: Map<number, PlanDetail> = new Map(),
 ): string {
   const lines: string[] = []
 
@@ -181,7 +294,9 @@ export function formatPlanMarkdown(
 
   steps.forEach((step, idx) => {
     const [firstLine, restLines] = splitTaskText(step.content)
-    pushLine(0, `- [${checkbox(step.status)}] **${firstLine}** *(id: ${step.id}, exec: ${step.executor}, order: ${step.sort_order})*`)
+    const dependsOn = dependencies.get(step.id) ?? []
+    const after = dependsOn.length ? `, after: ${formatDependencies(dependsOn)}` : ""
+    pushLine(0, `- [${checkbox(step.status)}] **${firstLine}** *(id: ${step.id}, exec: ${step.executor}, order: ${step.sort_order}${after})*`)
 
     let hasRest = false
     for (const line of restLines) {
@@ -201,6 +316,14 @@ export function formatPlanMarkdown(
     if (hasText(step.comment)) {
       pushLine(2, `- Comment: ${step.comment ?? ""}`)
     }
+    const child = children.get(step.id)
+    if (child) {
+      const done = child.steps.filter((childStep) => childStep.status === "done").length
+      pushLine(
+        2,
+        `- Sub-plan: [Plan ${child.plan.id}: ${collapseHeading(child.plan.title)}](plan_${child.plan.id}.md) \`${child.plan.status}\`, steps ${done}/${child.steps.length}`
+      )
+    }
 
     const stepGoals = goals.get(step.id)
     if (stepGoals && stepGoals.length) {
@@ -235,5 +358,5 @@ export function formatPlanMarkdown(
 }
 
 export function planDetailToMarkdown(detail: PlanDetail, active: boolean, activeUpdated: number | null): string {
-  return formatPlanMarkdown(active, activeUpdated, detail.plan, detail.steps, detail.goals)
+  return formatPlanMarkdown(active, activeUpdated, detail.plan, detail.steps, detail.goals, detail.dependencies, detail.children)
 }
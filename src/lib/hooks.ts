@@ -0,0 +1,172 @@
+import type { PlanpilotApp } from "./app"
+import type { HookConfig, HookEvent } from "./config"
+import type { EventRow } from "./models"
+import { runProcess } from "./process"
+
+// Local hooks on plan lifecycle events. Callers note `app.latestEventId()` before doing their work and
+// pass it to `fireHooks` afterwards; the hook events are read back from the event log, so the CLI, the
+// bridge and auto-continue all report the same changes the same way. A hook never fails the caller: hook
+// runs report failures in their results, and callers catch anything `fireHooks` itself throws (reading the
+// config or the event log) so it cannot replace the result of the work that fired it.
+
+export type HookFire = {
+  event: HookEvent
+  payload: Record<string, unknown>
+}
+
+export type HookResult = {
+  event: HookEvent
+  target: string
+  ok: boolean
+  error?: string
+}
+
+const STATUS_ACTIONS = new Set(["updated", "rollup", "reverted"])
+
+function parseRow(json: string | null): Record<string, any> | null {
+  if (!json) return null
+  try {
+    return JSON.parse(json) as Record<string, any>
+  } catch {
+    return null
+  }
+}
+
+function becameDone(row: EventRow, before: Record<string, any> | null, after: Record<string, any> | null): boolean {
+  return STATUS_ACTIONS.has(row.action) && before?.status !== "done" && after?.status === "done"
+}
+
+// The lifecycle events recorded after `afterId`, oldest first.
+export function collectHookEvents(app: PlanpilotApp, afterId: number): HookFire[] {
+  const fires: HookFire[] = []
+  // Plans whose next step may now be a human one: a step finished, a plan was activated, or a step was
+  // handed to a human.
+  const nextStepPlans = new Set<number>()
+  for (const row of app.eventsSince(afterId)) {
+    const before = parseRow(row.before_json)
+    const after = parseRow(row.after_json)
+    const base = { planId: row.plan_id, sessionId: row.session_id }
+    switch (row.entity_type) {
+      case "plan":
+        if (becameDone(row, before, after)) {
+          fires.push({ event: "plan.done", payload: { ...base, plan: after } })
+        } else if (row.action === "activated") {
+          fires.push({ event: "plan.activated", payload: { ...base, activePlan: after } })
+          if (row.plan_id !== null) nextStepPlans.add(row.plan_id)
+        }
+        break
+      case "step":
+        if (becameDone(row, before, after)) {
+          fires.push({ event: "step.done", payload: { ...base, stepId: row.entity_id, step: after } })
+          if (row.plan_id !== null) nextStepPlans.add(row.plan_id)
+        } else if (STATUS_ACTIONS.has(row.action) && before?.executor !== "human" && after?.executor === "human") {
+          if (row.plan_id !== null) nextStepPlans.add(row.plan_id)
+        }
+        break
+      case "goal":
+        if (becameDone(row, before, after)) {
+          fires.push({
+            event: "goal.done",
+            payload: { ...base, stepId: after?.step_id ?? null, goalId: row.entity_id, goal: after },
+          })
+        }
+        break
+      case "autocontinue":
+        if (row.action === "sent" || row.action === "stalled") {
+          fires.push({
+            event: row.action === "sent" ? "autocontinue.sent" : "autocontinue.stalled",
+            payload: { ...base, stepId: row.entity_id, detail: after },
+          })
+        }
+        break
+    }
+  }
+
+  const roots = new Set<number>()
+  for (const planId of nextStepPlans) {
+    try {
+      // Sub-plan steps continue with the outermost plan, as auto-continue does.
+      roots.add(app.parentStepsForPlan(planId)[0]?.plan_id ?? planId)
+    } catch {
+      // The plan is gone; nothing comes next.
+    }
+  }
+  for (const planId of roots) {
+    const next = app.nextLeafStep(planId)
+    if (!next || next.step.executor !== "human") continue
+    fires.push({
+      event: "next_step.human",
+      payload: { planId, stepId: next.step.id, step: next.step, goals: app.goalsForStep(next.step.id) },
+    })
+  }
+  return fires
+}
+
+// Commands run in `cwd`, the directory of the change that fired them, when there is one.
+export async function runHook(hook: HookConfig, body: string, cwd?: string): Promise<HookResult> {
+  const target = hook.command || hook.url
+  try {
+    if (hook.command) {
+      await runHookCommand(hook.command, body, hook.timeoutMs, hook.event, cwd)
+    } else {
+      const response = await fetch(hook.url, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body,
+        signal: AbortSignal.timeout(hook.timeoutMs),
+      })
+      if (!response.ok) throw new Error(`HTTP ${response.status}`)
+    }
+    return { event: hook.event, target, ok: true }
+  } catch (err) {
+    return { event: hook.event, target, ok: false, error: err instanceof Error ? err.message : String(err) }
+  }
+}
+
+// Runs the hooks configured for each event, all at once; returns one result per hook run.
+export async function fireHooks(
+  app: PlanpilotApp,
+  afterId: number,
+  hooks: HookConfig[],
+  context: { sessionId: string; cwd?: string },
+): Promise<HookResult[]> {
+  if (!hooks.length) return []
+  const fires = collectHookEvents(app, afterId)
+  const runs: Array<Promise<HookResult>> = []
+  for (const fire of fires) {
+    const body = JSON.stringify({
+      event: fire.event,
+      timestamp: new Date().toISOString(),
+      source: { sessionId: context.sessionId, cwd: context.cwd ?? null },
+      ...fire.payload,
+    })
+    hooks.filter((hook) => hook.event === fire.event).forEach((hook) => runs.push(runHook(hook, body, context.cwd)))
+  }
+  return Promise.all(runs)
+}
+
+const STDERR_LIMIT = 500
+
+// Runs in its own process group, so a timeout also stops whatever the command started.
+async function runHookCommand(
+  command: string,
+  body: string,
+  timeoutMs: number,
+  event: HookEvent,
+  cwd: string | undefined,
+): Promise<void> {
+  const result = await runProcess(command, [], {
+    cwd,
+    shell: true,
+    timeoutMs,
+    outputLimit: STDERR_LIMIT,
+    input: body,
+    env: { ...process.env, PLANPILOT_HOOK_EVENT: event },
+  })
+  if (result.error) throw new Error(result.error)
+  if (result.timedOut) throw new Error(`timed out after ${timeoutMs}ms`)
+  if (result.code !== 0) {
+    const stderr = result.stderr.trim()
+    throw new Error(`exited ${result.code ?? "without a code"}${stderr ? `: ${stderr}` : ""}`)
+  }
+}
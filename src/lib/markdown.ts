@@ -0,0 +1,285 @@
+import { invalidInput } from "./errors"
+import type { GoalInput, GoalStatus, PlanTreeInput, StepExecutor, StepInput, StepStatus } from "./models"
+
+// Parses a plan written by formatPlanMarkdown (`plan export`) or a plain GitHub-style checklist:
+//
+//   # Release 1.2
+//
+//   Ship the release branch.
+//
+//   - [ ] Bump versions *(id: 1)*
+//     - [ ] package.json updated
+//   - [ ] Publish to npm *(exec: human, after: 1)*
+//
+// Top-level checklist items are steps, nested ones are goals. The optional `*(key: value, ...)*`
+// suffix is the same one the exporter writes: `id`, `exec` (ai|human) and `after` (ids of other steps).
+
+type DraftGoal = {
+  content: string[]
+  status: GoalStatus
+  comment: string | null
+}
+
+type DraftStep = {
+  line: number
+  content: string[]
+  status: StepStatus
+  executor: StepExecutor
+  comment: string | null
+  id?: number
+  after: number[]
+  goals: DraftGoal[]
+  goalIndent?: number
+}
+
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/
+const CHECKBOX = /^(\s*)[-*+]\s+\[([^\]]*)\]\s*(.*)$/
+const BULLET = /^(\s*)[-*+]\s+(.*)$/
+const PLAN_FIELD = /^\*\*([^*]+?):\*\*\s*(.*)$/
+const ITEM_META = /\s*\*\(([^)]*:[^)]*)\)\*\s*$/
+
+function lineError(line: number, message: string) {
+  return invalidInput(`line ${line}: ${message}`)
+}
+
+function indentOf(raw: string): number {
+  const match = /^[ \t]*/.exec(raw)
+  return match ? match[0].replace(/\t/g, "    ").length : 0
+}
+
+function parseItemMeta(text: string): { text: string; meta: Map<string, string> } {
+  const meta = new Map<string, string>()
+  const match = ITEM_META.exec(text)
+  if (!match) return { text, meta }
+  let key: string | null = null
+  for (const part of match[1].split(",")) {
+    const trimmed = part.trim()
+    if (!trimmed) continue
+    const field = /^([a-z_-]+):\s*(.*)$/i.exec(trimmed)
+    if (field) {
+      key = field[1].toLowerCase()
+      meta.set(key, field[2].trim())
+    } else if (key) {
+      // `after: 2, 3` spreads one value across several comma-separated parts.
+      meta.set(key, `${meta.get(key) ?? ""}, ${trimmed}`)
+    }
+  }
+  return { text: text.slice(0, match.index), meta }
+}
+
+function stripBold(text: string): string {
+  const match = /^\*\*(.+)\*\*$/.exec(text.trim())
+  return match ? match[1] : text.trim()
+}
+
+function parseCheckbox(mark: string, line: number): boolean {
+  if (mark === " " || mark === "") return false
+  if (mark === "x" || mark === "X") return true
+  throw lineError(line, `unknown checkbox "[${mark}]" (expected "[ ]" or "[x]")`)
+}
+
+function parseMetaInt(value: string, label: string, line: number): number {
+  const num = Number(value.trim())
+  if (!Number.isInteger(num) || num < 1) {
+    throw lineError(line, `${label} '${value}' is invalid`)
+  }
+  return num
+}
+
+function joinLines(lines: string[]): string {
+  return lines.join("\n").trim()
+}
+
+export function parsePlanMarkdown(markdown: string): PlanTreeInput {
+  const lines = markdown.replace(/\r\n/g, "\n").split("\n")
+  let title: string | null = null
+  let comment: string | null = null
+  const contentLines: string[] = []
+  const steps: DraftStep[] = []
+  let stepIndent: number | undefined
+  let currentStep: DraftStep | null = null
+  let currentGoal: DraftGoal | null = null
+  let inSteps = false
+
+  lines.forEach((raw, idx) => {
+    const lineNo = idx + 1
+    const trimmed = raw.trim()
+    const indent = indentOf(raw)
+
+    if (!trimmed) {
+      if (!currentStep && title !== null && contentLines.length && contentLines[contentLines.length - 1] !== "") {
+        contentLines.push("")
+      }
+      return
+    }
+
+    const heading = HEADING.exec(trimmed)
+    if (heading && indent === 0) {
+      const text = heading[2]
+      if (heading[1] === "#" && text === "Plan" && title === null) return
+      const planTitle = /^Plan:\s*(.*)$/.exec(text)
+      if (planTitle && title === null) {
+        title = planTitle[1].trim()
+        return
+      }
+      if (text === "Plan Content") return
+      if (text === "Steps") {
+        inSteps = true
+        return
+      }
+      if (title === null) {
+        title = text
+        return
+      }
+      if (currentStep) {
+        throw lineError(lineNo, `unexpected heading "${text}" after the checklist started`)
+      }
+      contentLines.push(trimmed)
+      return
+    }
+
+    if (trimmed === "*No content*" || trimmed === "*No steps*") return
+
+    const checkbox = CHECKBOX.exec(raw)
+    if (checkbox) {
+      const done = parseCheckbox(checkbox[2], lineNo)
+      const { text, meta } = parseItemMeta(checkbox[3])
+      const content = stripBold(text)
+      if (!content) {
+        throw lineError(lineNo, "checklist item has no text")
+      }
+
+      if (!currentStep || stepIndent === undefined || indent <= stepIndent) {
+        if (stepIndent !== undefined && indent < stepIndent) {
+          throw lineError(lineNo, "step is indented less than the steps before it")
+        }
+        stepIndent = indent
+        const step: DraftStep = {
+          line: lineNo,
+          content: [content],
+          status: done ? "done" : "todo",
+          executor: "ai",
+          comment: null,
+          after: [],
+          goals: [],
+        }
+        const exec = meta.get("exec") ?? meta.get("executor")
+        if (exec !== undefined) {
+          if (exec !== "ai" && exec !== "human") {
+            throw lineError(lineNo, `unknown executor "${exec}" (expected ai or human)`)
+          }
+          step.executor = exec
+        }
+        const id = meta.get("id")
+        if (id !== undefined) step.id = parseMetaInt(id, "id", lineNo)
+        const after = meta.get("after")
+        if (after !== undefined) {
+          step.after = after
+            .split(",")
+            .filter((part) => part.trim())
+            .map((part) => parseMetaInt(part, "after", lineNo))
+        }
+        steps.push(step)
+        currentStep = step
+        currentGoal = null
+        return
+      }
+
+      if (currentStep.goalIndent !== undefined && indent > currentStep.goalIndent) {
+        throw lineError(lineNo, "checklists nest at most two levels (step > goal)")
+      }
+      currentStep.goalIndent = indent
+      currentGoal = { content: [content], status: done ? "done" : "todo", comment: null }
+      currentStep.goals.push(currentGoal)
+      return
+    }
+
+    const bullet = BULLET.exec(raw)
+    if (!currentStep) {
+      const field = bullet && indent === 0 ? PLAN_FIELD.exec(bullet[2]) : null
+      if (field) {
+        if (field[1].trim().toLowerCase() === "comment" && field[2].trim()) comment = field[2].trim()
+        return
+      }
+      if (inSteps) {
+        throw lineError(lineNo, `expected a "- [ ]" or "- [x]" checklist item`)
+      }
+      if (title === null) {
+        throw lineError(lineNo, `expected a "# Title" heading before any text`)
+      }
+      const quote = /^>\s?(.*)$/.exec(trimmed)
+      contentLines.push(quote ? quote[1] : trimmed)
+      return
+    }
+
+    if (stepIndent !== undefined && indent <= stepIndent) {
+      throw lineError(lineNo, `expected a "- [ ]" or "- [x]" checklist item`)
+    }
+
+    if (bullet) {
+      const text = bullet[2].trim()
+      // Bookkeeping bullets written by the exporter.
+      if (/^(Created|Updated|Sub-plan):/.test(text) || /^Goals:\s*\d+\/\d+$/.test(text) || text === "(none)") return
+      const stepComment = /^Comment:\s*(.*)$/.exec(text)
+      if (stepComment) {
+        currentStep.comment = stepComment[1].trim() || null
+        return
+      }
+      throw lineError(lineNo, `expected a "- [ ]" or "- [x]" checklist item`)
+    }
+
+    if (currentGoal && currentStep.goalIndent !== undefined && indent > currentStep.goalIndent) {
+      const goalComment = /^Comment:\s*(.*)$/.exec(trimmed)
+      if (goalComment) currentGoal.comment = goalComment[1].trim() || null
+      else currentGoal.content.push(trimmed)
+      return
+    }
+    currentStep.content.push(trimmed)
+  })
+
+  if (title === null || !(title as string).trim()) {
+    throw invalidInput(`missing plan title (expected a "# Title" or "## Plan: Title" heading)`)
+  }
+  if (!steps.length) {
+    throw invalidInput("no checklist items found; add at least one \"- [ ] step\"")
+  }
+
+  const positions = new Map<number, number>()
+  steps.forEach((step, idx) => {
+    if (step.id === undefined) return
+    if (positions.has(step.id)) {
+      throw lineError(step.line, `duplicate step id ${step.id}`)
+    }
+    positions.set(step.id, idx + 1)
+  })
+
+  const stepInputs = steps.map((step): StepInput => {
+    const after = step.after.map((id) => {
+      const position = positions.get(id)
+      if (position === undefined) {
+        throw lineError(step.line, `after refers to step id ${id}, which is not in this file`)
+      }
+      return position
+    })
+    const goals = step.goals.map(
+      (goal): GoalInput => ({ content: joinLines(goal.content), status: goal.status, comment: goal.comment })
+    )
+    return {
+      content: joinLines(step.content),
+      executor: step.executor,
+      status: step.status,
+      comment: step.comment,
+      goals,
+      after: after.length ? after : undefined,
+    }
+  })
+
+  const resolvedTitle = (title as string).trim()
+  const content = joinLines(contentLines)
+  return {
+    title: resolvedTitle,
+    content: content || resolvedTitle,
+    comment,
+    steps: stepInputs,
+  }
+}
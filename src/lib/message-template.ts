@@ -0,0 +1,153 @@
+import { formatPlanpilotAutoContinueMessage } from "../prompt"
+import type { PlanpilotApp } from "./app"
+import { invalidInput } from "./errors"
+import { formatStepDetail, formatStepParents } from "./format"
+import type { GoalRow, PlanRow, StepRow } from "./models"
+
+// Auto-continue message templates. A template is plain text with `{{variable}}` placeholders; the leaf
+// step's plan template wins, then the active plan's, then `autoContinue.messageTemplate` in the config.
+// Without any, the built-in message from prompt.ts is sent.
+
+export const MESSAGE_TEMPLATE_VARIABLES = [
+  "timestamp",
+  "plan.title",
+  "plan.content",
+  "step.detail",
+  "step.goals",
+  "steps.remaining",
+  "trigger.detail",
+  "previous.comment",
+  "attempt",
+] as const
+
+export type MessageTemplateVariable = (typeof MESSAGE_TEMPLATE_VARIABLES)[number]
+
+export type MessageTemplateSource = "plan" | "config" | "default"
+
+export type AutoContinueMessage = {
+  text: string
+  source: MessageTemplateSource
+  planId: number | null
+  // Set when the chosen template failed validation and the built-in message was sent instead.
+  error?: string
+}
+
+const PLACEHOLDER = /\{\{\s*([A-Za-z_][A-Za-z0-9_.-]*)\s*\}\}/g
+
+export function messageTemplateErrors(template: string): string[] {
+  if (!template.trim()) return ["template is empty"]
+  const errors: string[] = []
+  const known = new Set<string>(MESSAGE_TEMPLATE_VARIABLES)
+  const unknown = new Set<string>()
+  for (const match of template.matchAll(PLACEHOLDER)) {
+    if (!known.has(match[1])) unknown.add(match[1])
+  }
+  if (unknown.size) {
+    errors.push(
+      `unknown variable(s) ${Array.from(unknown).join(", ")} (expected: ${MESSAGE_TEMPLATE_VARIABLES.join(", ")})`
+    )
+  }
+  if (template.replace(PLACEHOLDER, "").includes("{{")) {
+    errors.push("unterminated or malformed {{...}} placeholder")
+  }
+  return errors
+}
+
+export function validateMessageTemplate(template: string): string {
+  const errors = messageTemplateErrors(template)
+  if (errors.length) {
+    throw invalidInput(`invalid message template: ${errors.join("; ")}`)
+  }
+  return template
+}
+
+export function renderMessageTemplate(template: string, vars: Record<MessageTemplateVariable, string>): string {
+  return template.replace(PLACEHOLDER, (_match, name: string) => vars[name as MessageTemplateVariable] ?? "")
+}
+
+function formatGoalLines(goals: GoalRow[]): string {
+  if (!goals.length) return "(none)"
+  return goals.map((goal) => `- [${goal.status}] ${goal.content} (goal id ${goal.id})`).join("\n")
+}
+
+function formatRemainingSteps(steps: StepRow[], current: StepRow): string {
+  const remaining = steps.filter((step) => step.status === "todo" && step.id !== current.id)
+  if (!remaining.length) return "(none)"
+  return remaining.map((step) => `- ${step.content} (step id ${step.id}, exec ${step.executor})`).join("\n")
+}
+
+function pickTemplate(plans: PlanRow[], configTemplate: string) {
+  const plan = plans.find((row) => row.message_template?.trim())
+  if (plan) return { template: plan.message_template as string, source: "plan" as const, planId: plan.id }
+  if (configTemplate.trim()) return { template: configTemplate, source: "config" as const, planId: null }
+  return null
+}
+
+// Builds the message auto-continue sends for `step`. `stepDetail` is the formatted step (with its parent
+// steps) exactly as the built-in message shows it.
+export function composeAutoContinueMessage(
+  app: PlanpilotApp,
+  input: {
+    activePlanId: number
+    step: StepRow
+    goals: GoalRow[]
+    stepDetail: string
+    configTemplate: string
+    triggerDetail?: string
+    now?: number
+  },
+): AutoContinueMessage {
+  const timestamp = new Date(input.now ?? Date.now()).toISOString()
+  const builtIn = () =>
+    formatPlanpilotAutoContinueMessage({ timestamp, stepDetail: input.stepDetail, triggerDetail: input.triggerDetail })
+
+  const plans = [app.getPlan(input.step.plan_id)]
+  if (input.step.plan_id !== input.activePlanId) plans.push(app.getPlan(input.activePlanId))
+  const chosen = pickTemplate(plans, input.configTemplate)
+  if (!chosen) return { text: builtIn(), source: "default", planId: null }
+
+  const errors = messageTemplateErrors(chosen.template)
+  if (errors.length) {
+    return { text: builtIn(), source: "default", planId: null, error: `${chosen.source} template: ${errors.join("; ")}` }
+  }
+
+  const plan = plans[0]
+  const steps = app.planWithSteps(plan.id).steps
+  const previous = steps.filter((step) => step.sort_order < input.step.sort_order).pop()
+  const text = renderMessageTemplate(chosen.template, {
+    timestamp,
+    "plan.title": plan.title,
+    "plan.content": plan.content,
+    "step.detail": input.stepDetail,
+    "step.goals": formatGoalLines(input.goals),
+    "steps.remaining": formatRemainingSteps(steps, input.step),
+    "trigger.detail": (input.triggerDetail ?? "").trim(),
+    "previous.comment": previous?.comment ?? "",
+    attempt: String(app.countAutoContinueSends(input.step.id) + 1),
+  })
+  return { text, source: chosen.source, planId: chosen.planId }
+}
+
+export type AutoContinuePreview =
+  | { ok: true; planId: number; step: StepRow; message: AutoContinueMessage }
+  | { ok: false; reason: "no-active-plan" | "no-pending-step" }
+
+// What auto-continue would send for this session's next step right now. Waits, budgets and the step's
+// executor are not checked; the caller decides how to present them.
+export function previewAutoContinueMessage(app: PlanpilotApp, configTemplate: string): AutoContinuePreview {
+  const active = app.getActivePlan()
+  if (!active) return { ok: false, reason: "no-active-plan" }
+  const leaf = app.nextLeafStep(active.plan_id)
+  if (!leaf) return { ok: false, reason: "no-pending-step" }
+  const goals = app.goalsForStep(leaf.step.id)
+  const parents = formatStepParents(leaf.parents)
+  const detail = formatStepDetail(leaf.step, goals)
+  const message = composeAutoContinueMessage(app, {
+    activePlanId: active.plan_id,
+    step: leaf.step,
+    goals,
+    stepDetail: parents ? `${parents}\n${detail}` : detail,
+    configTemplate,
+  })
+  return { ok: true, planId: active.plan_id, step: leaf.step, message }
+}
@@ -1,3 +1,5 @@
+import type { WaitCondition, WaitKind } from "./wait"
+
 export type PlanStatus = "todo" | "done"
 export type StepStatus = "todo" | "done"
 export type GoalStatus = "todo" | "done"
@@ -11,6 +13,11 @@ export interface PlanRow {
   comment: string | null
   last_session_id: string | null
   last_cwd: string | null
+  budget_json: string | null
+  agent: string | null
+  model: string | null
+  variant: string | null
+  message_template: string | null
   created_at: number
   updated_at: number
 }
@@ -23,6 +30,14 @@ export interface StepRow {
   executor: StepExecutor
   sort_order: number
   comment: string | null
+  child_plan_id: number | null
+  agent: string | null
+  model: string | null
+  variant: string | null
+  wait_until: number | null
+  wait_reason: string | null
+  wait_kind: WaitKind | null
+  wait_condition_json: string | null
   created_at: number
   updated_at: number
 }
@@ -33,6 +48,9 @@ export interface GoalRow {
   content: string
   status: GoalStatus
   comment: string | null
+  verify_command: string | null
+  verify_timeout_ms: number | null
+  verify_exit_code: number | null
   created_at: number
   updated_at: number
 }
@@ -44,15 +62,75 @@ export interface ActivePlanRow {
   updated_at: number
 }
 
+export interface PlanQueueRow {
+  id: number
+  session_id: string
+  plan_id: number
+  position: number
+  created_at: number
+}
+
+export interface StepDependencyRow {
+  step_id: number
+  depends_on_id: number
+}
+
+// "autocontinue" events record prompts sent to the agent, stalls detected on a step and sends held back by
+// the plan's budget (entity_id is the step); they change no rows, so undo and revert skip them.
+export type EventEntityType = "plan" | "step" | "goal" | "autocontinue"
+// "rollup" marks a status change derived from children (see StatusChanges), not a direct edit.
+// "reverted" marks a row restored by undo/revert.
+export type EventAction =
+  | "created"
+  | "updated"
+  | "deleted"
+  | "moved"
+  | "rollup"
+  | "activated"
+  | "deactivated"
+  | "queued"
+  | "dequeued"
+  | "reverted"
+  | "sent"
+  | "stalled"
+  | "blocked"
+
+export interface EventRow {
+  id: number
+  plan_id: number | null
+  entity_type: EventEntityType
+  entity_id: number
+  action: EventAction
+  before_json: string | null
+  after_json: string | null
+  session_id: string | null
+  cwd: string | null
+  created_at: number
+  // Events written by one PlanpilotApp call share a mutation id; undo works a mutation at a time.
+  mutation_id: string | null
+  undone: number
+}
+
+export interface RevertResult {
+  mutations: number
+  events: number
+  planIds: number[]
+  changes: StatusChanges
+}
+
 export interface PlanDetail {
   plan: PlanRow
   steps: StepRow[]
   goals: Map<number, GoalRow[]>
+  dependencies: Map<number, number[]>
+  // Child plan details keyed by the id of the step they are nested under.
+  children: Map<number, PlanDetail>
 }
 
 export interface StepDetail {
   step: StepRow
   goals: GoalRow[]
+  dependsOn: number[]
 }
 
 export interface GoalDetail {
@@ -60,10 +138,47 @@ export interface GoalDetail {
   step: StepRow
 }
 
-export interface StepInput {
+export interface GoalInput {
+  content: string
+  status?: GoalStatus
+  comment?: string | null
+  verify?: GoalVerify | null
+}
+
+// A shell command that proves a goal is met; see lib/verify.ts.
+export interface GoalVerify {
+  command: string
+  // Defaults to DEFAULT_VERIFY_TIMEOUT_MS.
+  timeoutMs?: number
+  // Defaults to 0.
+  exitCode?: number
+}
+
+// Who auto-continue sends a step to: an agent name, a `providerID/modelID` model and a model variant.
+// Null clears a field; see lib/routing.ts for how steps, plans and the session fill in the rest.
+export interface AutoRouting {
+  agent?: string | null
+  model?: string | null
+  variant?: string | null
+}
+
+export interface StepInput extends AutoRouting {
   content: string
   executor: StepExecutor
-  goals: string[]
+  goals: Array<string | GoalInput>
+  // 1-based positions of other steps in the same tree that must be done first.
+  after?: number[]
+  // Only used when the step has no goals; otherwise status rolls up from the goals.
+  status?: StepStatus
+  comment?: string | null
+  wait?: { until: number; reason?: string; condition?: WaitCondition } | null
+}
+
+export interface PlanTreeInput extends AutoRouting {
+  title: string
+  content: string
+  comment?: string | null
+  steps: StepInput[]
 }
 
 export interface StepStatusChange {
@@ -85,30 +200,42 @@ export interface ActivePlanCleared {
   reason: string
 }
 
+export interface ActivePlanPromoted {
+  plan_id: number
+  reason: string
+}
+
 export interface StatusChanges {
   steps: StepStatusChange[]
   plans: PlanStatusChange[]
   active_plans_cleared: ActivePlanCleared[]
+  active_plans_promoted: ActivePlanPromoted[]
 }
 
-export interface PlanChanges {
+export interface PlanChanges extends AutoRouting {
   title?: string
   content?: string
   status?: PlanStatus
   comment?: string
+  // Auto-continue message template for the plan; null or blank clears it.
+  messageTemplate?: string | null
 }
 
-export interface StepChanges {
+export interface StepChanges extends AutoRouting {
   content?: string
   status?: StepStatus
   executor?: StepExecutor
   comment?: string
+  // A plan id to nest under the step, or null to detach the current child plan.
+  childPlanId?: number | null
 }
 
 export interface GoalChanges {
   content?: string
   status?: GoalStatus
   comment?: string
+  // Null removes the verify command.
+  verify?: GoalVerify | null
 }
 
 export type PlanOrder = "id" | "title" | "created" | "updated"
@@ -130,15 +257,21 @@ export interface GoalQuery {
 }
 
 export function createEmptyStatusChanges(): StatusChanges {
-  return { steps: [], plans: [], active_plans_cleared: [] }
+  return { steps: [], plans: [], active_plans_cleared: [], active_plans_promoted: [] }
 }
 
 export function mergeStatusChanges(target: StatusChanges, other: StatusChanges) {
   target.steps.push(...other.steps)
   target.plans.push(...other.plans)
   target.active_plans_cleared.push(...other.active_plans_cleared)
+  target.active_plans_promoted.push(...other.active_plans_promoted)
 }
 
 export function statusChangesEmpty(changes: StatusChanges) {
-  return !changes.steps.length && !changes.plans.length && !changes.active_plans_cleared.length
+  return (
+    !changes.steps.length &&
+    !changes.plans.length &&
+    !changes.active_plans_cleared.length &&
+    !changes.active_plans_promoted.length
+  )
 }
@@ -0,0 +1,84 @@
+import { spawn } from "child_process"
+
+// Runs a command in its own process group so a timeout kills everything it started, not just the shell
+// wrapping it. The run ends when the command exits: output pipes that a leftover background process keeps
+// open are not waited for beyond EXIT_GRACE_MS.
+
+const EXIT_GRACE_MS = 100
+
+export type ProcessRun = {
+  code: number | null
+  stdout: string
+  stderr: string
+  // stdout and stderr as they arrived, for callers that report both.
+  output: string
+  timedOut: boolean
+  // Why the command did not start.
+  error?: string
+}
+
+export function runProcess(
+  command: string,
+  args: string[],
+  options: {
+    cwd?: string
+    shell: boolean
+    timeoutMs: number
+    outputLimit?: number
+    // Written to the command's stdin, which is closed otherwise.
+    input?: string
+    env?: NodeJS.ProcessEnv
+  },
+): Promise<ProcessRun> {
+  return new Promise((resolve) => {
+    let stdout = ""
+    let stderr = ""
+    let output = ""
+    let timedOut = false
+    let settled = false
+    const limit = options.outputLimit ?? Number.MAX_SAFE_INTEGER
+    const child = spawn(command, args, {
+      cwd: options.cwd,
+      shell: options.shell,
+      env: options.env,
+      detached: true,
+      stdio: [options.input === undefined ? "ignore" : "pipe", "pipe", "pipe"],
+    })
+    const finish = (code: number | null, error?: string) => {
+      if (settled) return
+      settled = true
+      clearTimeout(timer)
+      child.stdout?.destroy()
+      child.stderr?.destroy()
+      resolve({ code, stdout, stderr, output, timedOut, ...(error ? { error } : {}) })
+    }
+    const timer = setTimeout(() => {
+      timedOut = true
+      try {
+        if (child.pid) process.kill(-child.pid, "SIGKILL")
+      } catch {
+        // The group is already gone.
+      }
+      finish(null)
+    }, options.timeoutMs)
+    child.stdout?.on("data", (chunk) => {
+      stdout = (stdout + String(chunk)).slice(-limit)
+      output = (output + String(chunk)).slice(-limit)
+    })
+    child.stderr?.on("data", (chunk) => {
+      stderr = (stderr + String(chunk)).slice(-limit)
+      output = (output + String(chunk)).slice(-limit)
+    })
+    if (options.input !== undefined) {
+      child.stdin?.on("error", () => {
+        // The command may exit without reading its input.
+      })
+      child.stdin?.end(options.input)
+    }
+    child.on("error", (err) => finish(null, err.message))
+    child.on("exit", (code) => {
+      setTimeout(() => finish(code), EXIT_GRACE_MS)
+    })
+    child.on("close", (code) => finish(code))
+  })
+}
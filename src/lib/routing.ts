@@ -0,0 +1,65 @@
+import { invalidInput } from "./errors"
+import type { AutoRouting } from "./models"
+
+// Per-step agent/model/variant routing for auto-continue. A step's own fields win, then its plan's
+// defaults; whatever is still unset is inferred from the session's last user message.
+
+export type ModelRef = {
+  providerID: string
+  modelID: string
+}
+
+export type ResolvedRouting = {
+  agent?: string
+  model?: ModelRef
+  variant?: string
+}
+
+type RoutingRow = {
+  agent: string | null
+  model: string | null
+  variant: string | null
+}
+
+const ROUTING_FIELDS = ["agent", "model", "variant"] as const
+
+// `providerID/modelID`; the model id may itself contain slashes (e.g. `openrouter/anthropic/claude`).
+export function parseModelRef(value: string): ModelRef {
+  const trimmed = value.trim()
+  const slash = trimmed.indexOf("/")
+  if (slash <= 0 || slash === trimmed.length - 1) {
+    throw invalidInput(`invalid model '${value}', expected providerID/modelID`)
+  }
+  return { providerID: trimmed.slice(0, slash), modelID: trimmed.slice(slash + 1) }
+}
+
+// Trims the given fields and validates `model`. Blank strings become null (clear the field); fields that
+// are not given stay undefined (leave the field alone).
+export function normalizeRouting(input: AutoRouting): AutoRouting {
+  const routing: AutoRouting = {}
+  ROUTING_FIELDS.forEach((field) => {
+    const value = input[field]
+    if (value === undefined) return
+    const trimmed = value === null ? "" : value.trim()
+    routing[field] = trimmed ? trimmed : null
+  })
+  if (routing.model) parseModelRef(routing.model)
+  return routing
+}
+
+// `layers` are ordered most specific first (the step, then its plan, then the active plan).
+export function resolveRouting(layers: RoutingRow[]): ResolvedRouting {
+  const pick = (field: (typeof ROUTING_FIELDS)[number]) => layers.find((layer) => layer[field])?.[field] ?? undefined
+  const model = pick("model")
+  return {
+    agent: pick("agent"),
+    model: model ? parseModelRef(model) : undefined,
+    variant: pick("variant"),
+  }
+}
+
+export function formatRouting(row: RoutingRow): string {
+  return ROUTING_FIELDS.filter((field) => row[field])
+    .map((field) => `${field} ${row[field]}`)
+    .join(", ")
+}
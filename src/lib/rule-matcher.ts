@@ -0,0 +1,107 @@
+// Structured matchers for auto-continue rules (`autoContinue.on*.match`). A matcher tests one field of the
+// event, by regular expression, exact value or numeric range, or combines other matchers with `and`, `or`
+// and `not`. Named groups captured by a matching regex are reported with the trigger detail.
+
+export const MATCH_FIELDS = [
+  "text",
+  "error.name",
+  "message",
+  "statusCode",
+  "retryable",
+  "attempt",
+  "permission",
+  "patterns",
+  "reply",
+  "question.header",
+  "question.text",
+] as const
+
+export type MatchField = (typeof MATCH_FIELDS)[number]
+
+export type FieldMatcher = {
+  field: MatchField
+  // A regular expression tested against the value as text; `flags` may use i, m, s and u.
+  regex?: string
+  flags?: string
+  equals?: string | number | boolean
+  // An inclusive numeric range; either end may be left out.
+  min?: number
+  max?: number
+}
+
+export type RuleMatcher = { and: RuleMatcher[] } | { or: RuleMatcher[] } | { not: RuleMatcher } | FieldMatcher
+
+export const MATCH_REGEX_FLAGS = "imsu"
+
+// The fields an event offers; array fields match when any of their items does.
+export type MatchSubject = Partial<Record<MatchField, string | number | boolean | string[]>>
+
+export type MatchResult = {
+  matched: boolean
+  captures: Record<string, string>
+}
+
+const NO_MATCH: MatchResult = { matched: false, captures: {} }
+
+const compiled = new Map<string, RegExp>()
+
+function compileRegex(source: string, flags: string): RegExp {
+  const key = `${flags}/${source}`
+  let regex = compiled.get(key)
+  if (!regex) {
+    regex = new RegExp(source, flags)
+    compiled.set(key, regex)
+  }
+  return regex
+}
+
+export function evaluateRuleMatcher(matcher: RuleMatcher, subject: MatchSubject): MatchResult {
+  if ("and" in matcher) {
+    const captures: Record<string, string> = {}
+    for (const child of matcher.and) {
+      const result = evaluateRuleMatcher(child, subject)
+      if (!result.matched) return NO_MATCH
+      Object.assign(captures, result.captures)
+    }
+    return { matched: true, captures }
+  }
+  if ("or" in matcher) {
+    for (const child of matcher.or) {
+      const result = evaluateRuleMatcher(child, subject)
+      if (result.matched) return result
+    }
+    return NO_MATCH
+  }
+  if ("not" in matcher) {
+    return { matched: !evaluateRuleMatcher(matcher.not, subject).matched, captures: {} }
+  }
+  const value = subject[matcher.field]
+  if (value === undefined) return NO_MATCH
+  for (const item of Array.isArray(value) ? value : [value]) {
+    const result = matchValue(matcher, item)
+    if (result.matched) return result
+  }
+  return NO_MATCH
+}
+
+function matchValue(matcher: FieldMatcher, value: string | number | boolean): MatchResult {
+  if (matcher.equals !== undefined && value !== matcher.equals) return NO_MATCH
+  if (matcher.min !== undefined || matcher.max !== undefined) {
+    if (typeof value !== "number") return NO_MATCH
+    if (matcher.min !== undefined && value < matcher.min) return NO_MATCH
+    if (matcher.max !== undefined && value > matcher.max) return NO_MATCH
+  }
+  if (matcher.regex === undefined) return { matched: true, captures: {} }
+  const found = compileRegex(matcher.regex, matcher.flags ?? "").exec(String(value))
+  if (!found) return NO_MATCH
+  const captures: Record<string, string> = {}
+  for (const [name, captured] of Object.entries(found.groups ?? {})) {
+    if (captured !== undefined) captures[name] = captured
+  }
+  return { matched: true, captures }
+}
+
+// Named captures as `name=value` pieces for the trigger detail.
+export function formatMatchCaptures(captures: Record<string, string>): string[] {
+  return Object.entries(captures).map(([name, value]) => `${name}=${value}`)
+}
@@ -0,0 +1,119 @@
+import type { DatabaseConnection } from "./db"
+
+// Auto-continue bookkeeping that has to survive a plugin restart: queued triggers, send retries, the
+// manual-stop guard, armed step waits, stall tracking and budget blocks. Rows live in `runtime_state`,
+// one per (session, key), with the value stored as JSON.
+
+export type RuntimeStateKey =
+  | "pending_trigger"
+  | "send_retry"
+  | "manual_stop"
+  | "recent_send"
+  | "skip_next_auto"
+  | "wait"
+  | "send_progress"
+  | "stall"
+  | "budget_block"
+
+export class RuntimeStateStore {
+  private db: DatabaseConnection
+
+  constructor(db: DatabaseConnection) {
+    this.db = db
+  }
+
+  get<T>(sessionId: string, key: RuntimeStateKey): T | null {
+    const row = this.db
+      .prepare("SELECT value_json FROM runtime_state WHERE session_id = ? AND key = ?")
+      .get(sessionId, key) as { value_json: string } | null
+    if (!row) return null
+    try {
+      return JSON.parse(row.value_json) as T
+    } catch {
+      return null
+    }
+  }
+
+  entries<T>(key: RuntimeStateKey): Array<[string, T]> {
+    const rows = this.db
+      .prepare("SELECT session_id, value_json FROM runtime_state WHERE key = ? ORDER BY session_id")
+      .all(key) as Array<{ session_id: string; value_json: string }>
+    const entries: Array<[string, T]> = []
+    rows.forEach((row) => {
+      try {
+        entries.push([row.session_id, JSON.parse(row.value_json) as T])
+      } catch {
+        // A row that no longer parses is dropped rather than blocking every other session.
+        this.delete(row.session_id, key)
+      }
+    })
+    return entries
+  }
+
+  set(sessionId: string, key: RuntimeStateKey, value: unknown) {
+    this.db
+      .prepare(
+        `INSERT INTO runtime_state (session_id, key, value_json, updated_at) VALUES (?, ?, ?, ?)
+         ON CONFLICT(session_id, key) DO UPDATE SET value_json = excluded.value_json, updated_at = excluded.updated_at`
+      )
+      .run(sessionId, key, JSON.stringify(value), Date.now())
+  }
+
+  delete(sessionId: string, key: RuntimeStateKey) {
+    this.db.prepare("DELETE FROM runtime_state WHERE session_id = ? AND key = ?").run(sessionId, key)
+  }
+}
+
+// A per-session map that reads from memory and writes through to the store. Without a store (the
+// database could not be opened) it behaves like a plain Map; write failures are reported, not thrown,
+// so auto-continue keeps working on in-memory state.
+export class SessionStateMap<T> {
+  private store: RuntimeStateStore | null
+  private key: RuntimeStateKey
+  private values: Map<string, T>
+  private onError: (err: unknown) => void
+
+  constructor(store: RuntimeStateStore | null, key: RuntimeStateKey, onError: (err: unknown) => void) {
+    this.store = store
+    this.key = key
+    this.onError = onError
+    this.values = new Map()
+    if (!store) return
+    try {
+      this.values = new Map(store.entries<T>(key))
+    } catch (err) {
+      onError(err)
+    }
+  }
+
+  get(sessionId: string): T | undefined {
+    return this.values.get(sessionId)
+  }
+
+  has(sessionId: string): boolean {
+    return this.values.has(sessionId)
+  }
+
+  entries(): Array<[string, T]> {
+    return Array.from(this.values)
+  }
+
+  set(sessionId: string, value: T) {
+    this.values.set(sessionId, value)
+    this.persist(() => this.store?.set(sessionId, this.key, value))
+  }
+
+  delete(sessionId: string): boolean {
+    if (!this.values.delete(sessionId)) return false
+    this.persist(() => this.store?.delete(sessionId, this.key))
+    return true
+  }
+
+  private persist(write: () => void) {
+    try {
+      write()
+    } catch (err) {
+      this.onError(err)
+    }
+  }
+}
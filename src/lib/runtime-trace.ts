@@ -0,0 +1,121 @@
+import type { DatabaseConnection } from "./db"
+
+// Why auto-continue did or did not send, one record per decision. Records live in `runtime_trace` and are
+// shared by the plugin, the CLI (`runtime explain`) and the bridge (`runtime.trace`). Each session keeps
+// its latest TRACE_SESSION_LIMIT records and the table as a whole its latest TRACE_TOTAL_LIMIT. A decision
+// that repeats the session's previous one (a wait being polled, say) bumps its `repeats` instead.
+
+export type TraceOutcome = "sent" | "skipped" | "delayed" | "blocked" | "stalled" | "stopped" | "failed"
+
+export type TraceEntry = {
+  sessionId: string
+  source: string
+  run?: number
+  trigger?: string
+  outcome: TraceOutcome
+  reason: string
+  planId?: number
+  stepId?: number
+  detail?: Record<string, unknown>
+}
+
+export interface RuntimeTraceRow {
+  id: number
+  session_id: string
+  source: string
+  run: number | null
+  trigger_source: string | null
+  outcome: TraceOutcome
+  reason: string
+  plan_id: number | null
+  step_id: number | null
+  detail_json: string | null
+  // How many consecutive times this decision was made; `created_at` is the latest.
+  repeats: number
+  created_at: number
+}
+
+export const TRACE_SESSION_LIMIT = 200
+export const TRACE_TOTAL_LIMIT = 5000
+export const DEFAULT_TRACE_LIMIT = 20
+
+export class RuntimeTraceStore {
+  private db: DatabaseConnection
+
+  constructor(db: DatabaseConnection) {
+    this.db = db
+  }
+
+  record(entry: TraceEntry, now = Date.now()) {
+    const detail = entry.detail && Object.keys(entry.detail).length ? JSON.stringify(entry.detail) : null
+    const last = this.db
+      .prepare("SELECT * FROM runtime_trace WHERE session_id = ? ORDER BY id DESC LIMIT 1")
+      .get(entry.sessionId) as RuntimeTraceRow | null
+    if (
+      last &&
+      last.outcome === entry.outcome &&
+      last.reason === entry.reason &&
+      last.plan_id === (entry.planId ?? null) &&
+      last.step_id === (entry.stepId ?? null)
+    ) {
+      this.db
+        .prepare(
+          `UPDATE runtime_trace SET repeats = repeats + 1, source = ?, run = ?, trigger_source = ?, detail_json = ?, created_at = ?
+           WHERE id = ?`
+        )
+        .run(entry.source, entry.run ?? null, entry.trigger ?? null, detail, now, last.id)
+      return
+    }
+    this.db
+      .prepare(
+        `INSERT INTO runtime_trace (session_id, source, run, trigger_source, outcome, reason, plan_id, step_id, detail_json, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        entry.sessionId,
+        entry.source,
+        entry.run ?? null,
+        entry.trigger ?? null,
+        entry.outcome,
+        entry.reason,
+        entry.planId ?? null,
+        entry.stepId ?? null,
+        detail,
+        now,
+      )
+    this.db
+      .prepare(
+        `DELETE FROM runtime_trace WHERE session_id = ? AND id <= (
+           SELECT id FROM runtime_trace WHERE session_id = ? ORDER BY id DESC LIMIT 1 OFFSET ?
+         )`
+      )
+      .run(entry.sessionId, entry.sessionId, TRACE_SESSION_LIMIT)
+    this.db
+      .prepare("DELETE FROM runtime_trace WHERE id <= (SELECT id FROM runtime_trace ORDER BY id DESC LIMIT 1 OFFSET ?)")
+      .run(TRACE_TOTAL_LIMIT)
+  }
+
+  // The latest `limit` records, oldest first; without a session id, across every session.
+  list(sessionId: string | null, limit = DEFAULT_TRACE_LIMIT): RuntimeTraceRow[] {
+    const rows = sessionId
+      ? this.db
+          .prepare("SELECT * FROM runtime_trace WHERE session_id = ? ORDER BY id DESC LIMIT ?")
+          .all(sessionId, limit)
+      : this.db.prepare("SELECT * FROM runtime_trace ORDER BY id DESC LIMIT ?").all(limit)
+    return (rows as RuntimeTraceRow[]).reverse()
+  }
+}
+
+export function formatTraceRow(row: RuntimeTraceRow, withSession = false): string {
+  const where = [
+    row.plan_id !== null ? `plan ${row.plan_id}` : "",
+    row.step_id !== null ? `step ${row.step_id}` : "",
+  ].filter(Boolean)
+  const via = row.trigger_source && row.trigger_source !== row.source ? `${row.source} (trigger ${row.trigger_source})` : row.source
+  let line = `${new Date(row.created_at).toISOString()} ${row.outcome}: ${row.reason} [${via}${
+    where.length ? `, ${where.join(" ")}` : ""
+  }${withSession ? `, session ${row.session_id}` : ""}]`
+  if (row.repeats > 1) line += ` (x${row.repeats})`
+  if (row.detail_json) line += ` ${row.detail_json}`
+  return line
+}
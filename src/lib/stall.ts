@@ -0,0 +1,53 @@
+import type { PlanpilotApp } from "./app"
+import type { StallAction } from "./config"
+import type { GoalRow, StepRow } from "./models"
+
+// Stall detection for auto-continue. Each send remembers the step's progress mark; when the same step is
+// about to be sent again and the mark has not changed `threshold` times in a row, the step is stalled.
+
+// Consecutive auto-sends of one step (`signature` is `<plan_id>:<step_id>`) that saw the same mark.
+export type SendProgress = {
+  signature: string
+  mark: string
+  sends: number
+}
+
+// The last stall detected in a session, reported by `runtime.snapshot`.
+export type StallRecord = {
+  planId: number
+  stepId: number
+  sends: number
+  action: StallAction
+  at: number
+}
+
+// Step and goal statuses; anything else (comments, waits) does not count as progress.
+export function stepProgressMark(step: StepRow, goals: GoalRow[]): string {
+  const goalMarks = goals.map((goal) => `${goal.id}:${goal.status}`).join(",")
+  return `${step.status}|${goalMarks}`
+}
+
+// How many earlier sends of this step made no progress, given the current mark.
+export function unproductiveSends(previous: SendProgress | null | undefined, signature: string, mark: string): number {
+  if (!previous || previous.signature !== signature || previous.mark !== mark) return 0
+  return previous.sends
+}
+
+export function formatStallComment(record: StallRecord): string {
+  return `Planpilot: auto-continue sent this step ${record.sends} times without any step or goal status change (${new Date(
+    record.at,
+  ).toISOString()}).`
+}
+
+// Applies the configured action to the stalled step. "hold" changes nothing here: the caller holds
+// auto-continue for the session until a user message arrives.
+export function applyStallAction(app: PlanpilotApp, record: StallRecord) {
+  if (record.action === "human") {
+    app.updateStep(record.stepId, { executor: "human" })
+  } else if (record.action === "comment") {
+    const step = app.getStep(record.stepId)
+    const note = formatStallComment(record)
+    app.updateStep(record.stepId, { comment: step.comment ? `${step.comment}\n${note}` : note })
+  }
+  app.recordAutoContinue(record.planId, record.stepId, "stalled", { sends: record.sends, action: record.action })
+}
@@ -0,0 +1,189 @@
+import fs from "fs"
+import path from "path"
+import { resolvePlanTemplateDir } from "./db"
+import { planDetailToDocument, planDocumentToTree, routingFields, type PlanDocument } from "./document"
+import { AppError, invalidInput, notFound } from "./errors"
+import type { PlanDetail, PlanTreeInput } from "./models"
+
+// Reusable plan skeletons stored as `<planpilot dir>/templates/<name>.json`. The body is a plan
+// document (see document.ts) without per-run state, and any string in it may contain `{{name}}`
+// placeholders that are filled in when a plan is created from the template.
+
+export interface PlanTemplate {
+  name: string
+  description: string | null
+  createdAt: number
+  document: PlanDocument
+}
+
+export interface PlanTemplateSummary {
+  name: string
+  description: string | null
+  title: string
+  stepCount: number
+  variables: string[]
+  createdAt: number
+}
+
+const TEMPLATE_NAME = /^[A-Za-z0-9][A-Za-z0-9._-]*$/
+const PLACEHOLDER = /\{\{\s*([A-Za-z_][A-Za-z0-9_.-]*)\s*\}\}/g
+
+export function validateTemplateName(name: string): string {
+  const trimmed = name.trim()
+  if (!TEMPLATE_NAME.test(trimmed)) {
+    throw invalidInput(`invalid template name '${name}' (use letters, digits, '.', '_' or '-')`)
+  }
+  return trimmed
+}
+
+export function resolvePlanTemplatePath(name: string): string {
+  return path.join(resolvePlanTemplateDir(), `${validateTemplateName(name)}.json`)
+}
+
+export function planDetailToTemplate(name: string, detail: PlanDetail, description?: string | null): PlanTemplate {
+  const { plan } = planDetailToDocument(detail)
+  // Statuses, waits, timestamps and database ids belong to the plan that was saved, not to future runs.
+  // Step ids are kept because `dependsOn` refers to them.
+  return {
+    name: validateTemplateName(name),
+    description: description?.trim() || null,
+    createdAt: Date.now(),
+    document: {
+      version: 1,
+      plan: {
+        title: plan.title,
+        content: plan.content,
+        comment: plan.comment,
+        ...routingFields(plan),
+        steps: plan.steps.map((step) => ({
+          id: step.id,
+          content: step.content,
+          executor: step.executor,
+          comment: step.comment,
+          ...routingFields(step),
+          dependsOn: step.dependsOn,
+          goals: (step.goals ?? []).map((goal) => ({
+            content: goal.content,
+            comment: goal.comment,
+            ...(goal.verify ? { verify: goal.verify } : {}),
+          })),
+        })),
+      },
+    },
+  }
+}
+
+export function savePlanTemplate(template: PlanTemplate, overwrite = false): string {
+  const filePath = resolvePlanTemplatePath(template.name)
+  if (!overwrite && fs.existsSync(filePath)) {
+    throw invalidInput(`template '${template.name}' already exists (use --force to overwrite)`)
+  }
+  // Reject templates that could not be rendered back into a plan.
+  planDocumentToTree(template.document)
+  fs.mkdirSync(path.dirname(filePath), { recursive: true })
+  fs.writeFileSync(filePath, `${JSON.stringify(template, null, 2)}\n`, "utf8")
+  return filePath
+}
+
+export function loadPlanTemplate(name: string): PlanTemplate {
+  const filePath = resolvePlanTemplatePath(name)
+  let text: string
+  try {
+    text = fs.readFileSync(filePath, "utf8")
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+      throw notFound(`template ${name}`)
+    }
+    throw new AppError("Io", `failed to read ${filePath}: ${err instanceof Error ? err.message : String(err)}`)
+  }
+  let raw: unknown
+  try {
+    raw = JSON.parse(text)
+  } catch (err) {
+    throw new AppError("Json", `invalid template ${filePath}: ${err instanceof Error ? err.message : String(err)}`)
+  }
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw invalidInput(`invalid template ${filePath}: expected an object`)
+  }
+  const value = raw as Record<string, unknown>
+  if (!value.document || typeof value.document !== "object") {
+    throw invalidInput(`invalid template ${filePath}: missing document`)
+  }
+  return {
+    name: validateTemplateName(name),
+    description: typeof value.description === "string" && value.description.trim() ? value.description : null,
+    createdAt: typeof value.createdAt === "number" ? value.createdAt : 0,
+    document: value.document as PlanDocument,
+  }
+}
+
+export function listPlanTemplates(): PlanTemplateSummary[] {
+  const dir = resolvePlanTemplateDir()
+  if (!fs.existsSync(dir)) return []
+  return fs
+    .readdirSync(dir)
+    .filter((file) => file.endsWith(".json") && TEMPLATE_NAME.test(file.slice(0, -".json".length)))
+    .sort()
+    .map((file) => {
+      const template = loadPlanTemplate(file.slice(0, -".json".length))
+      return {
+        name: template.name,
+        description: template.description,
+        title: template.document.plan?.title ?? "",
+        stepCount: Array.isArray(template.document.plan?.steps) ? template.document.plan.steps.length : 0,
+        variables: templateVariables(template),
+        createdAt: template.createdAt,
+      }
+    })
+}
+
+function collectStrings(value: unknown, out: string[]) {
+  if (typeof value === "string") {
+    out.push(value)
+  } else if (Array.isArray(value)) {
+    value.forEach((item) => collectStrings(item, out))
+  } else if (value && typeof value === "object") {
+    Object.values(value).forEach((item) => collectStrings(item, out))
+  }
+}
+
+export function templateVariables(template: PlanTemplate): string[] {
+  const strings: string[] = []
+  collectStrings(template.document, strings)
+  const names = new Set<string>()
+  for (const text of strings) {
+    for (const match of text.matchAll(PLACEHOLDER)) {
+      names.add(match[1])
+    }
+  }
+  return Array.from(names)
+}
+
+function substitute(value: unknown, vars: Record<string, string>): unknown {
+  if (typeof value === "string") {
+    return value.replace(PLACEHOLDER, (_match, name: string) => vars[name])
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => substitute(item, vars))
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, substitute(item, vars)]))
+  }
+  return value
+}
+
+export function renderPlanTemplate(template: PlanTemplate, vars: Record<string, string>): PlanTreeInput {
+  const names = templateVariables(template)
+  const missing = names.filter((name) => vars[name] === undefined)
+  if (missing.length) {
+    throw invalidInput(`template '${template.name}' needs ${missing.map((name) => `--var ${name}=...`).join(", ")}`)
+  }
+  const unknown = Object.keys(vars).filter((name) => !names.includes(name))
+  if (unknown.length) {
+    throw invalidInput(
+      `template '${template.name}' has no variable(s) ${unknown.join(", ")}` +
+        (names.length ? ` (expected: ${names.join(", ")})` : "")
+    )
+  }
+  return planDocumentToTree(substitute(template.document, vars))
+}
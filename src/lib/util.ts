@@ -49,58 +49,46 @@ export function normalizeCommentEntries(entries: Array<[number, string]>): Array
   return ordered
 }
 
-const WAIT_UNTIL_PREFIX = "@wait-until="
-const WAIT_REASON_PREFIX = "@wait-reason="
+// Bookkeeping columns that change on every write and carry no meaning in change history.
+const VOLATILE_ROW_FIELDS = new Set(["updated_at", "last_session_id", "last_cwd"])
 
-export type WaitComment = {
-  until: number
-  reason?: string
+export function changedRowFields(before: object, after: object): string[] {
+  const prev = before as Record<string, unknown>
+  const next = after as Record<string, unknown>
+  const keys = Array.from(new Set([...Object.keys(prev), ...Object.keys(next)]))
+  return keys.filter((key) => !VOLATILE_ROW_FIELDS.has(key) && prev[key] !== next[key])
 }
 
-export function parseWaitFromComment(comment?: string | null): WaitComment | null {
-  if (!comment) return null
-  let until: number | null = null
-  let reason: string | undefined
-  for (const line of comment.split(/\r?\n/)) {
-    const trimmed = line.trim()
-    if (trimmed.startsWith(WAIT_UNTIL_PREFIX)) {
-      const raw = trimmed.slice(WAIT_UNTIL_PREFIX.length).trim()
-      const value = Number(raw)
-      if (Number.isFinite(value)) {
-        until = value
+// Returns the first cycle found in a dependency graph (node -> nodes it depends on), or null.
+export function findDependencyCycle(edges: Map<number, number[]>): number[] | null {
+  const visiting = new Set<number>()
+  const visited = new Set<number>()
+  const stack: number[] = []
+
+  const visit = (node: number): number[] | null => {
+    visiting.add(node)
+    stack.push(node)
+    for (const next of edges.get(node) ?? []) {
+      if (visiting.has(next)) {
+        return [...stack.slice(stack.indexOf(next)), next]
+      }
+      if (!visited.has(next)) {
+        const cycle = visit(next)
+        if (cycle) return cycle
       }
-      continue
-    }
-    if (trimmed.startsWith(WAIT_REASON_PREFIX)) {
-      const raw = trimmed.slice(WAIT_REASON_PREFIX.length).trim()
-      if (raw) reason = raw
     }
+    stack.pop()
+    visiting.delete(node)
+    visited.add(node)
+    return null
   }
-  if (until === null) return null
-  return { until, reason }
-}
 
-function isWaitLine(line: string): boolean {
-  const trimmed = line.trim()
-  return trimmed.startsWith(WAIT_UNTIL_PREFIX) || trimmed.startsWith(WAIT_REASON_PREFIX)
-}
-
-export function upsertWaitInComment(comment: string | null, until: number, reason?: string): string {
-  const lines = comment ? comment.split(/\r?\n/) : []
-  const filtered = lines.filter((line) => !isWaitLine(line))
-  const waitLines = [`${WAIT_UNTIL_PREFIX}${Math.trunc(until)}`]
-  const reasonValue = reason?.trim()
-  if (reasonValue) {
-    waitLines.push(`${WAIT_REASON_PREFIX}${reasonValue}`)
+  for (const node of edges.keys()) {
+    if (visited.has(node)) continue
+    const cycle = visit(node)
+    if (cycle) return cycle
   }
-  return [...waitLines, ...filtered].join("\n").trimEnd()
-}
-
-export function removeWaitFromComment(comment?: string | null): string | null {
-  if (!comment) return null
-  const lines = comment.split(/\r?\n/).filter((line) => !isWaitLine(line))
-  const cleaned = lines.join("\n").trimEnd()
-  return cleaned.length ? cleaned : null
+  return null
 }
 
 export function resolveMaybeRealpath(value: string): string {
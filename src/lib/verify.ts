@@ -0,0 +1,148 @@
+import type { PlanpilotApp } from "./app"
+import { invalidInput } from "./errors"
+import { createEmptyStatusChanges, mergeStatusChanges, type GoalRow, type GoalVerify, type StatusChanges } from "./models"
+import { runProcess } from "./process"
+import { ensureNonEmpty } from "./util"
+
+// Goal verification. A goal may carry a shell command (`verify_command`) that proves it is met; `goal verify`
+// and auto-continue run it in the plan's last working directory, write the result into the goal comment and
+// set the goal done when the command exits with `verify_exit_code` within `verify_timeout_ms`, todo otherwise.
+
+export const DEFAULT_VERIFY_TIMEOUT_MS = 2 * 60 * 1000
+const OUTPUT_LIMIT = 2000
+
+export type GoalCheck = {
+  goalId: number
+  command: string
+  passed: boolean
+  exitCode: number | null
+  expectedExitCode: number
+  timedOut: boolean
+  durationMs: number
+  // The tail of stdout and stderr combined, at most OUTPUT_LIMIT characters.
+  output: string
+}
+
+export type GoalVerification = {
+  checks: GoalCheck[]
+  changes: StatusChanges
+}
+
+// Validates a verification spec from the CLI or the bridge. Missing fields use the defaults.
+export function parseGoalVerify(raw: unknown): GoalVerify {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw invalidInput("verify must be an object")
+  }
+  const input = raw as Record<string, unknown>
+  for (const key of Object.keys(input)) {
+    if (key !== "command" && key !== "timeoutMs" && key !== "exitCode") {
+      throw invalidInput(`unknown verify field '${key}' (expected command, timeoutMs or exitCode)`)
+    }
+  }
+  if (typeof input.command !== "string") {
+    throw invalidInput("verify.command must be a string")
+  }
+  ensureNonEmpty("verify command", input.command)
+  const verify: GoalVerify = { command: input.command.trim() }
+  if (input.timeoutMs !== undefined && input.timeoutMs !== null) {
+    if (typeof input.timeoutMs !== "number" || !Number.isInteger(input.timeoutMs) || input.timeoutMs <= 0) {
+      throw invalidInput("verify.timeoutMs must be a positive integer")
+    }
+    verify.timeoutMs = input.timeoutMs
+  }
+  if (input.exitCode !== undefined && input.exitCode !== null) {
+    if (typeof input.exitCode !== "number" || !Number.isInteger(input.exitCode) || input.exitCode < 0 || input.exitCode > 255) {
+      throw invalidInput("verify.exitCode must be an integer between 0 and 255")
+    }
+    verify.exitCode = input.exitCode
+  }
+  return verify
+}
+
+export function goalVerify(goal: GoalRow): GoalVerify | null {
+  if (!goal.verify_command) return null
+  return {
+    command: goal.verify_command,
+    ...(goal.verify_timeout_ms !== null ? { timeoutMs: goal.verify_timeout_ms } : {}),
+    ...(goal.verify_exit_code !== null ? { exitCode: goal.verify_exit_code } : {}),
+  }
+}
+
+export async function runGoalCheck(goal: GoalRow, cwd: string | undefined): Promise<GoalCheck> {
+  const verify = goalVerify(goal)
+  if (!verify) {
+    throw invalidInput(`goal ${goal.id} has no verify command`)
+  }
+  const expectedExitCode = verify.exitCode ?? 0
+  const timeoutMs = verify.timeoutMs ?? DEFAULT_VERIFY_TIMEOUT_MS
+  const startedAt = Date.now()
+  const result = await runProcess(verify.command, [], { cwd, shell: true, timeoutMs, outputLimit: OUTPUT_LIMIT })
+  return {
+    goalId: goal.id,
+    command: verify.command,
+    passed: !result.timedOut && result.code === expectedExitCode,
+    exitCode: result.code,
+    expectedExitCode,
+    timedOut: result.timedOut,
+    durationMs: Date.now() - startedAt,
+    output: (result.output || result.error || "").trim(),
+  }
+}
+
+// Runs the checks one after another, then records each result in its goal comment and moves the goals
+// to done or todo in one batch each, so step and plan roll-ups happen once.
+export async function verifyGoals(
+  app: PlanpilotApp,
+  goals: GoalRow[],
+  cwd: string | undefined,
+  now = Date.now(),
+): Promise<GoalVerification> {
+  const checks: GoalCheck[] = []
+  for (const goal of goals) {
+    checks.push(await runGoalCheck(goal, cwd))
+  }
+  const changes = createEmptyStatusChanges()
+  if (!checks.length) return { checks, changes }
+  app.commentGoals(checks.map((check) => [check.goalId, formatGoalCheckComment(check, now)]))
+  const passed = checks.filter((check) => check.passed).map((check) => check.goalId)
+  const failed = checks.filter((check) => !check.passed).map((check) => check.goalId)
+  mergeStatusChanges(changes, app.setGoalsStatus(passed, "done").changes)
+  mergeStatusChanges(changes, app.setGoalsStatus(failed, "todo").changes)
+  return { checks, changes }
+}
+
+// Where a plan's checks run: the directory planpilot last saw it used from, else the caller's.
+export function verifyCwd(app: PlanpilotApp, planId: number, fallback: string | undefined): string | undefined {
+  return app.getPlan(planId).last_cwd ?? fallback
+}
+
+// Goals from any number of steps, each step's checks running in its own plan's directory.
+export async function verifyGoalsByStep(
+  app: PlanpilotApp,
+  goals: GoalRow[],
+  fallbackCwd: string | undefined,
+): Promise<GoalVerification> {
+  const byStep = new Map<number, GoalRow[]>()
+  goals.forEach((goal) => byStep.set(goal.step_id, [...(byStep.get(goal.step_id) ?? []), goal]))
+  const verification: GoalVerification = { checks: [], changes: createEmptyStatusChanges() }
+  for (const [stepId, stepGoals] of byStep) {
+    const cwd = verifyCwd(app, app.getStep(stepId).plan_id, fallbackCwd)
+    const result = await verifyGoals(app, stepGoals, cwd)
+    verification.checks.push(...result.checks)
+    mergeStatusChanges(verification.changes, result.changes)
+  }
+  return verification
+}
+
+export function formatGoalCheck(check: GoalCheck): string {
+  if (check.timedOut) return `timed out after ${check.durationMs}ms`
+  const exit = check.exitCode === null ? "did not start" : `exit ${check.exitCode}`
+  return check.passed
+    ? `passed (${exit}, ${check.durationMs}ms)`
+    : `failed (${exit}, expected ${check.expectedExitCode}, ${check.durationMs}ms)`
+}
+
+function formatGoalCheckComment(check: GoalCheck, now: number): string {
+  const header = `verify ${formatGoalCheck(check)} at ${new Date(now).toISOString()}: ${check.command}`
+  return check.output ? `${header}\n${check.output}` : header
+}
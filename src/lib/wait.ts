@@ -0,0 +1,231 @@
+import fs from "fs"
+import path from "path"
+import type { PlanpilotApp } from "./app"
+import { AppError, invalidInput } from "./errors"
+import { runProcess } from "./process"
+
+// Step waits, stored in the step's `wait_*` columns. A "delay" wait holds the step until `wait_until`.
+// Condition waits (`step wait --for`) are polled by auto-continue every WAIT_POLL_MS while the step is
+// next; once the condition holds the wait is cleared and the step is sent. When `wait_until` passes
+// first, `onTimeout` decides: send the step anyway or hand it to a human.
+
+export type WaitConditionKind = "file" | "command" | "git-ref" | "step" | "plan"
+
+export type WaitKind = "delay" | WaitConditionKind
+
+export type WaitTimeoutAction = "continue" | "human"
+
+export type WaitCondition = {
+  kind: WaitConditionKind
+  // A path, a shell command, a git ref, or a step/plan id.
+  target: string
+  // Where relative paths, commands and git refs resolve; captured when the wait is set.
+  cwd?: string
+  // The commit a `git-ref` wait started from ("" when the ref did not exist yet).
+  baseline?: string
+  onTimeout: WaitTimeoutAction
+}
+
+export type StepWait = {
+  kind: WaitKind
+  // When a delay ends, or when a condition wait times out.
+  until: number
+  reason?: string
+  condition?: WaitCondition
+}
+
+export type WaitColumns = {
+  wait_until: number | null
+  wait_reason: string | null
+  wait_kind: WaitKind | null
+  // The condition without its kind: target, cwd, baseline and onTimeout.
+  wait_condition_json: string | null
+}
+
+export type WaitCheck = {
+  met: boolean
+  detail: string
+}
+
+export const WAIT_CONDITION_KINDS: WaitConditionKind[] = ["file", "command", "git-ref", "step", "plan"]
+export const WAIT_TIMEOUT_ACTIONS: WaitTimeoutAction[] = ["continue", "human"]
+export const DEFAULT_WAIT_TIMEOUT_MS = 60 * 60 * 1000
+export const WAIT_POLL_MS = 15000
+const COMMAND_TIMEOUT_MS = 30000
+
+// `<kind>:<target>`, e.g. `file:dist/app.js`, `command:make check`, `git-ref:origin/main` or `step:12`.
+export function parseWaitConditionSpec(spec: string): { kind: WaitConditionKind; target: string } {
+  const colon = spec.indexOf(":")
+  const kind = (colon > 0 ? spec.slice(0, colon).trim() : "") as WaitConditionKind
+  if (!WAIT_CONDITION_KINDS.includes(kind)) {
+    throw invalidInput(`invalid wait condition '${spec}', expected ${WAIT_CONDITION_KINDS.join("|")}:<target>`)
+  }
+  return { kind, target: spec.slice(colon + 1).trim() }
+}
+
+export function parseWaitTimeoutAction(value: string): WaitTimeoutAction {
+  const normalized = value.trim().toLowerCase() as WaitTimeoutAction
+  if (!WAIT_TIMEOUT_ACTIONS.includes(normalized)) {
+    throw invalidInput(`invalid timeout action '${value}', expected ${WAIT_TIMEOUT_ACTIONS.join("|")}`)
+  }
+  return normalized
+}
+
+// Validates a new condition and pins what it depends on: an absolute path, the working directory and,
+// for git refs, the commit the ref points at now.
+export async function prepareWaitCondition(
+  input: { kind: WaitConditionKind; target: string; onTimeout?: WaitTimeoutAction },
+  cwd: string | undefined,
+): Promise<WaitCondition> {
+  const target = input.target.trim()
+  if (!target) {
+    throw invalidInput(`wait condition ${input.kind} requires a target`)
+  }
+  const onTimeout = input.onTimeout ?? "continue"
+  switch (input.kind) {
+    case "file":
+      return { kind: "file", target: cwd ? path.resolve(cwd, target) : path.resolve(target), onTimeout }
+    case "command":
+      return { kind: "command", target, ...(cwd ? { cwd } : {}), onTimeout }
+    case "git-ref": {
+      const lookup = await resolveGitRef(target, cwd)
+      if ("error" in lookup) {
+        throw invalidInput(`cannot look up git ref ${target}: ${lookup.error}`)
+      }
+      const baseline = lookup.commit ?? ""
+      return { kind: "git-ref", target, ...(cwd ? { cwd } : {}), baseline, onTimeout }
+    }
+    case "step":
+    case "plan": {
+      const id = Number(target)
+      if (!Number.isInteger(id) || id <= 0) {
+        throw invalidInput(`wait condition ${input.kind} requires a ${input.kind} id`)
+      }
+      return { kind: input.kind, target: String(id), onTimeout }
+    }
+  }
+}
+
+// Reads a stored condition; anything malformed is dropped rather than blocking the step forever.
+export function readWaitCondition(raw: unknown): WaitCondition | null {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return null
+  const value = raw as Record<string, unknown>
+  if (!WAIT_CONDITION_KINDS.includes(value.kind as WaitConditionKind)) return null
+  if (typeof value.target !== "string" || !value.target) return null
+  const condition: WaitCondition = {
+    kind: value.kind as WaitConditionKind,
+    target: value.target,
+    onTimeout: value.onTimeout === "human" ? "human" : "continue",
+  }
+  if (typeof value.cwd === "string") condition.cwd = value.cwd
+  if (typeof value.baseline === "string") condition.baseline = value.baseline
+  return condition
+}
+
+export function stepWait(row: WaitColumns): StepWait | null {
+  if (row.wait_until === null || row.wait_kind === null) return null
+  const wait: StepWait = { kind: row.wait_kind, until: row.wait_until }
+  if (row.wait_reason) wait.reason = row.wait_reason
+  if (row.wait_kind !== "delay" && row.wait_condition_json) {
+    try {
+      const condition = readWaitCondition({ ...JSON.parse(row.wait_condition_json), kind: row.wait_kind })
+      if (condition) wait.condition = condition
+    } catch {
+      // An unreadable condition leaves a plain wait until the timeout.
+    }
+  }
+  return wait
+}
+
+export function waitColumns(until: number, reason?: string, condition?: WaitCondition): WaitColumns {
+  const { kind, ...rest } = condition ?? { kind: "delay" as const }
+  return {
+    wait_until: Math.trunc(until),
+    wait_reason: reason?.trim() || null,
+    wait_kind: kind,
+    wait_condition_json: condition ? JSON.stringify(rest) : null,
+  }
+}
+
+export const NO_WAIT: WaitColumns = {
+  wait_until: null,
+  wait_reason: null,
+  wait_kind: null,
+  wait_condition_json: null,
+}
+
+export async function checkWaitCondition(app: PlanpilotApp, condition: WaitCondition): Promise<WaitCheck> {
+  switch (condition.kind) {
+    case "file": {
+      const met = fs.existsSync(condition.target)
+      return { met, detail: met ? `${condition.target} exists` : `${condition.target} does not exist yet` }
+    }
+    case "command": {
+      const result = await run(condition.target, [], condition.cwd, true)
+      return {
+        met: result.code === 0,
+        detail: result.code === 0 ? "command exited 0" : `command exited ${result.code ?? "without a code"}`,
+      }
+    }
+    case "git-ref": {
+      const lookup = await resolveGitRef(condition.target, condition.cwd)
+      // A failed lookup says nothing about the ref, so the wait stays armed until it times out.
+      if ("error" in lookup) {
+        return { met: false, detail: `cannot look up ${condition.target}: ${lookup.error}` }
+      }
+      const current = lookup.commit ?? ""
+      const met = current !== (condition.baseline ?? "")
+      return {
+        met,
+        detail: met ? `${condition.target} moved to ${current || "(deleted)"}` : `${condition.target} unchanged`,
+      }
+    }
+    case "step":
+    case "plan": {
+      const id = Number(condition.target)
+      try {
+        const row = condition.kind === "step" ? app.getStep(id) : app.getPlan(id)
+        const met = row.status === "done"
+        return { met, detail: `${condition.kind} ${id} is ${row.status}` }
+      } catch (err) {
+        // Nothing left to wait for once the step or plan is gone.
+        if (err instanceof AppError && err.kind === "NotFound") {
+          return { met: true, detail: `${condition.kind} ${id} no longer exists` }
+        }
+        throw err
+      }
+    }
+  }
+}
+
+export function formatWaitCondition(condition: WaitCondition): string {
+  switch (condition.kind) {
+    case "file":
+      return `file ${condition.target} exists`
+    case "command":
+      return `command \`${condition.target}\` exits 0`
+    case "git-ref":
+      return `git ref ${condition.target} changes${condition.baseline ? ` from ${condition.baseline.slice(0, 12)}` : ""}`
+    case "step":
+    case "plan":
+      return `${condition.kind} ${condition.target} is done`
+  }
+}
+
+// The commit `ref` points at, null when no such ref exists, or why git could not tell.
+type GitRefLookup = { commit: string | null } | { error: string }
+
+async function resolveGitRef(ref: string, cwd: string | undefined): Promise<GitRefLookup> {
+  const result = await run("git", ["rev-parse", "--verify", "--quiet", `${ref}^{commit}`], cwd, false)
+  const commit = result.stdout.trim()
+  if (result.code === 0 && commit) return { commit }
+  // With --quiet, a ref that does not resolve to a commit exits 1 and prints nothing.
+  if (result.code === 1 && !result.stderr.trim()) return { commit: null }
+  if (result.error) return { error: result.error }
+  if (result.timedOut) return { error: `git timed out after ${COMMAND_TIMEOUT_MS}ms` }
+  return { error: result.stderr.trim() || `git exited ${result.code ?? "without a code"}` }
+}
+
+async function run(command: string, args: string[], cwd: string | undefined, shell: boolean) {
+  return runProcess(command, args, { cwd, shell, timeoutMs: COMMAND_TIMEOUT_MS })
+}
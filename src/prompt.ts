@@ -5,6 +5,8 @@ export const PLANPILOT_HELP_TEXT = [
   "- plan -> step -> goal",
   "- step.executor: ai | human",
   "- status rolls up: goals -> steps -> plan",
+  "- steps may depend on other steps in the same plan (`--after`); a step is pending only once its dependencies are done",
+  "- a step may nest a whole sub-plan (`step update <id> --child-plan <plan_id>`); the step is done once the sub-plan is done",
   "",
   "Rules (important):",
   "- Prefer assigning steps to ai. Use human steps only for actions that require human approval/credentials",
@@ -16,19 +18,23 @@ export const PLANPILOT_HELP_TEXT = [
   "  (build/test/job/CI/network/remote service).",
   "  If you can run something now, do it instead of waiting.",
   "  Do NOT use `step wait` to wait for human action.",
+  "  Prefer `--for` with what the work produces (a file, a command that succeeds, a git ref, another step) over guessing a delay.",
   "- Keep comments short and decision-focused.",
   "",
   "Status propagation:",
   "- Step with goals: done iff ALL goals are done; else todo.",
+  "- Step with a sub-plan: done iff the sub-plan (and any goals) are done; else todo.",
   "- Plan with steps: done iff ALL steps are done; else todo.",
   "- Step with 0 goals: manual status (`step update` / `step done`).",
   "- Plan with 0 steps: manual status (`plan update` / `plan done`).",
-  "- When a plan becomes done, it is removed from active plan.",
+  "- When a plan becomes done, it is removed from active plan and the next plan in this session's queue (`plan queue`) becomes active.",
   "",
   "Auto-continue:",
   "- When the session is idle and an active plan exists:",
   "  - if next pending step.executor is ai: Planpilot auto-sends the next step + goals.",
   "  - if next pending step.executor is human: no auto-continue.",
+  "  - if the next pending step has a sub-plan: the sub-plan's next step is used instead.",
+  "  - the step's `--agent/--model/--variant` (then its plan's) choose who receives it; unset fields follow the last user message.",
   "- Pause while waiting on external systems: `step wait`.",
   "- Stop auto-continue:",
   "  - `plan deactivate`, OR",
@@ -36,49 +42,71 @@ export const PLANPILOT_HELP_TEXT = [
   "",
   "Invocation:",
   "- argv is tokenized: [section, subcommand, ...args]",
-  "- section: help | plan | step | goal",
+  "- section: help | plan | step | goal | undo | prompt | runtime | config",
   "",
   "Commands:",
   "- help",
+  "- undo [--count N]",
+  "- prompt preview",
+  "- runtime explain [--limit N] [--all]",
+  "- config show [--effective]",
+  "- config get <path>",
+  "- config set <path> <value>   (value is JSON when it parses, else a string)",
+  "- config unset <path>",
+  "- config reset",
+  "- config validate [path]",
   "",
   "Plan:",
-  "- plan add-tree <title> <content> --step <content> [--executor ai|human] [--goal <content>]... [--step ...]...",
+  "- plan add-tree <title> <content> [--agent <name>] [--model <provider/model>] [--variant <name>] --step <content> [--executor ai|human] [--agent <name>] [--model <provider/model>] [--variant <name>] [--goal <content>]... [--after <step_pos>]... [--step ...]...",
   "- plan list [--scope project|all] [--status todo|done|all] [--limit N] [--page N] [--order id|title|created|updated] [--desc]",
   "- plan count [--scope project|all] [--status todo|done|all]",
   "- plan search --search <term> [--search <term> ...] [--search-mode any|all] [--search-field plan|title|content|comment|steps|goals|all] [--match-case] [--scope project|all] [--status todo|done|all] [--limit N] [--page N] [--order id|title|created|updated] [--desc]",
   "- plan show <id>",
-  "- plan export <id> <path>",
+  "- plan export <id> <path> [--format md|json|yaml]",
+  "- plan import <path> [--format md|json|yaml]",
+  "- plan queue add <id> [<id> ...]",
+  "- plan queue remove <id> [<id> ...]",
+  "- plan queue list",
+  "- plan queue reorder <id> --to <pos>",
+  "- plan template save <plan_id> <name> [--description <text>] [--force]",
+  "- plan template list",
+  "- plan from-template <name> [--var <key>=<value>]...",
+  "- plan history <id> [--limit N] [--page N]",
+  "- plan revert <id> --to <timestamp>",
   "- plan comment <id> <comment> [<id> <comment> ...]",
-  "- plan update <id> [--title <title>] [--content <content>] [--status todo|done] [--comment <comment>]",
+  "- plan update <id> [--title <title>] [--content <content>] [--status todo|done] [--comment <comment>] [--agent <name>|none] [--model <provider/model>|none] [--variant <name>|none] [--message-template <text>|none]",
   "- plan done <id>",
   "- plan remove <id>",
   "- plan activate <id> [--force]",
   "- plan show-active",
+  "- plan budget <id> [--max-sends N] [--max-duration <ms>] [--window <HH:MM-HH:MM>|any]... [--clear]",
   "- plan deactivate",
   "",
   "Step:",
-  "- step add <plan_id> <content...> [--executor ai|human] [--at <pos>]",
-  "- step add-tree <plan_id> <content> [--executor ai|human] [--goal <content> ...]",
+  "- step add <plan_id> <content...> [--executor ai|human] [--at <pos>] [--after <step_id>]... [--agent <name>] [--model <provider/model>] [--variant <name>]",
+  "- step add-tree <plan_id> <content> [--executor ai|human] [--goal <content> ...] [--after <step_id>]... [--agent <name>] [--model <provider/model>] [--variant <name>]",
   "- step list <plan_id> [--status todo|done|all] [--executor ai|human] [--limit N] [--page N]",
   "- step count <plan_id> [--status todo|done|all] [--executor ai|human]",
   "- step show <id>",
   "- step show-next",
   "- step wait <id> --delay <ms> [--reason <text>]",
+  "- step wait <id> --for file|command|git-ref|step|plan:<target> [--timeout <ms>] [--on-timeout continue|human] [--reason <text>]",
   "- step wait <id> --clear",
   "- step comment <id> <comment> [<id> <comment> ...]",
-  "- step update <id> [--content <content>] [--status todo|done] [--executor ai|human] [--comment <comment>]",
+  "- step update <id> [--content <content>] [--status todo|done] [--executor ai|human] [--comment <comment>] [--child-plan <plan_id>|none] [--agent <name>|none] [--model <provider/model>|none] [--variant <name>|none]",
   "- step done <id> [--all-goals]",
   "- step move <id> --to <pos>",
   "- step remove <id...>",
   "",
   "Goal:",
-  "- goal add <step_id> <content...>",
+  "- goal add <step_id> <content...> [--verify <command>] [--verify-timeout <ms>] [--verify-exit <code>]",
   "- goal list <step_id> [--status todo|done|all] [--limit N] [--page N]",
   "- goal count <step_id> [--status todo|done|all]",
   "- goal show <id>",
   "- goal comment <id> <comment> [<id> <comment> ...]",
-  "- goal update <id> [--content <content>] [--status todo|done] [--comment <comment>]",
+  "- goal update <id> [--content <content>] [--status todo|done] [--comment <comment>] [--verify <command>|none] [--verify-timeout <ms>] [--verify-exit <code>]",
   "- goal done <id...>",
+  "- goal verify <id...> | --step <step_id>",
   "- goal remove <id...>",
 ].join("\n")
 
@@ -37,13 +37,32 @@ type ActivePlan = {
 type StepDetail = {
   step: StepRow
   goals: GoalRow[]
-  wait?: { until: number; reason?: string } | null
+  wait?: { kind: string; until: number; reason?: string; condition?: { kind: string; target: string } } | null
+}
+
+type StallRecord = {
+  planId: number
+  stepId: number
+  sends: number
+  action: "hold" | "human" | "comment"
+  at: number
+}
+
+type BudgetStatus = {
+  maxSends: number
+  remainingSends: number | null
+  maxDurationMs: number
+  remainingMs: number | null
+  windows: string[]
+  blocked: "sends" | "duration" | "window" | null
 }
 
 type RuntimeSnapshot = {
   paused: boolean
   activePlan: ActivePlan | null
   nextStep: StepDetail | null
+  stall?: StallRecord | null
+  budget?: BudgetStatus | null
 }
 
 type PlanDetail = {
@@ -52,6 +71,18 @@ type PlanDetail = {
   goals: Array<{ stepId: number; goals: GoalRow[] }>
 }
 
+// One `planpilot.change` event from the bridge feed; `before`/`after` are rows for row-level actions.
+type ChangeEvent = {
+  seq: number
+  type: string
+  planId: number | null
+  entityType: "plan" | "step" | "goal" | "autocontinue"
+  entityId: number
+  action: string
+  before: unknown
+  after: unknown
+}
+
 type ActionError = {
   code?: string
   message?: string
@@ -76,6 +107,9 @@ type AppState = {
   eventStatus: string
 }
 
+// Actions whose before/after are plan, step or goal rows; the rest describe active-plan or queue rows.
+const ROW_ACTIONS = new Set(["created", "updated", "deleted", "moved", "rollup", "reverted"])
+
 const FALLBACK_PLUGIN_ID = "opencode-planpilot"
 const REFRESH_DEBOUNCE_MS = 200
 
@@ -84,7 +118,13 @@ type UiLocale = "en-US" | "zh-CN"
 type UiStrings = {
   unknown: string
   waitingUntil: (time: string, reason: string) => string
+  waitingFor: (condition: string, time: string, reason: string) => string
   stepsDone: (done: number, total: number) => string
+  stalled: (stepId: number, sends: number, action: string) => string
+  budget: string
+  budgetSendsLeft: (count: number) => string
+  budgetMinutesLeft: (minutes: number) => string
+  budgetBlocked: (reason: string) => string
   runtimePaused: string
   runtimeActive: string
   none: string
@@ -151,7 +191,13 @@ const UI_STRINGS: Record<UiLocale, UiStrings> = {
   "en-US": {
     unknown: "unknown",
     waitingUntil: (time, reason) => `Waiting until ${time}${reason}`,
+    waitingFor: (condition, time, reason) => `Waiting for ${condition} (until ${time})${reason}`,
     stepsDone: (done, total) => `${done}/${total} steps done`,
+    stalled: (stepId, sends, action) => `Step #${stepId} stalled after ${sends} auto-sends without progress (${action})`,
+    budget: "Budget",
+    budgetSendsLeft: (count) => `${count} sends left`,
+    budgetMinutesLeft: (minutes) => `${minutes} min left`,
+    budgetBlocked: (reason) => `Auto-continue held back by the plan budget (${reason})`,
     runtimePaused: "Paused",
     runtimeActive: "Active",
     none: "None",
@@ -216,7 +262,13 @@ const UI_STRINGS: Record<UiLocale, UiStrings> = {
   "zh-CN": {
     unknown: "未知",
     waitingUntil: (time, reason) => `等待至 ${time}${reason}`,
+    waitingFor: (condition, time, reason) => `等待 ${condition}（最迟至 ${time}）${reason}`,
     stepsDone: (done, total) => `已完成步骤 ${done}/${total}`,
+    stalled: (stepId, sends, action) => `步骤 #${stepId} 自动发送 ${sends} 次仍无进展，已停滞（${action}）`,
+    budget: "预算",
+    budgetSendsLeft: (count) => `剩余 ${count} 次发送`,
+    budgetMinutesLeft: (minutes) => `剩余 ${minutes} 分钟`,
+    budgetBlocked: (reason) => `自动续跑受计划预算限制已暂停（${reason}）`,
     runtimePaused: "已暂停",
     runtimeActive: "运行中",
     none: "无",
@@ -362,6 +414,9 @@ function formatWait(wait: StepDetail["wait"]): string {
   const date = new Date(wait.until)
   const time = Number.isNaN(date.getTime()) ? t.unknown : date.toLocaleString(locale)
   const reason = wait.reason ? ` - ${escapeHtml(wait.reason)}` : ""
+  if (wait.condition) {
+    return t.waitingFor(escapeHtml(`${wait.condition.kind}:${wait.condition.target}`), escapeHtml(time), reason)
+  }
   return t.waitingUntil(escapeHtml(time), reason)
 }
 
@@ -478,6 +533,60 @@ function scheduleRefresh(): void {
   }, REFRESH_DEBOUNCE_MS)
 }
 
+function upsertById<T extends { id: number }>(rows: T[], row: T, prepend = false): T[] {
+  const index = rows.findIndex((item) => item.id === row.id)
+  if (index === -1) return prepend ? [row, ...rows] : [...rows, row]
+  return rows.map((item, idx) => (idx === index ? row : item))
+}
+
+// Patches the loaded plans and selected plan from one feed event. Returns false when the event cannot be
+// applied locally (step moves renumber siblings), so the caller falls back to a refresh.
+function applyChange(change: ChangeEvent): boolean {
+  if (change.entityType === "autocontinue" || !ROW_ACTIONS.has(change.action)) return true
+  const detail = state.selectedPlan
+
+  if (change.entityType === "plan") {
+    const plan = change.after as PlanRow | null
+    if (!plan) {
+      state.plans = state.plans.filter((item) => item.id !== change.entityId)
+      if (state.selectedPlanId === change.entityId) {
+        state.selectedPlanId = null
+        state.selectedPlan = null
+        return false
+      }
+      return true
+    }
+    state.plans = upsertById(state.plans, plan, true)
+    if (detail && detail.plan.id === plan.id) detail.plan = plan
+    return true
+  }
+
+  if (!detail || change.planId !== detail.plan.id) return true
+
+  if (change.entityType === "step") {
+    const step = change.after as StepRow | null
+    if (!step) {
+      detail.steps = detail.steps.filter((item) => item.id !== change.entityId)
+      detail.goals = detail.goals.filter((entry) => entry.stepId !== change.entityId)
+      return true
+    }
+    const previous = detail.steps.find((item) => item.id === step.id)
+    if (previous && previous.sort_order !== step.sort_order) return false
+    detail.steps = upsertById(detail.steps, step).sort((a, b) => a.sort_order - b.sort_order || a.id - b.id)
+    return true
+  }
+
+  const goal = change.after as GoalRow | null
+  const stepId = goal?.step_id ?? (change.before as GoalRow | null)?.step_id
+  if (stepId === undefined) return false
+  const entry = detail.goals.find((item) => item.stepId === stepId)
+  const goals = entry?.goals ?? []
+  const next = goal ? upsertById(goals, goal) : goals.filter((item) => item.id !== change.entityId)
+  if (entry) entry.goals = next
+  else detail.goals.push({ stepId, goals: next })
+  return true
+}
+
 async function runAction(action: string, payload: unknown, successMessage: string): Promise<void> {
   state.busyAction = action
   state.message = ""
@@ -636,6 +745,16 @@ function bindUiHandlers(root: HTMLElement): void {
   })
 }
 
+// Only limits that are set are shown; windows are listed as configured.
+function formatBudget(budget: BudgetStatus | null): string {
+  if (!budget) return ""
+  const parts: string[] = []
+  if (budget.remainingSends !== null) parts.push(t.budgetSendsLeft(budget.remainingSends))
+  if (budget.remainingMs !== null) parts.push(t.budgetMinutesLeft(Math.floor(budget.remainingMs / 60000)))
+  if (budget.windows.length) parts.push(budget.windows.join(", "))
+  return parts.join(" · ")
+}
+
 function renderRuntimeCard(): string {
   const runtime = state.runtime
   const isPaused = runtime?.paused ? t.runtimePaused : t.runtimeActive
@@ -643,6 +762,9 @@ function renderRuntimeCard(): string {
   const activePlan = planById(activeId)
   const nextStep = runtime?.nextStep?.step
   const waitText = runtime?.nextStep ? formatWait(runtime.nextStep.wait ?? null) : ""
+  const stall = runtime?.stall
+  const budgetText = formatBudget(runtime?.budget ?? null)
+  const budgetBlocked = runtime?.budget?.blocked
   const actionBusy = state.busyAction !== null
 
   return `
@@ -652,6 +774,9 @@ function renderRuntimeCard(): string {
       <div class="runtime-line"><span class="label">${t.activePlan}</span><span>${activePlan ? `#${activePlan.id} ${escapeHtml(activePlan.title)}` : t.none}</span></div>
       <div class="runtime-line"><span class="label">${t.nextStep}</span><span>${nextStep ? `#${nextStep.id} ${escapeHtml(nextStep.content)}` : t.none}</span></div>
       ${waitText ? `<div class="note">${waitText}</div>` : ""}
+      ${stall ? `<div class="note">${escapeHtml(t.stalled(stall.stepId, stall.sends, stall.action))}</div>` : ""}
+      ${budgetText ? `<div class="runtime-line"><span class="label">${t.budget}</span><span>${escapeHtml(budgetText)}</span></div>` : ""}
+      ${budgetBlocked ? `<div class="note">${escapeHtml(t.budgetBlocked(budgetBlocked))}</div>` : ""}
       <div class="row-actions">
         <button data-action="refresh" ${actionBusy ? "disabled" : ""}>${t.refresh}</button>
         ${runtime?.paused ? `<button data-action="resume" ${actionBusy ? "disabled" : ""}>${t.resume}</button>` : `<button data-action="pause" ${actionBusy ? "disabled" : ""}>${t.pause}</button>`}
@@ -990,13 +1115,40 @@ function subscribeEvents(): () => void {
     render()
   }
 
+  const onFeedChange = (event: Event) => {
+    state.eventStatus = t.live
+    let change: ChangeEvent
+    try {
+      change = JSON.parse(String((event as MessageEvent).data)) as ChangeEvent
+    } catch {
+      onChange()
+      return
+    }
+    if (!applyChange(change)) scheduleRefresh()
+    render()
+  }
+
+  const onRuntimeChange = (event: Event) => {
+    state.eventStatus = t.live
+    let runtime: RuntimeSnapshot
+    try {
+      runtime = JSON.parse(String((event as MessageEvent).data)) as RuntimeSnapshot
+    } catch {
+      onChange()
+      return
+    }
+    state.runtime = runtime
+    render()
+  }
+
   source.onopen = () => {
     state.eventStatus = t.live
     render()
   }
 
   source.addEventListener("plugin.event", onChange)
-  source.addEventListener("planpilot.runtime.changed", onChange)
+  source.addEventListener("planpilot.change", onFeedChange)
+  source.addEventListener("planpilot.runtime.changed", onRuntimeChange)
   source.onmessage = onChange
   source.addEventListener("heartbeat", () => {
     state.eventStatus = t.live
@@ -158,6 +158,9 @@ const UI_STRINGS: Record<UiLocale, UiStrings> = {
   },
 }
 
+// Feed actions whose before/after are plan, step or goal rows; the rest describe active-plan or queue rows.
+const ROW_ACTIONS = new Set(["created", "updated", "deleted", "moved", "rollup", "reverted"])
+
 function normalizeLocale(value: string | undefined | null): UiLocale {
   const normalized = String(value || "").trim().toLowerCase()
   if (!normalized) return "en-US"
@@ -548,6 +551,84 @@ export function mount(el: HTMLElement, opts: StudioMountOptions) {
     }
   }
 
+  function upsertById<T extends { id: number }>(rows: T[], row: T): T[] {
+    const index = rows.findIndex((item) => item.id === row.id)
+    if (index === -1) return [...rows, row]
+    return rows.map((item, idx) => (idx === index ? row : item))
+  }
+
+  // Patches session plans and the shown plan from one `planpilot.change` feed event. Returns false when
+  // the event cannot be applied locally, so the caller falls back to a refresh.
+  function applyChange(data: JsonValue): boolean {
+    const change = asObject(data)
+    const entityType = toStringValue(change.entityType)
+    const action = toStringValue(change.action)
+    if (entityType === "autocontinue" || !ROW_ACTIONS.has(action)) return true
+    const entityId = toNumber(change.entityId)
+    const detail = state.activePlanDetail
+
+    if (entityType === "plan") {
+      const plan = change.after ? parsePlan(change.after) : null
+      if (!plan) {
+        state.sessionPlans = state.sessionPlans.filter((item) => item.id !== entityId)
+        return detail?.plan.id !== entityId
+      }
+      state.sessionPlans =
+        plan.last_session_id === state.sessionId
+          ? upsertById(state.sessionPlans, plan).sort((a, b) => b.updated_at - a.updated_at || b.id - a.id)
+          : state.sessionPlans.filter((item) => item.id !== plan.id)
+      if (detail && detail.plan.id === plan.id) detail.plan = plan
+      return true
+    }
+
+    if (!detail || toNumber(change.planId) !== detail.plan.id) return true
+
+    if (entityType === "step") {
+      const step = change.after ? parseStep(change.after) : null
+      if (!step) {
+        detail.steps = detail.steps.filter((item) => item.id !== entityId)
+        detail.goals = detail.goals.filter((entry) => entry.stepId !== entityId)
+        return true
+      }
+      // Moves renumber sibling steps without an event per sibling, so a changed position reloads the plan.
+      const previous = detail.steps.find((item) => item.id === step.id)
+      if (action === "moved" || (previous && previous.sort_order !== step.sort_order)) return false
+      detail.steps = orderedSteps({ ...detail, steps: upsertById(detail.steps, step) })
+      return true
+    }
+
+    const goal = change.after ? parseGoal(change.after) : null
+    const stepId = goal?.step_id ?? toNumber(asObject(change.before).step_id)
+    if (!stepId) return false
+    const entry = detail.goals.find((item) => item.stepId === stepId)
+    const goals = entry?.goals ?? []
+    const next = goal ? upsertById(goals, goal) : goals.filter((item) => item.id !== entityId)
+    if (entry) entry.goals = next
+    else detail.goals.push({ stepId, goals: next })
+    return true
+  }
+
+  function handleEvent(evt: { type: string; data: JsonValue }) {
+    if (evt.type === "planpilot.change") {
+      if (applyChange(evt.data)) render()
+      else scheduleRefresh(90)
+      return
+    }
+    if (evt.type === "planpilot.runtime.changed") {
+      const runtime = parseRuntime(evt.data)
+      const shownPlanId = state.activePlanDetail?.plan.id ?? 0
+      state.runtime = runtime
+      // A newly activated plan replaces the shown one unless the user picked a plan to view.
+      if (state.viewedPlanId === 0 && (runtime?.activePlan?.plan_id ?? shownPlanId) !== shownPlanId) {
+        scheduleRefresh(90)
+      } else {
+        render()
+      }
+      return
+    }
+    scheduleRefresh(90)
+  }
+
   function scheduleRefresh(delayMs = 120) {
     if (refreshTimer) window.clearTimeout(refreshTimer)
     refreshTimer = window.setTimeout(() => {
@@ -930,7 +1011,7 @@ export function mount(el: HTMLElement, opts: StudioMountOptions) {
   function startEvents() {
     stopEvents?.()
     stopEvents = opts.host.subscribeEvents({
-      onEvent: () => scheduleRefresh(90),
+      onEvent: handleEvent,
       onError: () => {
         // Keep UI stable; host SSE will reconnect.
       },
@@ -1,19 +1,55 @@
+import fs from "fs"
 import { PlanpilotApp } from "../lib/app"
+import { parsePlanBudget, planBudgetStatus } from "../lib/budget"
 import { AppError, invalidInput } from "../lib/errors"
 import {
+  loadGlobalPlanpilotConfig,
   loadPlanpilotConfig,
   normalizePlanpilotConfig,
   savePlanpilotConfig,
   type PlanpilotConfig,
 } from "../lib/config"
 import { openDatabase } from "../lib/db"
-import { parseWaitFromComment } from "../lib/util"
+import { parsePlanMarkdown } from "../lib/markdown"
+import { previewAutoContinueMessage } from "../lib/message-template"
+import { RuntimeStateStore } from "../lib/runtime-state"
+import { DEFAULT_TRACE_LIMIT, RuntimeTraceStore, type RuntimeTraceRow } from "../lib/runtime-trace"
+import type { StallRecord } from "../lib/stall"
+import { parseGoalVerify, verifyGoalsByStep } from "../lib/verify"
+import { fireHooks } from "../lib/hooks"
+import {
+  formatPlanDocument,
+  inferPlanFileFormat,
+  parsePlanDocumentText,
+  parsePlanFileFormat,
+  planDetailToDocument,
+  planDocumentToTree,
+} from "../lib/document"
+import { formatPlanMarkdown } from "../lib/format"
+import {
+  listPlanTemplates,
+  loadPlanTemplate,
+  planDetailToTemplate,
+  renderPlanTemplate,
+  savePlanTemplate,
+  templateVariables,
+} from "../lib/templates"
+import {
+  DEFAULT_WAIT_TIMEOUT_MS,
+  parseWaitConditionSpec,
+  parseWaitTimeoutAction,
+  prepareWaitCondition,
+  stepWait,
+} from "../lib/wait"
 import type {
+  AutoRouting,
+  EventRow,
   GoalQuery,
   GoalStatus,
   PlanDetail,
   PlanOrder,
   PlanStatus,
+  PlanTreeInput,
   StepDetail,
   StepExecutor,
   StepOrder,
@@ -53,13 +89,23 @@ type BridgeRequestContext = {
   cwd?: string
 }
 
-type ActionHandler = (payload: unknown, context: BridgeRequestContext) => JsonValue
+type ActionHandler = (payload: unknown, context: BridgeRequestContext) => JsonValue | Promise<JsonValue>
 
 const DEFAULT_SESSION_ID = "studio"
 
-const PLAN_UPDATE_ALLOWED = new Set(["title", "content", "status", "comment"])
-const STEP_UPDATE_ALLOWED = new Set(["content", "status", "executor", "comment"])
-const GOAL_UPDATE_ALLOWED = new Set(["content", "status", "comment"])
+const PLAN_UPDATE_ALLOWED = new Set([
+  "title",
+  "content",
+  "status",
+  "comment",
+  "agent",
+  "model",
+  "variant",
+  "messageTemplate",
+])
+const STEP_UPDATE_ALLOWED = new Set(["content", "status", "executor", "comment", "childPlanId", "agent", "model", "variant"])
+const GOAL_UPDATE_ALLOWED = new Set(["content", "status", "comment", "verify"])
+const EVENT_FEED_PAGE_SIZE = 200
 
 async function main() {
   const response = await runBridge()
@@ -71,13 +117,32 @@ async function runBridge(): Promise<BridgeResponse> {
     const raw = await readStdinOnce()
     const request = parseRequest(raw)
     const context = resolveRequestContext(request)
-    const data = dispatch(request.action, request.payload, context)
-    return ok(data)
+    const app = createApp(context)
+    const hookCursor = app.latestEventId()
+    try {
+      const data = await dispatch(request.action, request.payload, context)
+      return ok(data)
+    } finally {
+      await fireBridgeHooks(app, hookCursor, context)
+    }
   } catch (error) {
     return fail(error)
   }
 }
 
+// Hook failures go to stderr; stdout carries only the response, which they never replace.
+async function fireBridgeHooks(app: PlanpilotApp, cursor: number, context: BridgeRequestContext) {
+  try {
+    if (app.latestEventId() === cursor) return
+    const results = await fireHooks(app, cursor, loadPlanpilotConfig(context.cwd).config.hooks, context)
+    results
+      .filter((result) => !result.ok)
+      .forEach((result) => process.stderr.write(`planpilot hook for ${result.event} failed (${result.target}): ${result.error}\n`))
+  } catch (error) {
+    process.stderr.write(`planpilot hooks failed: ${error instanceof Error ? error.message : String(error)}\n`)
+  }
+}
+
 function parseRequest(raw: string): BridgeRequest {
   if (!raw.trim()) {
     throw invalidInput("bridge request is empty")
@@ -118,7 +183,7 @@ function createApp(context: BridgeRequestContext): PlanpilotApp {
   return new PlanpilotApp(openDatabase(), context.sessionId, context.cwd)
 }
 
-function dispatch(action: string, payload: unknown, context: BridgeRequestContext): JsonValue {
+function dispatch(action: string, payload: unknown, context: BridgeRequestContext): JsonValue | Promise<JsonValue> {
   const handler = ACTIONS[action]
   if (!handler) {
     throw invalidInput(`unknown action: ${action}`)
@@ -131,12 +196,18 @@ const ACTIONS: Record<string, ActionHandler> = {
   "runtime.next": actionRuntimeNext,
   "runtime.pause": actionRuntimePause,
   "runtime.resume": actionRuntimeResume,
+  "runtime.trace": actionRuntimeTrace,
   "events.poll": actionEventsPoll,
   "config.get": actionConfigGet,
   "config.set": actionConfigSet,
+  "config.effective": actionConfigEffective,
   "plan.list": actionPlanList,
   "plan.get": actionPlanGet,
+  "plan.history": actionPlanHistory,
+  "plan.export": actionPlanExport,
+  "plan.import": actionPlanImport,
   "plan.createTree": actionPlanAddTree,
+  "plan.fromTemplate": actionPlanFromTemplate,
   "plan.addTree": actionPlanAddTree,
   "plan.update": actionPlanUpdate,
   "plan.done": actionPlanDone,
@@ -144,6 +215,15 @@ const ACTIONS: Record<string, ActionHandler> = {
   "plan.activate": actionPlanActivate,
   "plan.deactivate": actionPlanDeactivate,
   "plan.active": actionPlanActive,
+  "plan.budget": actionPlanBudget,
+  "prompt.preview": actionPromptPreview,
+  "queue.list": actionQueueList,
+  "queue.add": actionQueueAdd,
+  "queue.remove": actionQueueRemove,
+  "queue.reorder": actionQueueReorder,
+  "template.list": actionTemplateList,
+  "template.get": actionTemplateGet,
+  "template.save": actionTemplateSave,
   "step.list": actionStepList,
   "step.get": actionStepGet,
   "step.add": actionStepAdd,
@@ -158,12 +238,13 @@ const ACTIONS: Record<string, ActionHandler> = {
   "goal.add": actionGoalAdd,
   "goal.update": actionGoalUpdate,
   "goal.done": actionGoalDone,
+  "goal.verify": actionGoalVerify,
   "goal.remove": actionGoalRemove,
 }
 
 function actionRuntimeSnapshot(_payload: unknown, context: BridgeRequestContext): JsonValue {
   const app = createApp(context)
-  return buildRuntimeSnapshot(app, loadPlanpilotConfig().config)
+  return buildRuntimeSnapshot(app, loadPlanpilotConfig(context.cwd).config, context)
 }
 
 function actionRuntimeNext(_payload: unknown, context: BridgeRequestContext): JsonValue {
@@ -173,75 +254,99 @@ function actionRuntimeNext(_payload: unknown, context: BridgeRequestContext): Js
     return {
       activePlan: null,
       nextStep: null,
-      cursor: buildRuntimeCursor(app, loadPlanpilotConfig().config),
+      cursor: buildRuntimeCursor(app, loadPlanpilotConfig(context.cwd).config),
     }
   }
 
-  const nextStep = app.nextStep(active.plan_id)
   return {
     activePlan: active,
-    nextStep: nextStep ? serializeStepDetail(app.getStepDetail(nextStep.id)) : null,
-    cursor: buildRuntimeCursor(app, loadPlanpilotConfig().config),
+    nextStep: serializeNextStep(app, active.plan_id),
+    cursor: buildRuntimeCursor(app, loadPlanpilotConfig(context.cwd).config),
   }
 }
 
+// Pausing edits the global file only; a project or environment layer that sets `runtime.paused` still wins.
 function actionRuntimePause(_payload: unknown, context: BridgeRequestContext): JsonValue {
-  const loaded = loadPlanpilotConfig()
-  const config = normalizePlanpilotConfig(loaded.config)
+  const loaded = loadGlobalPlanpilotConfig()
+  const { config } = normalizePlanpilotConfig(loaded.config)
   config.runtime.paused = true
   savePlanpilotConfig(config)
   const app = createApp(context)
-  return buildRuntimeSnapshot(app, config)
+  return buildRuntimeSnapshot(app, loadPlanpilotConfig(context.cwd).config, context)
 }
 
 function actionRuntimeResume(_payload: unknown, context: BridgeRequestContext): JsonValue {
-  const loaded = loadPlanpilotConfig()
-  const config = normalizePlanpilotConfig(loaded.config)
+  const loaded = loadGlobalPlanpilotConfig()
+  const { config } = normalizePlanpilotConfig(loaded.config)
   config.runtime.paused = false
   savePlanpilotConfig(config)
   const app = createApp(context)
-  return buildRuntimeSnapshot(app, config)
+  return buildRuntimeSnapshot(app, loadPlanpilotConfig(context.cwd).config, context)
 }
 
+// Returns the change feed after `cursor`: one `planpilot.change` event per row of the events table
+// (see serializeChange), then a `planpilot.runtime.changed` snapshot when anything moved. A missing or
+// unreadable cursor starts the feed at the current position with just the snapshot.
 function actionEventsPoll(payload: unknown, context: BridgeRequestContext): JsonValue {
   const app = createApp(context)
-  const config = loadPlanpilotConfig().config
-  const currentCursor = buildRuntimeCursor(app, config)
+  const config = loadPlanpilotConfig(context.cwd).config
+  const paused = config.runtime.paused
 
   const input = asObjectOptional(payload)
-  const previousCursor = readNonEmptyString(input?.cursor) ?? ""
-  if (previousCursor === currentCursor) {
+  const previous = parseRuntimeCursor(readNonEmptyString(input?.cursor))
+  const latest = app.latestEventId()
+  if (!previous || previous.seq > latest) {
+    const cursor = formatRuntimeCursor(latest, paused)
     return {
-      cursor: currentCursor,
-      events: [],
+      cursor,
+      events: [{ event: "planpilot.runtime.changed", id: cursor, data: buildRuntimeSnapshot(app, config, context) }],
     }
   }
 
-  return {
-    cursor: currentCursor,
-    events: [
-      {
-        event: "planpilot.runtime.changed",
-        id: currentCursor,
-        data: buildRuntimeSnapshot(app, config),
-      },
-    ],
+  const rows = app.eventsSince(previous.seq, EVENT_FEED_PAGE_SIZE)
+  const cursor = formatRuntimeCursor(rows.length ? rows[rows.length - 1].id : previous.seq, paused)
+  const events: JsonValue[] = rows.map((row) => ({
+    event: "planpilot.change",
+    id: String(row.id),
+    data: serializeChange(row),
+  }))
+  if (rows.length || previous.paused !== paused) {
+    events.push({ event: "planpilot.runtime.changed", id: cursor, data: buildRuntimeSnapshot(app, config, context) })
   }
+  return { cursor, events }
 }
 
-function actionConfigGet(_payload: unknown, _context: BridgeRequestContext): JsonValue {
-  const loaded = loadPlanpilotConfig()
-  return loaded.config as unknown as JsonValue
+// The settings themselves, plus `diagnostics` for values that were replaced or ignored in any layer.
+function actionConfigGet(_payload: unknown, context: BridgeRequestContext): JsonValue {
+  const loaded = loadPlanpilotConfig(context.cwd)
+  return { ...loaded.config, diagnostics: loaded.diagnostics } as unknown as JsonValue
+}
+
+// The effective config for the request's directory, with the layers it was merged from and the layer
+// each setting came from.
+function actionConfigEffective(_payload: unknown, context: BridgeRequestContext): JsonValue {
+  const loaded = loadPlanpilotConfig(context.cwd)
+  return {
+    path: loaded.path,
+    projectPath: loaded.projectPath,
+    config: loaded.config as unknown as JsonValue,
+    layers: loaded.layers as unknown as JsonValue,
+    sources: loaded.sources,
+    diagnostics: loaded.diagnostics as unknown as JsonValue,
+  }
 }
 
 function actionConfigSet(payload: unknown, _context: BridgeRequestContext): JsonValue {
   const root = asObject(payload, "config.set payload")
   const raw = "config" in root ? root.config : payload
-  const normalized = normalizePlanpilotConfig(raw)
-  const saved = savePlanpilotConfig(normalized)
+  // A settings form may post back the `diagnostics` that config.get returned alongside the settings.
+  const { diagnostics: _diagnostics, ...settings } = asObject(raw, "config")
+  const normalized = normalizePlanpilotConfig(settings)
+  const saved = savePlanpilotConfig(normalized.config)
   return {
     path: saved.path,
     config: saved.config as unknown as JsonValue,
+    diagnostics: normalized.diagnostics as unknown as JsonValue,
   }
 }
 
@@ -261,6 +366,117 @@ function actionPlanGet(payload: unknown, context: BridgeRequestContext): JsonVal
   return serializePlanDetail(app.getPlanDetail(id))
 }
 
+// The latest auto-continue decisions for the request's session, oldest first; `all: true` reads every
+// session.
+function actionRuntimeTrace(payload: unknown, context: BridgeRequestContext): JsonValue {
+  const input = asObjectOptional(payload) ?? {}
+  const limit = parseIntOptional(input.limit) ?? DEFAULT_TRACE_LIMIT
+  if (limit < 1) {
+    throw invalidInput("limit must be >= 1")
+  }
+  const all = readBoolean(input.all) ?? false
+  const rows = new RuntimeTraceStore(openDatabase()).list(all ? null : context.sessionId, limit)
+  return {
+    sessionId: all ? null : context.sessionId,
+    records: rows.map(serializeTraceRow),
+  }
+}
+
+function actionPlanHistory(payload: unknown, context: BridgeRequestContext): JsonValue {
+  const app = createApp(context)
+  const input = asObject(payload, "plan.history payload")
+  const id = expectInt(input.id, "id")
+  const total = app.countPlanHistory(id)
+  const events = app.planHistory(id, {
+    limit: parseIntOptional(input.limit),
+    offset: parseIntOptional(input.offset),
+  })
+  return {
+    total,
+    events: events.map(serializeEvent),
+  }
+}
+
+function actionPlanExport(payload: unknown, context: BridgeRequestContext): JsonValue {
+  const app = createApp(context)
+  const input = asObject(payload, "plan.export payload")
+  const id = expectInt(input.id, "id")
+  const formatRaw = readString(input.format)
+  const format = formatRaw === undefined ? "json" : parsePlanFileFormat(formatRaw)
+  const detail = app.getPlanDetail(id)
+  if (format === "md") {
+    const active = app.getActivePlan()
+    const isActive = active?.plan_id === detail.plan.id
+    const activatedAt = isActive ? active?.updated_at ?? null : null
+    return {
+      format,
+      text: formatPlanMarkdown(isActive, activatedAt, detail.plan, detail.steps, detail.goals, detail.dependencies, detail.children),
+    }
+  }
+  const document = planDetailToDocument(detail)
+  return {
+    format,
+    text: formatPlanDocument(document, format),
+    document,
+  }
+}
+
+function actionPlanImport(payload: unknown, context: BridgeRequestContext): JsonValue {
+  const app = createApp(context)
+  const input = asObject(payload, "plan.import payload")
+  const formatRaw = readString(input.format)
+  let tree: PlanTreeInput
+  if (input.document !== undefined) {
+    tree = planDocumentToTree(input.document)
+  } else {
+    let text = readString(input.markdown) ?? readString(input.text)
+    let format = formatRaw === undefined ? undefined : parsePlanFileFormat(formatRaw)
+    if (text === undefined) {
+      const filePath = expectString(input.path, "path")
+      format = format ?? inferPlanFileFormat(filePath) ?? undefined
+      try {
+        text = fs.readFileSync(filePath, "utf8")
+      } catch (err) {
+        throw new AppError("Io", `failed to read ${filePath}: ${err instanceof Error ? err.message : String(err)}`)
+      }
+    } else if (input.markdown !== undefined) {
+      format = "md"
+    }
+    const resolved = format ?? "md"
+    tree = resolved === "md" ? parsePlanMarkdown(text) : parsePlanDocumentText(text, resolved)
+  }
+  const result = app.addPlanTree(tree, tree.steps)
+  return {
+    plan: result.plan,
+    stepCount: result.stepCount,
+    goalCount: result.goalCount,
+    detail: serializePlanDetail(app.getPlanDetail(result.plan.id)),
+  }
+}
+
+function actionPlanFromTemplate(payload: unknown, context: BridgeRequestContext): JsonValue {
+  const app = createApp(context)
+  const input = asObject(payload, "plan.fromTemplate payload")
+  const template = loadPlanTemplate(expectString(input.name, "name"))
+  const vars: Record<string, string> = {}
+  if (input.vars !== undefined) {
+    for (const [key, value] of Object.entries(asObject(input.vars, "vars"))) {
+      if (typeof value !== "string" && typeof value !== "number" && typeof value !== "boolean") {
+        throw invalidInput(`vars.${key} must be a string`)
+      }
+      vars[key] = String(value)
+    }
+  }
+  const tree = renderPlanTemplate(template, vars)
+  const result = app.addPlanTree(tree, tree.steps)
+  return {
+    plan: result.plan,
+    stepCount: result.stepCount,
+    goalCount: result.goalCount,
+    detail: serializePlanDetail(app.getPlanDetail(result.plan.id)),
+  }
+}
+
 function actionPlanAddTree(payload: unknown, context: BridgeRequestContext): JsonValue {
   const app = createApp(context)
   const input = asObject(payload, "plan.createTree payload")
@@ -273,10 +489,12 @@ function actionPlanAddTree(payload: unknown, context: BridgeRequestContext): Jso
       content: expectString(step.content, `steps[${index}].content`),
       executor: parseExecutorOptional(step.executor) ?? "ai",
       goals: readStringArray(step.goals),
+      after: readIntArray(step.after),
+      ...readRouting(step),
     }
   })
 
-  const result = app.addPlanTree({ title, content }, steps)
+  const result = app.addPlanTree({ title, content, ...readRouting(input) }, steps)
   return {
     plan: result.plan,
     stepCount: result.stepCount,
@@ -295,10 +513,13 @@ function actionPlanUpdate(payload: unknown, context: BridgeRequestContext): Json
     content: readString(input.content),
     status: parsePlanStatusOptional(input.status),
     comment: readNullableString(input.comment),
+    messageTemplate: readMessageTemplate(input.messageTemplate),
+    ...readRouting(input),
   })
   return {
     plan: result.plan,
     cleared: result.cleared,
+    promoted: result.promoted,
   }
 }
 
@@ -351,6 +572,103 @@ function actionPlanActive(_payload: unknown, context: BridgeRequestContext): Jso
   }
 }
 
+// Without `budget` in the payload this only reads; `budget: null` drops the plan's override.
+function actionPlanBudget(payload: unknown, context: BridgeRequestContext): JsonValue {
+  const app = createApp(context)
+  const input = asObject(payload, "plan.budget payload")
+  const id = expectInt(input.id, "id")
+  if ("budget" in input) {
+    app.setPlanBudget(id, input.budget === null ? null : parsePlanBudget(input.budget))
+  }
+  return {
+    planId: id,
+    override: app.getPlanBudget(id),
+    status: planBudgetStatus(app, id, loadPlanpilotConfig(context.cwd).config.autoContinue.budget),
+  }
+}
+
+function actionPromptPreview(_payload: unknown, context: BridgeRequestContext): JsonValue {
+  const app = createApp(context)
+  const preview = previewAutoContinueMessage(app, loadPlanpilotConfig(context.cwd).config.autoContinue.messageTemplate)
+  if (!preview.ok) {
+    return { planId: null, stepId: null, reason: preview.reason, message: null }
+  }
+  return {
+    planId: preview.planId,
+    stepId: preview.step.id,
+    executor: preview.step.executor,
+    reason: null,
+    message: preview.message,
+  }
+}
+
+function serializeQueue(app: PlanpilotApp): JsonValue {
+  return {
+    activePlan: app.getActivePlan(),
+    queue: app.listQueue().map((row) => ({ ...row, plan: app.getPlan(row.plan_id) })),
+  }
+}
+
+function actionQueueList(_payload: unknown, context: BridgeRequestContext): JsonValue {
+  return serializeQueue(createApp(context))
+}
+
+function actionQueueAdd(payload: unknown, context: BridgeRequestContext): JsonValue {
+  const app = createApp(context)
+  const input = asObject(payload, "queue.add payload")
+  const result = app.enqueuePlans(resolveIds(input))
+  return {
+    ...(serializeQueue(app) as object),
+    activated: result.activated,
+  }
+}
+
+function actionQueueRemove(payload: unknown, context: BridgeRequestContext): JsonValue {
+  const app = createApp(context)
+  const input = asObject(payload, "queue.remove payload")
+  app.dequeuePlans(resolveIds(input))
+  return serializeQueue(app)
+}
+
+function actionQueueReorder(payload: unknown, context: BridgeRequestContext): JsonValue {
+  const app = createApp(context)
+  const input = asObject(payload, "queue.reorder payload")
+  app.moveQueuedPlan(expectInt(input.id, "id"), expectInt(input.to, "to"))
+  return serializeQueue(app)
+}
+
+function actionTemplateList(_payload: unknown, _context: BridgeRequestContext): JsonValue {
+  return listPlanTemplates()
+}
+
+function actionTemplateGet(payload: unknown, _context: BridgeRequestContext): JsonValue {
+  const input = asObject(payload, "template.get payload")
+  const template = loadPlanTemplate(expectString(input.name, "name"))
+  return {
+    ...template,
+    variables: templateVariables(template),
+  }
+}
+
+function actionTemplateSave(payload: unknown, context: BridgeRequestContext): JsonValue {
+  const app = createApp(context)
+  const input = asObject(payload, "template.save payload")
+  const planId = expectInt(input.planId, "planId")
+  const template = planDetailToTemplate(
+    expectString(input.name, "name"),
+    app.getPlanDetail(planId),
+    readString(input.description),
+  )
+  const path = savePlanTemplate(template, readBoolean(input.overwrite) ?? false)
+  return {
+    path,
+    template: {
+      ...template,
+      variables: templateVariables(template),
+    },
+  }
+}
+
 function actionStepList(payload: unknown, context: BridgeRequestContext): JsonValue {
   const app = createApp(context)
   const input = asObject(payload, "step.list payload")
@@ -381,7 +699,8 @@ function actionStepAdd(payload: unknown, context: BridgeRequestContext): JsonVal
   const contents = resolveContents(input, "content", "contents")
   const executor = parseExecutorOptional(input.executor) ?? "ai"
   const at = parseIntOptional(input.at)
-  const result = app.addStepsBatch(planId, contents, "todo", executor, at)
+  const after = readIntArray(input.after)
+  const result = app.addStepsBatch(planId, contents, "todo", executor, at, after, readRouting(input))
   return {
     steps: result.steps,
     changes: result.changes,
@@ -395,7 +714,8 @@ function actionStepAddTree(payload: unknown, context: BridgeRequestContext): Jso
   const content = expectString(input.content, "content")
   const executor = parseExecutorOptional(input.executor) ?? "ai"
   const goals = readStringArray(input.goals)
-  return app.addStepTree(planId, content, executor, goals) as unknown as JsonValue
+  const after = readIntArray(input.after)
+  return app.addStepTree(planId, content, executor, goals, after, readRouting(input)) as unknown as JsonValue
 }
 
 function actionStepUpdate(payload: unknown, context: BridgeRequestContext): JsonValue {
@@ -408,6 +728,8 @@ function actionStepUpdate(payload: unknown, context: BridgeRequestContext): Json
     status: parseStepStatusOptional(input.status),
     executor: parseExecutorOptional(input.executor),
     comment: readNullableString(input.comment),
+    childPlanId: input.childPlanId === null ? null : parseIntOptional(input.childPlanId),
+    ...readRouting(input),
   }) as unknown as JsonValue
 }
 
@@ -434,7 +756,9 @@ function actionStepMove(payload: unknown, context: BridgeRequestContext): JsonVa
   return app.moveStep(id, to) as unknown as JsonValue
 }
 
-function actionStepWait(payload: unknown, context: BridgeRequestContext): JsonValue {
+// `condition` (`{ kind, target, onTimeout? }`) waits for it until `timeoutMs`; otherwise `delayMs` is a
+// plain delay.
+async function actionStepWait(payload: unknown, context: BridgeRequestContext): Promise<JsonValue> {
   const app = createApp(context)
   const input = asObject(payload, "step.wait payload")
   const id = expectInt(input.id, "id")
@@ -443,8 +767,22 @@ function actionStepWait(payload: unknown, context: BridgeRequestContext): JsonVa
     return app.clearStepWait(id) as unknown as JsonValue
   }
 
-  const delayMs = expectInt(input.delayMs, "delayMs")
   const reason = readString(input.reason)
+  if (input.condition !== undefined && input.condition !== null) {
+    const raw = asObject(input.condition, "condition")
+    const onTimeout = readString(raw.onTimeout)
+    const condition = await prepareWaitCondition(
+      {
+        ...parseWaitConditionSpec(`${expectString(raw.kind, "condition.kind")}:${expectString(raw.target, "condition.target")}`),
+        onTimeout: onTimeout !== undefined ? parseWaitTimeoutAction(onTimeout) : undefined,
+      },
+      context.cwd,
+    )
+    const timeoutMs = parseIntOptional(input.timeoutMs) ?? DEFAULT_WAIT_TIMEOUT_MS
+    return app.setStepWait(id, timeoutMs, reason, condition) as unknown as JsonValue
+  }
+
+  const delayMs = expectInt(input.delayMs, "delayMs")
   return app.setStepWait(id, delayMs, reason) as unknown as JsonValue
 }
 
@@ -472,7 +810,8 @@ function actionGoalAdd(payload: unknown, context: BridgeRequestContext): JsonVal
   const input = asObject(payload, "goal.add payload")
   const stepId = expectInt(input.stepId, "stepId")
   const contents = resolveContents(input, "content", "contents")
-  return app.addGoalsBatch(stepId, contents, "todo") as unknown as JsonValue
+  const verify = input.verify === undefined || input.verify === null ? undefined : parseGoalVerify(input.verify)
+  return app.addGoalsBatch(stepId, contents, "todo", verify) as unknown as JsonValue
 }
 
 function actionGoalUpdate(payload: unknown, context: BridgeRequestContext): JsonValue {
@@ -484,6 +823,7 @@ function actionGoalUpdate(payload: unknown, context: BridgeRequestContext): Json
     content: readString(input.content),
     status: parseGoalStatusOptional(input.status),
     comment: readNullableString(input.comment),
+    verify: input.verify === undefined || input.verify === null ? input.verify : parseGoalVerify(input.verify),
   }) as unknown as JsonValue
 }
 
@@ -497,6 +837,23 @@ function actionGoalDone(payload: unknown, context: BridgeRequestContext): JsonVa
   return app.setGoalsStatus(ids, "done") as unknown as JsonValue
 }
 
+// Runs the verify commands of `id`/`ids`, or of every goal with one under `stepId`, in each plan's last
+// working directory.
+async function actionGoalVerify(payload: unknown, context: BridgeRequestContext): Promise<JsonValue> {
+  const app = createApp(context)
+  const input = asObject(payload, "goal.verify payload")
+  const stepId = parseIntOptional(input.stepId)
+  const goals =
+    stepId !== undefined
+      ? app.goalsForStep(stepId).filter((goal) => goal.verify_command)
+      : resolveIds(input).map((id) => app.getGoal(id))
+  const missing = goals.filter((goal) => !goal.verify_command)
+  if (missing.length) {
+    throw invalidInput(`goal(s) without a verify command: ${missing.map((goal) => goal.id).join(", ")}`)
+  }
+  return (await verifyGoalsByStep(app, goals, context.cwd)) as unknown as JsonValue
+}
+
 function actionGoalRemove(payload: unknown, context: BridgeRequestContext): JsonValue {
   const app = createApp(context)
   const input = asObject(payload, "goal.remove payload")
@@ -571,27 +928,42 @@ function assertAllowedKeys(input: Record<string, unknown>, allowed: Set<string>,
   }
 }
 
-function buildRuntimeSnapshot(app: PlanpilotApp, config: PlanpilotConfig): JsonValue {
+// `stall` is the last stall auto-continue detected in this session (see lib/stall.ts), or null.
+function buildRuntimeSnapshot(app: PlanpilotApp, config: PlanpilotConfig, context: BridgeRequestContext): JsonValue {
   const active = app.getActivePlan()
-  const next = active ? app.nextStep(active.plan_id) : null
   return {
     paused: config.runtime.paused,
     activePlan: active,
-    nextStep: next ? serializeStepDetail(app.getStepDetail(next.id)) : null,
+    nextStep: active ? serializeNextStep(app, active.plan_id) : null,
+    stall: new RuntimeStateStore(openDatabase()).get<StallRecord>(context.sessionId, "stall"),
+    budget: active ? planBudgetStatus(app, active.plan_id, config.autoContinue.budget) : null,
     cursor: buildRuntimeCursor(app, config),
   }
 }
 
+// The next step to work on, following child plans; `parentSteps` lists the nesting steps, outermost first.
+function serializeNextStep(app: PlanpilotApp, planId: number): JsonValue {
+  const next = app.nextLeafStep(planId)
+  if (!next) return null
+  return {
+    ...(serializeStepDetail(app.getStepDetail(next.step.id)) as object),
+    parentSteps: next.parents,
+  }
+}
+
+// `<last event id>:<paused>`. Event ids are the feed's sequence numbers; pausing is config, not an event.
 function buildRuntimeCursor(app: PlanpilotApp, config: PlanpilotConfig): string {
-  const plans = app.listPlans("updated", true)
-  const latestPlanUpdated = plans.length ? plans[0].updated_at : 0
-  const active = app.getActivePlan()
-  const activeUpdated = active?.updated_at ?? 0
-  const activePlanId = active?.plan_id ?? 0
-  const next = active ? app.nextStep(active.plan_id) : null
-  const nextStepId = next?.id ?? 0
-  const paused = config.runtime.paused ? 1 : 0
-  return [paused, latestPlanUpdated, activeUpdated, activePlanId, nextStepId].join(":")
+  return formatRuntimeCursor(app.latestEventId(), config.runtime.paused)
+}
+
+function formatRuntimeCursor(seq: number, paused: boolean): string {
+  return `${seq}:${paused ? 1 : 0}`
+}
+
+function parseRuntimeCursor(value: string | null | undefined): { seq: number; paused: boolean } | null {
+  const match = value ? /^(\d+):([01])$/.exec(value) : null
+  if (!match) return null
+  return { seq: Number(match[1]), paused: match[2] === "1" }
 }
 
 function serializePlanDetail(detail: PlanDetail): JsonValue {
@@ -599,22 +971,81 @@ function serializePlanDetail(detail: PlanDetail): JsonValue {
     stepId: step.id,
     goals: detail.goals.get(step.id) ?? [],
   }))
+  const dependencies = detail.steps.map((step) => ({
+    stepId: step.id,
+    dependsOn: detail.dependencies.get(step.id) ?? [],
+  }))
+  const children = Array.from(detail.children, ([stepId, child]) => ({
+    stepId,
+    detail: serializePlanDetail(child),
+  }))
   return {
     plan: detail.plan,
     steps: detail.steps,
     goals,
+    dependencies,
+    children,
   }
 }
 
 function serializeStepDetail(detail: StepDetail): JsonValue {
-  const wait = parseWaitFromComment(detail.step.comment)
+  const wait = stepWait(detail.step)
   return {
     step: detail.step,
     goals: detail.goals,
+    dependsOn: detail.dependsOn,
     wait,
   }
 }
 
+function serializeEvent(event: EventRow): JsonValue {
+  const parse = (json: string | null): JsonValue => (json ? (JSON.parse(json) as JsonValue) : null)
+  return {
+    id: event.id,
+    planId: event.plan_id,
+    entityType: event.entity_type,
+    entityId: event.entity_id,
+    action: event.action,
+    before: parse(event.before_json),
+    after: parse(event.after_json),
+    sessionId: event.session_id,
+    cwd: event.cwd,
+    createdAt: event.created_at,
+  }
+}
+
+function serializeTraceRow(row: RuntimeTraceRow): JsonValue {
+  return {
+    id: row.id,
+    sessionId: row.session_id,
+    source: row.source,
+    run: row.run,
+    trigger: row.trigger_source,
+    outcome: row.outcome,
+    reason: row.reason,
+    planId: row.plan_id,
+    stepId: row.step_id,
+    detail: row.detail_json ? (JSON.parse(row.detail_json) as JsonValue) : null,
+    repeats: row.repeats,
+    createdAt: row.created_at,
+  }
+}
+
+// A feed entry: the history event plus its sequence number and a type such as `step.updated`,
+// `goal.status_changed`, `plan.activated` or `autocontinue.sent`.
+function serializeChange(event: EventRow): JsonValue {
+  const data = serializeEvent(event) as Record<string, JsonValue>
+  const before = data.before as Record<string, JsonValue> | null
+  const after = data.after as Record<string, JsonValue> | null
+  const statusChanged =
+    (event.action === "updated" || event.action === "rollup") && before && after && before.status !== after.status
+  return {
+    seq: event.id,
+    type: `${event.entity_type}.${statusChanged ? "status_changed" : event.action}`,
+    ...data,
+  }
+}
+
 function ok(data: JsonValue): BridgeSuccess {
   return { ok: true, data }
 }
@@ -685,6 +1116,29 @@ function readNullableString(value: unknown): string | undefined {
   return readString(value)
 }
 
+// `agent`, `model` and `variant`; null clears a field, a missing key leaves it alone.
+function readRouting(input: Record<string, unknown>): AutoRouting {
+  const routing: AutoRouting = {}
+  for (const field of ["agent", "model", "variant"] as const) {
+    const value = input[field]
+    if (value === undefined) continue
+    if (value !== null && typeof value !== "string") {
+      throw invalidInput(`${field} must be a string or null`)
+    }
+    routing[field] = value
+  }
+  return routing
+}
+
+// Null or blank clears the plan's template; a missing key leaves it alone.
+function readMessageTemplate(value: unknown): string | null | undefined {
+  if (value === undefined || value === null) return value
+  if (typeof value !== "string") {
+    throw invalidInput("messageTemplate must be a string or null")
+  }
+  return value
+}
+
 function readNonEmptyString(value: unknown): string | undefined {
   return readString(value)
 }
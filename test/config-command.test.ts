@@ -0,0 +1,83 @@
+import { afterEach, describe, expect, test } from "bun:test"
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from "node:fs"
+import path from "node:path"
+import { normalizePlanpilotConfig } from "../src/lib/config"
+import { CONFIG_PATH, PLANPILOT_DIR, cli, startPlugin, type RunningPlugin } from "./support"
+
+afterEach(() => {
+  rmSync(CONFIG_PATH, { force: true })
+})
+
+function readConfigFile() {
+  return JSON.parse(readFileSync(CONFIG_PATH, "utf8"))
+}
+
+// Runs a command the way an agent does, through the plugin's tool.
+async function planpilotTool(plugin: RunningPlugin, ...argv: string[]): Promise<string> {
+  const abort = new AbortController().signal
+  return plugin.hooks.tool!.planpilot.execute({ argv }, { sessionID: "ses_config_tool", messageID: "msg_tool", agent: "build", abort })
+}
+
+describe("config commands", () => {
+  test("set, unset and reset edit the global file, and invalid values are not written", async () => {
+    expect(await cli(["config", "show"])).toContain(`Config file: ${CONFIG_PATH} (not found, using defaults)`)
+
+    expect(await cli(["config", "set", "autoContinue.stall.threshold", "7"])).toBe(
+      `Set autoContinue.stall.threshold in ${CONFIG_PATH}: 7`,
+    )
+    expect(readConfigFile().autoContinue.stall.threshold).toBe(7)
+    expect(await cli(["config", "get", "autoContinue.stall.threshold"])).toBe("autoContinue.stall.threshold: 7 (global)")
+
+    const before = readFileSync(CONFIG_PATH, "utf8")
+    await expect(cli(["config", "set", "autoContinue.stall.threshold", "lots"])).rejects.toThrow(
+      "invalid value for autoContinue.stall.threshold:",
+    )
+    expect(readFileSync(CONFIG_PATH, "utf8")).toBe(before)
+
+    await cli(["config", "set", "autoContinue.sendRetry.delaysMs", "[1000, 2000]"])
+    expect(await cli(["config", "unset", "autoContinue.stall.threshold"])).toBe(
+      `Reset autoContinue.stall.threshold in ${CONFIG_PATH}: 5`,
+    )
+    expect(readConfigFile().autoContinue.stall.threshold).toBe(5)
+    expect(readConfigFile().autoContinue.sendRetry.delaysMs).toEqual([1000, 2000])
+
+    expect(await cli(["config", "reset"])).toBe(`Reset ${CONFIG_PATH} to the defaults.`)
+    expect(readConfigFile()).toEqual(normalizePlanpilotConfig({}).config)
+  })
+
+  test("set and reset note a project config file that still applies", async () => {
+    const project = path.join(PLANPILOT_DIR, "config-project")
+    mkdirSync(project, { recursive: true })
+    const projectPath = path.join(project, ".planpilot.json")
+    writeFileSync(projectPath, JSON.stringify({ autoContinue: { stall: { threshold: 9 } } }))
+
+    expect(await cli(["config", "set", "autoContinue.stall", '{"threshold": 7}'], { cwd: project })).toBe(
+      [
+        `Set autoContinue.stall in ${CONFIG_PATH}: {"enabled":true,"threshold":7,"action":"hold"}`,
+        "Note: the project layer overrides autoContinue.stall.threshold.",
+      ].join("\n"),
+    )
+    expect(await cli(["config", "get", "autoContinue.stall.threshold"], { cwd: project })).toBe(
+      "autoContinue.stall.threshold: 9 (project)",
+    )
+    expect(await cli(["config", "reset"], { cwd: project })).toBe(
+      [`Reset ${CONFIG_PATH} to the defaults.`, `Note: ${projectPath} still applies on top.`].join("\n"),
+    )
+  })
+
+  test("the tool refuses config changes unless runtime.allowAgentConfigChanges is on", async () => {
+    const refusing = await startPlugin()
+    expect(await planpilotTool(refusing, "config", "set", "autoContinue.stall.threshold", "7")).toContain(
+      "config changes through this tool are off; set runtime.allowAgentConfigChanges to allow them",
+    )
+    expect(await planpilotTool(refusing, "config", "reset")).toContain("config changes through this tool are off")
+    expect(existsSync(CONFIG_PATH)).toBe(false)
+
+    writeFileSync(CONFIG_PATH, JSON.stringify({ runtime: { allowAgentConfigChanges: true } }))
+    const allowing = await startPlugin()
+    expect(await planpilotTool(allowing, "config", "set", "autoContinue.stall.threshold", "7")).toContain(
+      `Set autoContinue.stall.threshold in ${CONFIG_PATH}: 7`,
+    )
+    expect(readConfigFile().autoContinue.stall.threshold).toBe(7)
+  })
+})
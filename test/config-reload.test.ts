@@ -0,0 +1,103 @@
+import { afterEach, describe, expect, test } from "bun:test"
+import { mkdirSync, rmSync, writeFileSync } from "node:fs"
+import path from "node:path"
+import { PROJECT_CONFIG_FILE, diffPlanpilotConfig, normalizePlanpilotConfig } from "../src/lib/config"
+import {
+  CONFIG_PATH,
+  PLANPILOT_DIR,
+  activePlan,
+  emit,
+  startPlugin,
+  userMessage,
+  type LogEntry,
+  type RunningPlugin,
+} from "./support"
+
+afterEach(() => {
+  rmSync(CONFIG_PATH, { force: true })
+})
+
+// Waits for the plugin to log `message` for the `count`th time, as it does once the watcher has fired.
+async function waitForLog(plugin: RunningPlugin, message: string, count = 1): Promise<LogEntry> {
+  const deadline = Date.now() + 4000
+  for (;;) {
+    const found = plugin.session.logs.filter((entry) => entry.message === message)
+    if (found.length >= count) return found[count - 1]
+    if (Date.now() > deadline) throw new Error(`no "${message}" log after 4s`)
+    await Bun.sleep(25)
+  }
+}
+
+describe("config reload", () => {
+  test("diffPlanpilotConfig lists the dotted keys whose values differ", () => {
+    const before = normalizePlanpilotConfig({}).config
+    const after = normalizePlanpilotConfig({
+      autoContinue: { sendRetry: { delaysMs: [1000] }, stall: { threshold: 3 } },
+      runtime: { paused: true },
+    }).config
+    expect(diffPlanpilotConfig(before, after)).toEqual([
+      "autoContinue.sendRetry.delaysMs",
+      "autoContinue.stall.threshold",
+      "runtime.paused",
+    ])
+    expect(diffPlanpilotConfig(after, normalizePlanpilotConfig(JSON.parse(JSON.stringify(after))).config)).toEqual([])
+  })
+
+  test("the plugin picks up config file edits and keeps its config when the file fails to parse", async () => {
+    writeFileSync(CONFIG_PATH, JSON.stringify({ autoContinue: { stall: { threshold: 4 } } }))
+    const plugin = await startPlugin()
+
+    writeFileSync(CONFIG_PATH, JSON.stringify({ autoContinue: { stall: { threshold: 6 } }, runtime: { paused: true } }))
+    const reloaded = await waitForLog(plugin, "planpilot config reloaded")
+    expect(reloaded.extra?.changed).toEqual(["autoContinue.stall.threshold", "runtime.paused"])
+
+    writeFileSync(CONFIG_PATH, "{ not json")
+    await waitForLog(plugin, "planpilot config reload failed, keeping the current config")
+
+    // The next good edit is compared with the config kept through the failure, not with the broken file.
+    writeFileSync(CONFIG_PATH, JSON.stringify({ autoContinue: { stall: { threshold: 6 } } }))
+    const next = await waitForLog(plugin, "planpilot config reloaded", 2)
+    expect(next.extra?.changed).toEqual(["runtime.paused"])
+  })
+
+  test("a reload that changes the retry delays reschedules pending send retries", async () => {
+    writeFileSync(CONFIG_PATH, JSON.stringify({ autoContinue: { sendRetry: { delaysMs: [60000] } } }))
+    const sessionID = "ses_reload_retry"
+    await activePlan(sessionID, ["Build"])
+    const plugin = await startPlugin(async () => {
+      if (plugin.session.prompts.length === 1) throw new Error("connection reset")
+    })
+    const info = userMessage(sessionID, "msg_human")
+    plugin.session.messages.push({ info, parts: [] })
+    await emit(plugin, { type: "message.updated", properties: { info } })
+    await emit(plugin, { type: "session.idle", properties: { sessionID } })
+    expect((await waitForLog(plugin, "send retry scheduled")).extra?.delayMs).toBe(60000)
+
+    writeFileSync(CONFIG_PATH, JSON.stringify({ autoContinue: { sendRetry: { delaysMs: [50] } } }))
+    const reloaded = await waitForLog(plugin, "planpilot config reloaded")
+    expect(reloaded.extra?.sendRetriesRescheduled).toEqual([sessionID])
+    await waitForLog(plugin, "auto-continue prompt_async accepted")
+    expect(plugin.session.prompts).toHaveLength(2)
+  })
+
+  test("a project file created nearer the directory takes over, and disposing the instance stops watching", async () => {
+    const outer = path.join(PLANPILOT_DIR, "reload-outer")
+    const inner = path.join(outer, "inner")
+    mkdirSync(inner, { recursive: true })
+    try {
+      writeFileSync(path.join(outer, PROJECT_CONFIG_FILE), JSON.stringify({ autoContinue: { stall: { threshold: 4 } } }))
+      const plugin = await startPlugin(undefined, inner)
+
+      writeFileSync(path.join(inner, PROJECT_CONFIG_FILE), JSON.stringify({ autoContinue: { stall: { threshold: 6 } } }))
+      const reloaded = await waitForLog(plugin, "planpilot config reloaded")
+      expect(reloaded.extra?.changed).toEqual(["autoContinue.stall.threshold"])
+
+      await emit(plugin, { type: "server.instance.disposed", properties: { directory: inner } })
+      writeFileSync(path.join(inner, PROJECT_CONFIG_FILE), JSON.stringify({ autoContinue: { stall: { threshold: 8 } } }))
+      await Bun.sleep(1500)
+      expect(plugin.session.logs.filter((entry) => entry.message === "planpilot config reloaded")).toHaveLength(1)
+    } finally {
+      rmSync(outer, { recursive: true, force: true })
+    }
+  })
+})
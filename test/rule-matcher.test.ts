@@ -0,0 +1,82 @@
+import { describe, expect, test } from "bun:test"
+import { evaluateRuleMatcher, formatMatchCaptures, type RuleMatcher } from "../src/lib/rule-matcher"
+
+describe("evaluateRuleMatcher", () => {
+  test("tells a retryable overload from an auth error with the same message text", () => {
+    const text = "Request failed: provider returned an error, please check your account"
+    const overload = { text, "error.name": "APIError", statusCode: 529, retryable: true }
+    const auth = { text, "error.name": "APIError", statusCode: 401, retryable: false }
+    const matcher: RuleMatcher = {
+      and: [
+        { field: "error.name", equals: "APIError" },
+        { or: [{ field: "statusCode", equals: 529 }, { field: "statusCode", min: 500, max: 503 }] },
+        { not: { field: "retryable", equals: false } },
+      ],
+    }
+
+    expect(evaluateRuleMatcher(matcher, overload).matched).toBe(true)
+    expect(evaluateRuleMatcher(matcher, auth).matched).toBe(false)
+    expect(evaluateRuleMatcher({ field: "text", regex: "provider returned an error" }, auth).matched).toBe(true)
+  })
+
+  test("and needs every child, or needs one and not inverts", () => {
+    const subject = { statusCode: 429, message: "rate limited" }
+    const limited = { field: "statusCode", equals: 429 } as const
+    const overloaded = { field: "statusCode", equals: 529 } as const
+
+    expect(evaluateRuleMatcher({ and: [limited, { field: "message", regex: "rate" }] }, subject).matched).toBe(true)
+    expect(evaluateRuleMatcher({ and: [limited, overloaded] }, subject).matched).toBe(false)
+    expect(evaluateRuleMatcher({ or: [overloaded, limited] }, subject).matched).toBe(true)
+    expect(evaluateRuleMatcher({ or: [overloaded] }, subject).matched).toBe(false)
+    expect(evaluateRuleMatcher({ not: overloaded }, subject).matched).toBe(true)
+    expect(evaluateRuleMatcher({ not: { not: overloaded } }, subject).matched).toBe(false)
+    // A field the event does not have never matches, so `not` of it does.
+    expect(evaluateRuleMatcher({ field: "permission", regex: "." }, subject).matched).toBe(false)
+    expect(evaluateRuleMatcher({ not: { field: "permission", regex: "." } }, subject).matched).toBe(true)
+  })
+
+  test("an array field matches when any item does", () => {
+    const subject = { permission: "bash", patterns: ["git status", "rm -rf build"] }
+
+    expect(evaluateRuleMatcher({ field: "patterns", regex: "^rm " }, subject)).toEqual({ matched: true, captures: {} })
+    expect(evaluateRuleMatcher({ field: "patterns", equals: "git status" }, subject).matched).toBe(true)
+    expect(evaluateRuleMatcher({ field: "patterns", regex: "^sudo " }, subject).matched).toBe(false)
+    expect(evaluateRuleMatcher({ field: "patterns", regex: "." }, { patterns: [] }).matched).toBe(false)
+  })
+
+  test("min and max only match numbers, inclusively", () => {
+    const range = { field: "statusCode", min: 500, max: 599 } as const
+
+    expect(evaluateRuleMatcher(range, { statusCode: 500 }).matched).toBe(true)
+    expect(evaluateRuleMatcher(range, { statusCode: 599 }).matched).toBe(true)
+    expect(evaluateRuleMatcher(range, { statusCode: 600 }).matched).toBe(false)
+    expect(evaluateRuleMatcher(range, { statusCode: "529" } as any).matched).toBe(false)
+    expect(evaluateRuleMatcher({ field: "attempt", min: 3 }, { attempt: 7 }).matched).toBe(true)
+    expect(evaluateRuleMatcher({ field: "message", max: 10 }, { message: "5" }).matched).toBe(false)
+  })
+
+  test("named captures from matching regexes are merged", () => {
+    const subject = { message: "Overloaded: retry in 30s", "question.header": "Deploy to staging?" }
+    const matcher: RuleMatcher = {
+      and: [
+        { field: "message", regex: "retry in (?<seconds>\\d+)s" },
+        { field: "question.header", regex: "^deploy to (?<target>\\w+)", flags: "i" },
+        { or: [{ field: "message", regex: "(?<kind>Overloaded|Unavailable)" }] },
+        { not: { field: "message", regex: "(?<never>auth)" } },
+      ],
+    }
+
+    const result = evaluateRuleMatcher(matcher, subject)
+    expect(result).toEqual({ matched: true, captures: { seconds: "30", target: "staging", kind: "Overloaded" } })
+    expect(formatMatchCaptures(result.captures)).toEqual(["seconds=30", "target=staging", "kind=Overloaded"])
+    // Optional groups that did not take part are left out, and a failed match reports none.
+    expect(evaluateRuleMatcher({ field: "message", regex: "(?<code>\\d{3})?Overloaded" }, subject)).toEqual({
+      matched: true,
+      captures: {},
+    })
+    expect(evaluateRuleMatcher({ and: [matcher, { field: "statusCode", equals: 529 }] }, subject)).toEqual({
+      matched: false,
+      captures: {},
+    })
+  })
+})
@@ -0,0 +1,69 @@
+import { Database } from "bun:sqlite"
+import { describe, expect, test } from "bun:test"
+import path from "node:path"
+import { openDatabase, resolveDbPath } from "../src/lib/db"
+import { RuntimeStateStore, SessionStateMap } from "../src/lib/runtime-state"
+import { PLANPILOT_DIR, startPlugin } from "./support"
+
+type ManualStop = { at: number; reason: string }
+
+describe("runtime state", () => {
+  test("state written through one connection reads back through a fresh one", () => {
+    const errors: unknown[] = []
+    const written = new SessionStateMap<ManualStop>(new RuntimeStateStore(openDatabase()), "manual_stop", (err) =>
+      errors.push(err),
+    )
+    written.set("ses_state_a", { at: 1, reason: "stopped" })
+    written.set("ses_state_b", { at: 2, reason: "aborted" })
+    written.delete("ses_state_b")
+
+    const fresh = new Database(resolveDbPath())
+    try {
+      const store = new RuntimeStateStore(fresh)
+      const stops = () => store.entries<ManualStop>("manual_stop").filter(([sessionId]) => sessionId.startsWith("ses_state_"))
+      expect(stops()).toEqual([["ses_state_a", { at: 1, reason: "stopped" }]])
+      const read = new SessionStateMap<ManualStop>(store, "manual_stop", (err) => errors.push(err))
+      expect(read.get("ses_state_a")).toEqual({ at: 1, reason: "stopped" })
+      expect(read.has("ses_state_b")).toBe(false)
+
+      // A row that no longer parses is dropped instead of hiding the others.
+      fresh
+        .prepare("UPDATE runtime_state SET value_json = ? WHERE session_id = ? AND key = ?")
+        .run("{", "ses_state_a", "manual_stop")
+      expect(stops()).toEqual([])
+      expect(new SessionStateMap<ManualStop>(store, "manual_stop", (err) => errors.push(err)).has("ses_state_a")).toBe(false)
+    } finally {
+      fresh.close()
+    }
+    expect(errors).toEqual([])
+  })
+
+  test("a restarted plugin restores waits and send retries for its own directory only", async () => {
+    const store = new RuntimeStateStore(openDatabase())
+    const until = Date.now() + 3600000
+    const elsewhere = path.join(PLANPILOT_DIR, "other-project")
+    store.set("ses_restore_here", "wait", { planId: 1, stepId: 1, until, directory: PLANPILOT_DIR })
+    store.set("ses_restore_there", "wait", { planId: 2, stepId: 2, until, directory: elsewhere })
+    const retry = (directory: string) => ({
+      signature: "sig",
+      attempt: 1,
+      pending: { at: until, source: "session.idle", force: false, directory },
+    })
+    store.set("ses_restore_here", "send_retry", retry(PLANPILOT_DIR))
+    store.set("ses_restore_there", "send_retry", retry(elsewhere))
+    try {
+      const plugin = await startPlugin()
+      const restored = plugin.session.logs.find((entry) => entry.message === "auto-continue state restored")
+      expect(restored?.extra).toEqual({
+        directory: PLANPILOT_DIR,
+        waits: [{ sessionID: "ses_restore_here", planId: 1, stepId: 1, until }],
+        sendRetries: ["ses_restore_here"],
+      })
+    } finally {
+      for (const sessionId of ["ses_restore_here", "ses_restore_there"]) {
+        store.delete(sessionId, "wait")
+        store.delete(sessionId, "send_retry")
+      }
+    }
+  })
+})
@@ -0,0 +1,79 @@
+import { afterEach, describe, expect, setSystemTime, test } from "bun:test"
+import { rmSync, writeFileSync } from "node:fs"
+import {
+  CONFIG_PATH,
+  PLANPILOT_DIR,
+  activePlan,
+  emit,
+  startPlugin,
+  userMessage,
+  type MessageInfo,
+  type RunningPlugin,
+} from "./support"
+
+afterEach(() => {
+  setSystemTime()
+  rmSync(CONFIG_PATH, { force: true })
+})
+
+function assistantReply(sessionID: string, id: string, created: number): MessageInfo {
+  return {
+    id,
+    sessionID,
+    role: "assistant",
+    parentID: "",
+    modelID: "test",
+    providerID: "test",
+    mode: "build",
+    path: { cwd: PLANPILOT_DIR, root: PLANPILOT_DIR },
+    cost: 0,
+    tokens: { input: 0, output: 0, reasoning: 0, cache: { read: 0, write: 0 } },
+    finish: "stop",
+    time: { created },
+  }
+}
+
+describe("stall detection", () => {
+  test("auto-continue's own prompts do not reset it", async () => {
+    writeFileSync(CONFIG_PATH, JSON.stringify({ autoContinue: { stall: { threshold: 2, action: "hold" } } }))
+    const sessionID = "ses_stall"
+    const app = await activePlan(sessionID, ["Build"])
+    let now = Date.now()
+
+    const ownMessages: MessageInfo[] = []
+    const plugin: RunningPlugin = await startPlugin(async () => {
+      // OpenCode reports the prompt as a new user message, and reports it again whenever it is updated.
+      const info = userMessage(sessionID, `msg_auto_${plugin.session.prompts.length}`, now)
+      ownMessages.push(info)
+      plugin.session.messages.push(
+        { info, parts: [] },
+        { info: assistantReply(sessionID, `msg_reply_${plugin.session.prompts.length}`, now), parts: [] },
+      )
+      await emit(plugin, { type: "message.updated", properties: { info } })
+    })
+    const human = userMessage(sessionID, "msg_human", now)
+    plugin.session.messages.push({ info: human, parts: [] })
+    await emit(plugin, { type: "message.updated", properties: { info: human } })
+
+    for (let round = 0; round < 4; round += 1) {
+      for (const info of ownMessages) {
+        await emit(plugin, { type: "message.updated", properties: { info } })
+      }
+      now += 5000
+      setSystemTime(new Date(now))
+      await emit(plugin, { type: "session.idle", properties: { sessionID } })
+    }
+
+    expect(plugin.session.prompts).toHaveLength(2)
+    const stalled = app.eventsSince(0).filter((row) => row.entity_type === "autocontinue" && row.action === "stalled")
+    expect(stalled).toHaveLength(1)
+    expect(plugin.session.logs.some((entry) => entry.message === "auto-continue stalled")).toBe(true)
+
+    // A message from a person starts the count over.
+    await emit(plugin, { type: "message.updated", properties: { info: userMessage(sessionID, "msg_human_2", now) } })
+    now += 5000
+    setSystemTime(new Date(now))
+    await emit(plugin, { type: "session.idle", properties: { sessionID } })
+    expect(plugin.session.prompts).toHaveLength(3)
+  })
+})
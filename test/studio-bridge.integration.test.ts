@@ -1,6 +1,7 @@
 import { afterEach, describe, expect, test } from "bun:test"
+import { Database } from "bun:sqlite"
 import { spawnSync } from "node:child_process"
-import { mkdtempSync, rmSync } from "node:fs"
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, realpathSync, rmSync, writeFileSync } from "node:fs"
 import { tmpdir } from "node:os"
 import path from "node:path"
 
@@ -36,14 +37,20 @@ function makeSandbox(): string {
   return dir
 }
 
-function callBridge(planpilotDir: string, action: string, payload?: unknown): BridgeResponse {
+function callBridge(
+  planpilotDir: string,
+  action: string,
+  payload?: unknown,
+  options: { context?: Record<string, unknown>; env?: Record<string, string> } = {},
+): BridgeResponse {
   const result = spawnSync("bun", ["run", "src/studio/bridge.ts"], {
     cwd: REPO_ROOT,
     env: {
       ...process.env,
       OPENCODE_PLANPILOT_DIR: planpilotDir,
+      ...options.env,
     },
-    input: JSON.stringify({ action, payload }),
+    input: JSON.stringify({ action, payload, context: options.context }),
     encoding: "utf8",
   })
 
@@ -86,6 +93,143 @@ describe("studio bridge contracts", () => {
     expect(getResponse.data.runtime.paused).toBe(expectedPaused)
   })
 
+  test("config.set normalizes stall detection settings", () => {
+    const sandbox = makeSandbox()
+
+    const validResponse = callBridge(sandbox, "config.set", {
+      config: { autoContinue: { stall: { enabled: true, threshold: 2, action: "human" } } },
+    })
+    assertOk(validResponse)
+    expect(validResponse.data.config.autoContinue.stall).toEqual({ enabled: true, threshold: 2, action: "human" })
+
+    const invalidResponse = callBridge(sandbox, "config.set", {
+      config: { autoContinue: { stall: { threshold: 0, action: "explode" } } },
+    })
+    assertOk(invalidResponse)
+    expect(invalidResponse.data.config.autoContinue.stall).toEqual({ enabled: true, threshold: 5, action: "hold" })
+
+    const snapshot = callBridge(sandbox, "runtime.snapshot")
+    assertOk(snapshot)
+    expect(snapshot.data.stall).toBeNull()
+  })
+
+  test("config.set and config.get report values that fall back or are ignored", () => {
+    const sandbox = makeSandbox()
+    const setResponse = callBridge(sandbox, "config.set", {
+      config: {
+        autoContinue: {
+          sendRetry: { maxAtempts: 5, delaysMs: [100, "soon"] },
+          stall: { threshold: "3" },
+        },
+      },
+    })
+    assertOk(setResponse)
+    expect(setResponse.data.config.autoContinue.sendRetry).toEqual({ enabled: true, maxAttempts: 3, delaysMs: [100] })
+    expect(setResponse.data.diagnostics).toEqual([
+      {
+        path: "autoContinue.sendRetry.maxAtempts",
+        problem: "unknown key (did you mean maxAttempts?)",
+        fallback: "ignored",
+      },
+      {
+        path: "autoContinue.sendRetry.delaysMs[1]",
+        problem: 'expected a positive integer, got "soon"',
+        fallback: "dropped",
+      },
+      { path: "autoContinue.stall.threshold", problem: 'expected a positive integer, got "3"', fallback: "5" },
+    ])
+
+    const project = path.join(sandbox, "project")
+    mkdirSync(project)
+    writeFileSync(path.join(project, ".planpilot.json"), JSON.stringify({ runtime: { paused: "yes" } }))
+    const getResponse = callBridge(sandbox, "config.get", {}, { context: { cwd: project } })
+    assertOk(getResponse)
+    expect(getResponse.data.runtime.paused).toBe(false)
+    expect(getResponse.data.diagnostics).toEqual([
+      { path: "runtime.paused", problem: 'expected a boolean, got "yes"', fallback: "false", source: "project" },
+    ])
+
+    const roundTrip = callBridge(sandbox, "config.set", { config: getResponse.data })
+    assertOk(roundTrip)
+    expect(roundTrip.data.diagnostics).toEqual([])
+
+    const templateResponse = callBridge(sandbox, "config.set", {
+      config: { autoContinue: { messageTemplate: "Do {{bogusvar}} now" } },
+    })
+    assertOk(templateResponse)
+    expect(templateResponse.data.config.autoContinue.messageTemplate).toBe("")
+    expect(templateResponse.data.diagnostics).toHaveLength(1)
+    expect(templateResponse.data.diagnostics[0]).toMatchObject({ path: "autoContinue.messageTemplate", fallback: '""' })
+    expect(templateResponse.data.diagnostics[0].problem).toStartWith("unknown variable(s) bogusvar")
+  })
+
+  test("config.set keeps rule matchers and turns off rules whose matcher is invalid", () => {
+    const sandbox = makeSandbox()
+    const match = {
+      and: [
+        { field: "statusCode", min: 500, max: 599 },
+        { not: { field: "error.name", regex: "(?<kind>Auth)\\w*", flags: "i" } },
+      ],
+    }
+    const response = callBridge(sandbox, "config.set", {
+      config: {
+        autoContinue: {
+          onSessionError: { enabled: true, match },
+          onPermissionAsked: {
+            enabled: true,
+            match: { or: [{ field: "permission", equals: "bash" }, { field: "patterns", regex: "(" }] },
+          },
+        },
+      },
+    })
+    assertOk(response)
+    expect(response.data.config.autoContinue.onSessionError).toMatchObject({ enabled: true, match })
+    expect(response.data.config.autoContinue.onPermissionAsked).toMatchObject({ enabled: false, match: null })
+    expect(response.data.diagnostics).toHaveLength(1)
+    expect(response.data.diagnostics[0]).toMatchObject({
+      path: "autoContinue.onPermissionAsked.match.or[1].regex",
+      fallback: "rule disabled",
+    })
+    expect(response.data.diagnostics[0].problem).toStartWith("invalid regular expression")
+  })
+
+  test("config layers merge global, project and environment settings per key", () => {
+    const sandbox = makeSandbox()
+    const project = path.join(sandbox, "project")
+    const nested = path.join(project, "src", "lib")
+    mkdirSync(nested, { recursive: true })
+    writeFileSync(
+      path.join(project, ".planpilot.json"),
+      JSON.stringify({ autoContinue: { stall: { threshold: 2 }, onSessionError: { enabled: true } } }),
+    )
+    assertOk(
+      callBridge(sandbox, "config.set", { config: { autoContinue: { stall: { threshold: 7, action: "human" } } } })
+    )
+
+    const globalOnly = callBridge(sandbox, "config.get")
+    assertOk(globalOnly)
+    expect(globalOnly.data.autoContinue.stall.threshold).toBe(7)
+
+    const effective = callBridge(sandbox, "config.effective", {}, {
+      context: { cwd: nested },
+      env: { OPENCODE_PLANPILOT_CONFIG_JSON: JSON.stringify({ autoContinue: { stall: { enabled: false } } }) },
+    })
+    assertOk(effective)
+    expect(effective.data.projectPath).toBe(path.join(project, ".planpilot.json"))
+    expect(effective.data.config.autoContinue.stall).toEqual({ enabled: false, threshold: 2, action: "human" })
+    expect(effective.data.config.autoContinue.onSessionError.enabled).toBe(true)
+    expect(effective.data.sources["autoContinue.stall.enabled"]).toBe("env")
+    expect(effective.data.sources["autoContinue.stall.threshold"]).toBe("project")
+    expect(effective.data.sources["autoContinue.stall.action"]).toBe("global")
+    expect(effective.data.layers.map((layer: any) => layer.source)).toEqual(["global", "project", "env"])
+
+    writeFileSync(path.join(project, ".planpilot.json"), "{ not json")
+    const broken = callBridge(sandbox, "config.effective", {}, { context: { cwd: nested } })
+    assertOk(broken)
+    expect(broken.data.config.autoContinue.stall.threshold).toBe(7)
+    expect(broken.data.layers[1].error).toBeTruthy()
+  })
+
   test("plan.createTree + plan.list/plan.get basic roundtrip", () => {
     const sandbox = makeSandbox()
     const createResponse = callBridge(sandbox, "plan.createTree", {
@@ -131,4 +275,721 @@ describe("studio bridge contracts", () => {
     expect(secondPoll.data.cursor).toBe(firstPoll.data.cursor)
     expect(Array.isArray(secondPoll.data.events)).toBe(true)
   })
+
+  test("events.poll streams typed changes after the cursor", () => {
+    const sandbox = makeSandbox()
+    const start = callBridge(sandbox, "events.poll", { cursor: "" })
+    assertOk(start)
+
+    const createResponse = callBridge(sandbox, "plan.createTree", {
+      title: "Feed plan",
+      content: "Watch the feed",
+      steps: [{ content: "Only step", goals: ["Only goal"] }],
+    })
+    assertOk(createResponse)
+    const planId = createResponse.data.plan.id
+    const goalId = createResponse.data.detail.goals[0].goals[0].id
+
+    const created = callBridge(sandbox, "events.poll", { cursor: start.data.cursor })
+    assertOk(created)
+    expect(created.data.events.map((event: any) => event.event)).toEqual([
+      "planpilot.change",
+      "planpilot.change",
+      "planpilot.change",
+      "planpilot.runtime.changed",
+    ])
+    expect(created.data.events.slice(0, 3).map((event: any) => event.data.type)).toEqual([
+      "plan.created",
+      "step.created",
+      "goal.created",
+    ])
+
+    assertOk(callBridge(sandbox, "plan.activate", { id: planId }))
+    assertOk(callBridge(sandbox, "goal.done", { id: goalId }))
+    const changed = callBridge(sandbox, "events.poll", { cursor: created.data.cursor })
+    assertOk(changed)
+    const changes = changed.data.events.filter((event: any) => event.event === "planpilot.change")
+    expect(changes.map((event: any) => event.data.type)).toEqual([
+      "plan.activated",
+      "goal.status_changed",
+      "step.status_changed",
+      "plan.status_changed",
+      "plan.deactivated",
+    ])
+    const seqs = changes.map((event: any) => event.data.seq)
+    expect(seqs).toEqual([...seqs].sort((a: number, b: number) => a - b))
+    expect(changes[1].data.after.status).toBe("done")
+
+    const idle = callBridge(sandbox, "events.poll", { cursor: changed.data.cursor })
+    assertOk(idle)
+    expect(idle.data.cursor).toBe(changed.data.cursor)
+    expect(idle.data.events).toEqual([])
+  })
+
+  test("runtime.next skips steps whose dependencies are not done", () => {
+    const sandbox = makeSandbox()
+    const createResponse = callBridge(sandbox, "plan.createTree", {
+      title: "Dependency plan",
+      content: "Deploy only after building",
+      steps: [{ content: "Deploy", after: [2] }, { content: "Build" }],
+    })
+    assertOk(createResponse)
+    const planId = createResponse.data.plan.id
+    const [deploy, build] = createResponse.data.detail.steps
+    expect(createResponse.data.detail.dependencies[0]).toEqual({ stepId: deploy.id, dependsOn: [build.id] })
+
+    assertOk(callBridge(sandbox, "plan.activate", { id: planId }))
+    const nextResponse = callBridge(sandbox, "runtime.next")
+    assertOk(nextResponse)
+    expect(nextResponse.data.nextStep.step.id).toBe(build.id)
+
+    const cycleResponse = callBridge(sandbox, "plan.createTree", {
+      title: "Cyclic plan",
+      content: "Should be rejected",
+      steps: [{ content: "A", after: [2] }, { content: "B", after: [1] }],
+    })
+    expect(cycleResponse.ok).toBe(false)
+    if (cycleResponse.ok) return
+    expect(cycleResponse.error.code).toBe("invalid_input")
+    expect(cycleResponse.error.message).toContain("cycle")
+  })
+
+  test("plan.history records direct edits and roll-ups", () => {
+    const sandbox = makeSandbox()
+    const createResponse = callBridge(sandbox, "plan.createTree", {
+      title: "History plan",
+      content: "Track every change",
+      steps: [{ content: "Only step", goals: ["Only goal"] }],
+    })
+    assertOk(createResponse)
+    const planId = createResponse.data.plan.id
+    const goalId = createResponse.data.detail.goals[0].goals[0].id
+
+    assertOk(callBridge(sandbox, "goal.done", { id: goalId }))
+
+    const historyResponse = callBridge(sandbox, "plan.history", { id: planId })
+    assertOk(historyResponse)
+    const summary = historyResponse.data.events.map((event: any) => `${event.entityType}.${event.action}`)
+    expect(summary.slice(0, 3)).toEqual(["plan.rollup", "step.rollup", "goal.updated"])
+    expect(summary).toContain("plan.created")
+    const goalEvent = historyResponse.data.events[2]
+    expect(goalEvent.before.status).toBe("todo")
+    expect(goalEvent.after.status).toBe("done")
+    expect(typeof goalEvent.sessionId).toBe("string")
+    expect(historyResponse.data.total).toBe(historyResponse.data.events.length)
+
+    const offsetOnly = callBridge(sandbox, "plan.history", { id: planId, offset: 1 })
+    assertOk(offsetOnly)
+    expect(offsetOnly.data.events).toEqual(historyResponse.data.events.slice(1))
+    const page = callBridge(sandbox, "plan.history", { id: planId, limit: 2, offset: 1 })
+    assertOk(page)
+    expect(page.data.events).toEqual(historyResponse.data.events.slice(1, 3))
+  })
+
+  test("plan.import parses a markdown checklist and reports line numbers", () => {
+    const sandbox = makeSandbox()
+    const markdown = [
+      "# Imported plan",
+      "",
+      "Drafted in the repo.",
+      "",
+      "- [ ] Write code *(id: 1)*",
+      "  - [x] Tests pass",
+      "  - [ ] Docs updated",
+      "- [ ] Approve release *(exec: human, after: 1)*",
+    ].join("\n")
+    const importResponse = callBridge(sandbox, "plan.import", { markdown })
+    assertOk(importResponse)
+    expect(importResponse.data.plan.title).toBe("Imported plan")
+    expect(importResponse.data.plan.content).toBe("Drafted in the repo.")
+    const [code, approve] = importResponse.data.detail.steps
+    expect(approve.executor).toBe("human")
+    expect(importResponse.data.detail.goals[0].goals.map((goal: any) => goal.status)).toEqual(["done", "todo"])
+    expect(importResponse.data.detail.dependencies[1]).toEqual({ stepId: approve.id, dependsOn: [code.id] })
+
+    const badResponse = callBridge(sandbox, "plan.import", { markdown: "# Broken\n\n- [?] Unknown mark" })
+    expect(badResponse.ok).toBe(false)
+    if (badResponse.ok) return
+    expect(badResponse.error.code).toBe("invalid_input")
+    expect(badResponse.error.message).toContain("line 3")
+  })
+
+  test("plan.export + plan.import roundtrip a JSON plan document", () => {
+    const sandbox = makeSandbox()
+    const createResponse = callBridge(sandbox, "plan.createTree", {
+      title: "Document plan",
+      content: "Round trip",
+      steps: [
+        { content: "Build", goals: ["Compiles"] },
+        { content: "Release", executor: "human", after: [1] },
+      ],
+    })
+    assertOk(createResponse)
+    const [build, release] = createResponse.data.detail.steps
+    assertOk(callBridge(sandbox, "step.wait", { id: release.id, delayMs: 60_000, reason: "CI" }))
+
+    const exportResponse = callBridge(sandbox, "plan.export", { id: createResponse.data.plan.id })
+    assertOk(exportResponse)
+    const document = exportResponse.data.document
+    expect(document.version).toBe(1)
+    expect(JSON.parse(exportResponse.data.text)).toEqual(document)
+    expect(document.plan.steps[1].dependsOn).toEqual([build.id])
+    expect(document.plan.steps[1].wait.reason).toBe("CI")
+    expect(document.plan.steps[1].comment).toBeNull()
+
+    const importResponse = callBridge(sandbox, "plan.import", { document })
+    assertOk(importResponse)
+    const reexport = callBridge(sandbox, "plan.export", { id: importResponse.data.plan.id, format: "yaml" })
+    assertOk(reexport)
+    const copy = reexport.data.document.plan
+    expect(copy.steps.map((step: any) => [step.content, step.executor, step.wait])).toEqual(
+      document.plan.steps.map((step: any) => [step.content, step.executor, step.wait])
+    )
+    expect(copy.steps[1].dependsOn).toEqual([copy.steps[0].id])
+
+    const badResponse = callBridge(sandbox, "plan.import", {
+      document: { ...document, plan: { ...document.plan, steps: [{ content: "x", executor: "robot" }] } },
+    })
+    expect(badResponse.ok).toBe(false)
+    if (badResponse.ok) return
+    expect(badResponse.error.message).toContain("plan.steps[0].executor")
+  })
+
+  test("template.save + plan.fromTemplate fill in placeholders", () => {
+    const sandbox = makeSandbox()
+    const createResponse = callBridge(sandbox, "plan.createTree", {
+      title: "Release {{version}}",
+      content: "Ship {{version}}",
+      steps: [{ content: "Tag v{{version}}", goals: ["Tag pushed"] }, { content: "Announce", executor: "human", after: [1] }],
+    })
+    assertOk(createResponse)
+    const saveResponse = callBridge(sandbox, "template.save", {
+      planId: createResponse.data.plan.id,
+      name: "release",
+      description: "Standard release",
+    })
+    assertOk(saveResponse)
+    expect(saveResponse.data.template.variables).toEqual(["version"])
+
+    const listResponse = callBridge(sandbox, "template.list")
+    assertOk(listResponse)
+    expect(listResponse.data.map((item: any) => [item.name, item.stepCount])).toEqual([["release", 2]])
+
+    const missingResponse = callBridge(sandbox, "plan.fromTemplate", { name: "release" })
+    expect(missingResponse.ok).toBe(false)
+    if (missingResponse.ok) return
+    expect(missingResponse.error.message).toContain("version")
+
+    const applyResponse = callBridge(sandbox, "plan.fromTemplate", { name: "release", vars: { version: "1.2.0" } })
+    assertOk(applyResponse)
+    expect(applyResponse.data.plan.title).toBe("Release 1.2.0")
+    const [tag, announce] = applyResponse.data.detail.steps
+    expect(tag.content).toBe("Tag v1.2.0")
+    expect(announce.executor).toBe("human")
+    expect(applyResponse.data.detail.dependencies[1]).toEqual({ stepId: announce.id, dependsOn: [tag.id] })
+  })
+
+  test("step.update nests a child plan that rolls up and drives runtime.next", () => {
+    const sandbox = makeSandbox()
+    const parentResponse = callBridge(sandbox, "plan.createTree", {
+      title: "Parent plan",
+      content: "Large effort",
+      steps: [{ content: "Migrate auth service" }, { content: "Announce" }],
+    })
+    assertOk(parentResponse)
+    const childResponse = callBridge(sandbox, "plan.createTree", {
+      title: "Auth migration",
+      content: "Sub-plan",
+      steps: [{ content: "Copy tables" }],
+    })
+    assertOk(childResponse)
+    const [migrate] = parentResponse.data.detail.steps
+    const [copy] = childResponse.data.detail.steps
+
+    assertOk(callBridge(sandbox, "step.update", { id: migrate.id, childPlanId: childResponse.data.plan.id }))
+    const loopResponse = callBridge(sandbox, "step.update", { id: copy.id, childPlanId: parentResponse.data.plan.id })
+    expect(loopResponse.ok).toBe(false)
+
+    assertOk(callBridge(sandbox, "plan.activate", { id: parentResponse.data.plan.id, force: true }))
+    const nextResponse = callBridge(sandbox, "runtime.next")
+    assertOk(nextResponse)
+    expect(nextResponse.data.nextStep.step.id).toBe(copy.id)
+    expect(nextResponse.data.nextStep.parentSteps.map((step: any) => step.id)).toEqual([migrate.id])
+
+    const doneResponse = callBridge(sandbox, "step.done", { id: copy.id })
+    assertOk(doneResponse)
+    expect(doneResponse.data.changes.steps).toEqual([
+      expect.objectContaining({ step_id: migrate.id, from: "todo", to: "done" }),
+    ])
+
+    const getResponse = callBridge(sandbox, "plan.get", { id: parentResponse.data.plan.id })
+    assertOk(getResponse)
+    expect(getResponse.data.steps[0].status).toBe("done")
+    expect(getResponse.data.children[0].stepId).toBe(migrate.id)
+    expect(getResponse.data.children[0].detail.plan.status).toBe("done")
+  })
+
+  test("queue.add activates queued plans in order as each one finishes", () => {
+    const sandbox = makeSandbox()
+    const planIds: number[] = []
+    const stepIds: number[] = []
+    for (const title of ["First", "Second", "Third"]) {
+      const response = callBridge(sandbox, "plan.createTree", { title, content: title, steps: [{ content: `${title} step` }] })
+      assertOk(response)
+      planIds.push(response.data.plan.id)
+      stepIds.push(response.data.detail.steps[0].id)
+    }
+
+    const addResponse = callBridge(sandbox, "queue.add", { ids: planIds })
+    assertOk(addResponse)
+    expect(addResponse.data.activated.plan_id).toBe(planIds[0])
+    expect(addResponse.data.queue.map((row: any) => row.plan_id)).toEqual([planIds[1], planIds[2]])
+
+    assertOk(callBridge(sandbox, "queue.reorder", { id: planIds[2], to: 1 }))
+
+    const doneResponse = callBridge(sandbox, "step.done", { id: stepIds[0] })
+    assertOk(doneResponse)
+    expect(doneResponse.data.changes.active_plans_promoted.map((change: any) => change.plan_id)).toEqual([planIds[2]])
+
+    const nextResponse = callBridge(sandbox, "runtime.next")
+    assertOk(nextResponse)
+    expect(nextResponse.data.activePlan.plan_id).toBe(planIds[2])
+    expect(nextResponse.data.nextStep.step.id).toBe(stepIds[2])
+
+    const listResponse = callBridge(sandbox, "queue.list")
+    assertOk(listResponse)
+    expect(listResponse.data.queue.map((row: any) => row.plan_id)).toEqual([planIds[1]])
+  })
+
+  test("plan.budget overrides config defaults and reports the remaining budget", () => {
+    const sandbox = makeSandbox()
+    assertOk(
+      callBridge(sandbox, "config.set", {
+        config: { autoContinue: { budget: { maxSends: 10, maxDurationMs: 3600000, windows: ["22:00-06:00", "bogus"] } } },
+      })
+    )
+    const createResponse = callBridge(sandbox, "plan.createTree", {
+      title: "Budgeted",
+      content: "Budgeted plan",
+      steps: [{ content: "Work" }],
+    })
+    assertOk(createResponse)
+    const planId = createResponse.data.plan.id
+
+    const setResponse = callBridge(sandbox, "plan.budget", { id: planId, budget: { maxSends: 0, windows: [] } })
+    assertOk(setResponse)
+    expect(setResponse.data.override).toEqual({ maxSends: 0, windows: [] })
+    expect(setResponse.data.status.maxDurationMs).toBe(3600000)
+    expect(setResponse.data.status.remainingSends).toBeNull()
+    expect(setResponse.data.status.blocked).toBeNull()
+
+    const invalidResponse = callBridge(sandbox, "plan.budget", { id: planId, budget: { windows: ["25:00-26:00"] } })
+    expect(invalidResponse.ok).toBe(false)
+
+    assertOk(callBridge(sandbox, "plan.activate", { id: planId }))
+    const snapshot = callBridge(sandbox, "runtime.snapshot")
+    assertOk(snapshot)
+    expect(snapshot.data.budget.sends).toBe(0)
+    expect(snapshot.data.budget.remainingMs).toBeGreaterThan(0)
+    expect(snapshot.data.budget.windows).toEqual([])
+
+    const clearResponse = callBridge(sandbox, "plan.budget", { id: planId, budget: null })
+    assertOk(clearResponse)
+    expect(clearResponse.data.override).toBeNull()
+    expect(clearResponse.data.status.remainingSends).toBe(10)
+    expect(clearResponse.data.status.windows).toEqual(["22:00-06:00"])
+  })
+
+  test("step and plan routing round-trips through update and export", () => {
+    const sandbox = makeSandbox()
+    const createResponse = callBridge(sandbox, "plan.createTree", {
+      title: "Routed",
+      content: "Routed plan",
+      model: "openai/gpt-4o-mini",
+      steps: [{ content: "Review", agent: "reviewer" }, { content: "Write" }],
+    })
+    assertOk(createResponse)
+    const plan = createResponse.data.plan
+    const [review, write] = createResponse.data.detail.steps
+    expect(plan.model).toBe("openai/gpt-4o-mini")
+    expect(review.agent).toBe("reviewer")
+    expect(write.agent).toBeNull()
+
+    const updateResponse = callBridge(sandbox, "step.update", { id: write.id, model: "anthropic/claude-haiku", variant: "fast" })
+    assertOk(updateResponse)
+    expect(updateResponse.data.step.model).toBe("anthropic/claude-haiku")
+
+    const invalidResponse = callBridge(sandbox, "step.update", { id: write.id, model: "no-provider" })
+    expect(invalidResponse.ok).toBe(false)
+
+    const clearResponse = callBridge(sandbox, "step.update", { id: write.id, variant: null })
+    assertOk(clearResponse)
+    expect(clearResponse.data.step.variant).toBeNull()
+
+    const exportResponse = callBridge(sandbox, "plan.export", { id: plan.id, format: "json" })
+    assertOk(exportResponse)
+    const document = exportResponse.data.document
+    expect(document.plan.model).toBe("openai/gpt-4o-mini")
+    expect(document.plan.steps[0].agent).toBe("reviewer")
+    expect(document.plan.steps[1].model).toBe("anthropic/claude-haiku")
+    expect("variant" in document.plan.steps[1]).toBe(false)
+
+    const importResponse = callBridge(sandbox, "plan.import", { text: exportResponse.data.text, format: "json" })
+    assertOk(importResponse)
+    expect(importResponse.data.plan.model).toBe("openai/gpt-4o-mini")
+    expect(importResponse.data.detail.steps[0].agent).toBe("reviewer")
+  })
+
+  test("prompt.preview renders the plan template before the config template", () => {
+    const sandbox = makeSandbox()
+    assertOk(
+      callBridge(sandbox, "config.set", {
+        config: { autoContinue: { messageTemplate: "Config: {{step.detail}}" } },
+      })
+    )
+    const emptyResponse = callBridge(sandbox, "prompt.preview")
+    assertOk(emptyResponse)
+    expect(emptyResponse.data.reason).toBe("no-active-plan")
+
+    const createResponse = callBridge(sandbox, "plan.createTree", {
+      title: "Templated",
+      content: "Templated plan",
+      steps: [{ content: "Draft", goals: ["outline"] }, { content: "Polish" }],
+    })
+    assertOk(createResponse)
+    const planId = createResponse.data.plan.id
+    assertOk(callBridge(sandbox, "plan.activate", { id: planId }))
+
+    const configResponse = callBridge(sandbox, "prompt.preview")
+    assertOk(configResponse)
+    expect(configResponse.data.message.source).toBe("config")
+    expect(configResponse.data.message.text).toContain("Config: Step ID:")
+
+    const invalidResponse = callBridge(sandbox, "plan.update", { id: planId, messageTemplate: "{{step.nope}}" })
+    expect(invalidResponse.ok).toBe(false)
+
+    const template = "{{plan.title}} #{{attempt}}\n{{step.goals}}\nNext up:\n{{steps.remaining}}"
+    assertOk(callBridge(sandbox, "plan.update", { id: planId, messageTemplate: template }))
+    const planResponse = callBridge(sandbox, "prompt.preview")
+    assertOk(planResponse)
+    expect(planResponse.data.message.source).toBe("plan")
+    expect(planResponse.data.message.text).toStartWith("Templated #1\n- [todo] outline")
+    expect(planResponse.data.message.text).toContain("- Polish")
+
+    assertOk(callBridge(sandbox, "plan.update", { id: planId, messageTemplate: null }))
+    const clearedResponse = callBridge(sandbox, "prompt.preview")
+    assertOk(clearedResponse)
+    expect(clearedResponse.data.message.source).toBe("config")
+  })
+
+  test("runtime.trace returns the latest decisions for the session", () => {
+    const sandbox = makeSandbox()
+    assertOk(callBridge(sandbox, "plan.list", {}))
+    const db = new Database(path.join(sandbox, "planpilot.db"))
+    const insert = db.prepare(
+      "INSERT INTO runtime_trace (session_id, source, outcome, reason, plan_id, step_id, detail_json, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)"
+    )
+    insert.run("studio", "session.idle", "skipped", "no active plan", null, null, null, 1)
+    insert.run("other", "session.idle", "sent", "prompt accepted", 1, 1, null, 2)
+    insert.run("studio", "session.idle", "delayed", "step wait", 1, 2, JSON.stringify({ until: 10 }), 3)
+    insert.run("studio", "wait_timer", "sent", "prompt accepted", 1, 2, null, 4)
+    db.close()
+
+    const sessionResponse = callBridge(sandbox, "runtime.trace", { limit: 2 })
+    assertOk(sessionResponse)
+    expect(sessionResponse.data.sessionId).toBe("studio")
+    expect(sessionResponse.data.records.map((record: any) => record.reason)).toEqual(["step wait", "prompt accepted"])
+    expect(sessionResponse.data.records[0].detail).toEqual({ until: 10 })
+
+    const allResponse = callBridge(sandbox, "runtime.trace", { all: true })
+    assertOk(allResponse)
+    expect(allResponse.data.records).toHaveLength(4)
+    expect(allResponse.data.records[1].sessionId).toBe("other")
+  })
+
+  test("step.wait stores condition waits and exports them", () => {
+    const sandbox = makeSandbox()
+    const createResponse = callBridge(sandbox, "plan.createTree", {
+      title: "Waiting",
+      content: "Waiting plan",
+      steps: [{ content: "Build" }, { content: "Ship" }],
+    })
+    assertOk(createResponse)
+    const planId = createResponse.data.plan.id
+    const [build, ship] = createResponse.data.detail.steps
+    const artifact = path.join(sandbox, "dist", "app.js")
+
+    const waitResponse = callBridge(sandbox, "step.wait", {
+      id: ship.id,
+      condition: { kind: "file", target: artifact, onTimeout: "human" },
+      timeoutMs: 60000,
+      reason: "build output",
+    })
+    assertOk(waitResponse)
+    expect(waitResponse.data.until).toBeGreaterThan(Date.now())
+
+    const getResponse = callBridge(sandbox, "step.get", { id: ship.id })
+    assertOk(getResponse)
+    expect(getResponse.data.wait.reason).toBe("build output")
+    expect(getResponse.data.wait.condition).toEqual({ kind: "file", target: artifact, onTimeout: "human" })
+
+    const invalidResponse = callBridge(sandbox, "step.wait", { id: build.id, condition: { kind: "socket", target: "x" } })
+    expect(invalidResponse.ok).toBe(false)
+    const badIdResponse = callBridge(sandbox, "step.wait", { id: build.id, condition: { kind: "step", target: "next" } })
+    expect(badIdResponse.ok).toBe(false)
+
+    const exportResponse = callBridge(sandbox, "plan.export", { id: planId, format: "json" })
+    assertOk(exportResponse)
+    expect(exportResponse.data.document.plan.steps[1].wait.condition.kind).toBe("file")
+    expect(exportResponse.data.document.plan.steps[1].comment).toBeNull()
+
+    const importResponse = callBridge(sandbox, "plan.import", { text: exportResponse.data.text, format: "json" })
+    assertOk(importResponse)
+    const imported = callBridge(sandbox, "step.get", { id: importResponse.data.detail.steps[1].id })
+    assertOk(imported)
+    expect(imported.data.wait.condition.target).toBe(artifact)
+  })
+
+  test("step waits live in their own columns and are lifted out of legacy comment markers", () => {
+    const sandbox = makeSandbox()
+    const createResponse = callBridge(sandbox, "plan.createTree", {
+      title: "Legacy waits",
+      content: "Legacy wait plan",
+      steps: [{ content: "Deploy" }, { content: "Verify" }],
+    })
+    assertOk(createResponse)
+    const [deploy, verify] = createResponse.data.detail.steps
+
+    assertOk(callBridge(sandbox, "step.wait", { id: verify.id, delayMs: 60_000, reason: "rollout" }))
+    assertOk(callBridge(sandbox, "step.update", { id: verify.id, comment: "watch the dashboards" }))
+    const verifyResponse = callBridge(sandbox, "step.get", { id: verify.id })
+    assertOk(verifyResponse)
+    expect(verifyResponse.data.step.comment).toBe("watch the dashboards")
+    expect(verifyResponse.data.step.wait_kind).toBe("delay")
+    expect(verifyResponse.data.wait).toMatchObject({ kind: "delay", reason: "rollout" })
+
+    // Rewind the database to schema version 12, before the wait columns existed, with a wait written the old way.
+    const db = new Database(path.join(sandbox, "planpilot.db"))
+    const laterColumns = [
+      ["steps", "wait_until"],
+      ["steps", "wait_reason"],
+      ["steps", "wait_kind"],
+      ["steps", "wait_condition_json"],
+      ["goals", "verify_command"],
+      ["goals", "verify_timeout_ms"],
+      ["goals", "verify_exit_code"],
+    ]
+    for (const [table, column] of laterColumns) {
+      db.exec(`ALTER TABLE ${table} DROP COLUMN ${column}`)
+    }
+    db.exec("DELETE FROM schema_migrations WHERE version > 12")
+    db.prepare("UPDATE steps SET comment = ? WHERE id = ?").run(
+      `@wait-until=4102444800000\n@wait-reason=CI\n@wait-for={"kind":"step","target":"${deploy.id}","onTimeout":"human"}\nkeep me`,
+      deploy.id,
+    )
+    db.close()
+
+    const deployResponse = callBridge(sandbox, "step.get", { id: deploy.id })
+    assertOk(deployResponse)
+    expect(deployResponse.data.step.comment).toBe("keep me")
+    expect(deployResponse.data.step.wait_until).toBe(4102444800000)
+    expect(deployResponse.data.wait).toEqual({
+      kind: "step",
+      until: 4102444800000,
+      reason: "CI",
+      condition: { kind: "step", target: String(deploy.id), onTimeout: "human" },
+    })
+  })
+
+  test("goal.verify runs check commands and sets goals from the result", () => {
+    const sandbox = makeSandbox()
+    const createResponse = callBridge(sandbox, "plan.createTree", {
+      title: "Verified",
+      content: "Verified plan",
+      steps: [{ content: "Build", goals: ["Artifact exists"] }],
+    })
+    assertOk(createResponse)
+    const step = createResponse.data.detail.steps[0]
+    const artifactGoal = createResponse.data.detail.goals[0].goals[0]
+    const artifact = path.join(sandbox, "app.js")
+
+    assertOk(
+      callBridge(sandbox, "goal.update", { id: artifactGoal.id, verify: { command: `test -f '${artifact}'` } })
+    )
+    const addResponse = callBridge(sandbox, "goal.add", {
+      stepId: step.id,
+      content: "Linter reports the known warning",
+      verify: { command: "echo warning; exit 3", exitCode: 3, timeoutMs: 5000 },
+    })
+    assertOk(addResponse)
+    const lintGoal = addResponse.data.goals[0]
+    expect(lintGoal.verify_exit_code).toBe(3)
+
+    const badResponse = callBridge(sandbox, "goal.update", { id: lintGoal.id, verify: { command: " " } })
+    expect(badResponse.ok).toBe(false)
+
+    const firstRun = callBridge(sandbox, "goal.verify", { stepId: step.id })
+    assertOk(firstRun)
+    expect(firstRun.data.checks.map((check: any) => [check.goalId, check.passed])).toEqual([
+      [artifactGoal.id, false],
+      [lintGoal.id, true],
+    ])
+    const lintShown = callBridge(sandbox, "goal.get", { id: lintGoal.id })
+    assertOk(lintShown)
+    expect(lintShown.data.goal.status).toBe("done")
+    expect(lintShown.data.goal.comment).toContain("warning")
+
+    writeFileSync(artifact, "built")
+    const secondRun = callBridge(sandbox, "goal.verify", { id: artifactGoal.id })
+    assertOk(secondRun)
+    expect(secondRun.data.checks[0].passed).toBe(true)
+    expect(secondRun.data.changes.steps.map((change: any) => [change.step_id, change.to])).toEqual([[step.id, "done"]])
+  })
+
+  test("goal.verify stops checks at their timeout and does not wait for background processes", () => {
+    const sandbox = makeSandbox()
+    const createResponse = callBridge(sandbox, "plan.createTree", {
+      title: "Slow checks",
+      content: "Slow checks",
+      steps: [{ content: "Check", goals: ["Hangs", "Leaves a process behind"] }],
+    })
+    assertOk(createResponse)
+    const [hangs, leaves] = createResponse.data.detail.goals[0].goals
+    assertOk(callBridge(sandbox, "goal.update", { id: hangs.id, verify: { command: "sleep 8; echo late", timeoutMs: 500 } }))
+    assertOk(
+      callBridge(sandbox, "goal.update", { id: leaves.id, verify: { command: "(sleep 8 &); echo started", timeoutMs: 5000 } })
+    )
+
+    const startedAt = Date.now()
+    const run = callBridge(sandbox, "goal.verify", { stepId: createResponse.data.detail.steps[0].id })
+    assertOk(run)
+    expect(Date.now() - startedAt).toBeLessThan(5000)
+    expect(run.data.checks.map((check: any) => [check.goalId, check.passed, check.timedOut])).toEqual([
+      [hangs.id, false, true],
+      [leaves.id, true, false],
+    ])
+  })
+
+  test("hooks run local commands with the lifecycle event on stdin", () => {
+    const sandbox = makeSandbox()
+    const stepLog = path.join(sandbox, "step-done.json")
+    const humanLog = path.join(sandbox, "next-human.json")
+    const configResponse = callBridge(sandbox, "config.set", {
+      config: {
+        hooks: [
+          { event: "step.done", command: `cat > '${stepLog}'` },
+          { event: "next_step.human", command: `cat > '${humanLog}'`, timeoutMs: 5000 },
+          { event: "plan.done", url: "https://example.com/hook" },
+          { event: "goal.done", command: "true", url: "http://127.0.0.1:9/hook" },
+          { event: "unknown", command: "true" },
+        ],
+      },
+    })
+    assertOk(configResponse)
+    expect(configResponse.data.config.hooks).toEqual([
+      { event: "step.done", command: `cat > '${stepLog}'`, url: "", timeoutMs: 10000 },
+      { event: "next_step.human", command: `cat > '${humanLog}'`, url: "", timeoutMs: 5000 },
+    ])
+
+    const createResponse = callBridge(sandbox, "plan.createTree", {
+      title: "Hooked",
+      content: "Hooked plan",
+      steps: [{ content: "Build" }, { content: "Sign off", executor: "human" }],
+    })
+    assertOk(createResponse)
+    const [build, signOff] = createResponse.data.detail.steps
+    assertOk(callBridge(sandbox, "plan.activate", { id: createResponse.data.plan.id }))
+    assertOk(callBridge(sandbox, "step.done", { id: build.id }))
+
+    const stepEvent = JSON.parse(readFileSync(stepLog, "utf8"))
+    expect(stepEvent.event).toBe("step.done")
+    expect(stepEvent.stepId).toBe(build.id)
+    expect(stepEvent.step.status).toBe("done")
+    expect(typeof stepEvent.source.sessionId).toBe("string")
+    const humanEvent = JSON.parse(readFileSync(humanLog, "utf8"))
+    expect(humanEvent.event).toBe("next_step.human")
+    expect(humanEvent.stepId).toBe(signOff.id)
+  })
+
+  test("hook commands run in the change's directory and are stopped with everything they started", () => {
+    const sandbox = makeSandbox()
+    const project = path.join(sandbox, "project")
+    mkdirSync(project)
+    const cwdLog = path.join(sandbox, "hook-cwd")
+    const late = path.join(sandbox, "late")
+    assertOk(
+      callBridge(sandbox, "config.set", {
+        config: {
+          hooks: [
+            { event: "step.done", command: `pwd > '${cwdLog}'` },
+            { event: "step.done", command: `(sleep 1; touch '${late}') & sleep 30`, timeoutMs: 300 },
+          ],
+        },
+      }),
+    )
+
+    const context = { cwd: project }
+    const created = callBridge(sandbox, "plan.createTree", { title: "Hooked", content: "h", steps: [{ content: "Build" }] }, {
+      context,
+    })
+    assertOk(created)
+    const startedAt = Date.now()
+    assertOk(callBridge(sandbox, "step.done", { id: created.data.detail.steps[0].id }, { context }))
+    expect(Date.now() - startedAt).toBeLessThan(5000)
+    expect(readFileSync(cwdLog, "utf8").trim()).toBe(realpathSync(project))
+
+    Bun.sleepSync(1500)
+    expect(existsSync(late)).toBe(false)
+  })
+
+  test("a project config file cannot add hooks or allow agent config changes", () => {
+    const sandbox = makeSandbox()
+    const project = path.join(sandbox, "project")
+    const nested = path.join(project, "src")
+    mkdirSync(nested, { recursive: true })
+    const marker = path.join(sandbox, "pwned")
+    writeFileSync(
+      path.join(project, ".planpilot.json"),
+      JSON.stringify({
+        hooks: [{ event: "step.done", command: `touch '${marker}'` }],
+        runtime: { allowAgentConfigChanges: true },
+      }),
+    )
+
+    const effective = callBridge(sandbox, "config.effective", {}, { context: { cwd: nested } })
+    assertOk(effective)
+    expect(effective.data.config.hooks).toEqual([])
+    expect(effective.data.config.runtime.allowAgentConfigChanges).toBe(false)
+    expect(effective.data.diagnostics).toEqual([
+      { path: "hooks", problem: "can only be set in the global config file", fallback: "ignored", source: "project" },
+      {
+        path: "runtime.allowAgentConfigChanges",
+        problem: "can only be set in the global config file",
+        fallback: "ignored",
+        source: "project",
+      },
+    ])
+
+    const context = { cwd: nested }
+    const created = callBridge(sandbox, "plan.createTree", { title: "Cloned", content: "c", steps: [{ content: "Build" }] }, {
+      context,
+    })
+    assertOk(created)
+    assertOk(callBridge(sandbox, "step.done", { id: created.data.detail.steps[0].id }, { context }))
+    expect(existsSync(marker)).toBe(false)
+  })
+
+  test("refuses a database migrated by a newer plugin", () => {
+    const sandbox = makeSandbox()
+    const db = new Database(path.join(sandbox, "planpilot.db"))
+    db.exec("CREATE TABLE schema_migrations (version INTEGER PRIMARY KEY, description TEXT NOT NULL, applied_at INTEGER NOT NULL)")
+    db.prepare("INSERT INTO schema_migrations (version, description, applied_at) VALUES (?, ?, ?)").run(9999, "future", Date.now())
+    db.close()
+
+    const response = callBridge(sandbox, "plan.list", {})
+    expect(response.ok).toBe(false)
+    if (response.ok) return
+    expect(response.error.code).toBe("db_error")
+    expect(response.error.message).toContain("newer than this plugin supports")
+  })
 })
@@ -0,0 +1,99 @@
+import { mkdtempSync, rmSync } from "node:fs"
+import { tmpdir } from "node:os"
+import path from "node:path"
+import type { Hooks } from "@opencode-ai/plugin"
+import { runCommand } from "../src/command"
+import { PlanpilotPlugin } from "../src/index"
+import { PlanpilotApp } from "../src/lib/app"
+import { openDatabase } from "../src/lib/db"
+
+// Tests that run planpilot in this process share one planpilot directory, because the database
+// connection is cached per process. Each test keeps to its own session ids.
+export const PLANPILOT_DIR = mkdtempSync(path.join(tmpdir(), "planpilot-test-"))
+process.env.OPENCODE_PLANPILOT_DIR = PLANPILOT_DIR
+export const CONFIG_PATH = path.join(PLANPILOT_DIR, "config.json")
+process.on("exit", () => rmSync(PLANPILOT_DIR, { recursive: true, force: true }))
+
+// Runs a CLI command and returns what it printed.
+export async function cli(argv: string[], context: { sessionId?: string; cwd?: string } = {}): Promise<string> {
+  const lines: string[] = []
+  const { sessionId = "ses_cli", cwd = PLANPILOT_DIR } = context
+  await runCommand(argv, { sessionId, cwd }, { log: (...args) => lines.push(args.join(" ")) })
+  return lines.join("\n")
+}
+
+export async function activePlan(sessionId: string, steps: string[]): Promise<PlanpilotApp> {
+  const app = new PlanpilotApp(openDatabase(), sessionId)
+  const { plan } = app.addPlanTree(
+    { title: "Auto", content: "Auto plan" },
+    steps.map((content) => ({ content, executor: "ai" as const, goals: [] })),
+  )
+  app.setActivePlan(plan.id, true)
+  return app
+}
+
+type PluginInput = Parameters<typeof PlanpilotPlugin>[0]
+type Client = PluginInput["client"]
+export type PluginEvent = Parameters<NonNullable<Hooks["event"]>>[0]["event"]
+export type MessageInfo = Extract<PluginEvent, { type: "message.updated" }>["properties"]["info"]
+export type SessionMessage = { info: MessageInfo; parts: [] }
+export type PromptRequest = Parameters<Client["session"]["promptAsync"]>[0]
+export type LogEntry = NonNullable<NonNullable<Parameters<Client["app"]["log"]>[0]>["body"]>
+
+// The calls planpilot makes on the OpenCode client, taking the same requests as the real ones.
+type FakeClient = {
+  app: { log: (request: Parameters<Client["app"]["log"]>[0]) => Promise<unknown> }
+  session: {
+    messages: (request: Parameters<Client["session"]["messages"]>[0]) => Promise<{ data: SessionMessage[] }>
+    promptAsync: (request: PromptRequest) => Promise<unknown>
+  }
+}
+
+export type FakeSession = {
+  messages: SessionMessage[]
+  prompts: PromptRequest[]
+  logs: LogEntry[]
+}
+
+export type RunningPlugin = { hooks: Hooks; session: FakeSession }
+
+// A plugin instance over a fake OpenCode client. `onPrompt` runs for each auto-continue prompt.
+export async function startPlugin(
+  onPrompt: (request: PromptRequest) => Promise<void> = async () => {},
+  directory = PLANPILOT_DIR,
+) {
+  const session: FakeSession = { messages: [], prompts: [], logs: [] }
+  const client = {
+    app: {
+      log: async (request) => {
+        if (request?.body) session.logs.push(request.body)
+      },
+    },
+    session: {
+      messages: async () => ({ data: session.messages }),
+      promptAsync: async (request) => {
+        session.prompts.push(request)
+        await onPrompt(request)
+      },
+    },
+  } satisfies FakeClient
+  // The fake answers only the calls planpilot makes, so it stands in for the whole client.
+  const input = { client, directory, worktree: directory }
+  const hooks = await PlanpilotPlugin(input as unknown as PluginInput)
+  return { hooks, session } satisfies RunningPlugin
+}
+
+export async function emit(plugin: RunningPlugin, event: PluginEvent) {
+  await plugin.hooks.event?.({ event })
+}
+
+export function userMessage(sessionID: string, id: string, created = Date.now()): MessageInfo {
+  return {
+    id,
+    sessionID,
+    role: "user",
+    agent: "build",
+    model: { providerID: "test", modelID: "test" },
+    time: { created },
+  }
+}
@@ -0,0 +1,99 @@
+import { afterEach, describe, expect, setSystemTime, test } from "bun:test"
+import { PlanpilotApp } from "../src/lib/app"
+import { openDatabase } from "../src/lib/db"
+import { cli } from "./support"
+
+afterEach(() => {
+  setSystemTime()
+})
+
+function planpilot(sessionId: string, ...argv: string[]): Promise<string> {
+  return cli(argv, { sessionId })
+}
+
+function createdPlanId(output: string): number {
+  const found = /Created plan ID: (\d+)/.exec(output)
+  if (!found) throw new Error(`no plan created: ${output}`)
+  return Number(found[1])
+}
+
+describe("undo", () => {
+  test("restores a removed step with its goals and dependencies", async () => {
+    const sessionId = "ses_undo_step"
+    const app = new PlanpilotApp(openDatabase(), sessionId)
+    const planId = createdPlanId(
+      await planpilot(sessionId, "plan", "add-tree", "Undo", "Undo plan", "--step", "Build", "--goal", "Compiles",
+        "--step", "Ship", "--goal", "Released", "--after", "1"),
+    )
+    const [build, ship] = app.planWithSteps(planId).steps
+    const shipBefore = app.getStep(ship.id)
+    const goalsBefore = app.goalsForStep(ship.id)
+
+    expect(await planpilot(sessionId, "step", "remove", String(ship.id))).toContain("removed")
+    expect(() => app.getStep(ship.id)).toThrow()
+    expect(app.goalsForStep(ship.id)).toEqual([])
+
+    expect(await planpilot(sessionId, "undo")).toContain("Undid 1 mutation(s)")
+    expect(app.getStep(ship.id)).toEqual(shipBefore)
+    expect(app.goalsForStep(ship.id)).toEqual(goalsBefore)
+    expect(app.dependenciesForStep(ship.id)).toEqual([build.id])
+    expect(app.planWithSteps(planId).steps.map((step) => step.id)).toEqual([build.id, ship.id])
+  })
+
+  test("of a goal marked done reverses the roll-up", async () => {
+    const sessionId = "ses_undo_goal"
+    const app = new PlanpilotApp(openDatabase(), sessionId)
+    const planId = createdPlanId(
+      await planpilot(sessionId, "plan", "add-tree", "Roll-up", "Roll-up plan", "--step", "Only", "--goal", "Done"),
+    )
+    const step = app.planWithSteps(planId).steps[0]
+    const goal = app.goalsForStep(step.id)[0]
+
+    await planpilot(sessionId, "goal", "done", String(goal.id))
+    expect([app.getGoal(goal.id).status, app.getStep(step.id).status, app.getPlan(planId).status]).toEqual([
+      "done",
+      "done",
+      "done",
+    ])
+
+    await planpilot(sessionId, "undo")
+    expect([app.getGoal(goal.id).status, app.getStep(step.id).status, app.getPlan(planId).status]).toEqual([
+      "todo",
+      "todo",
+      "todo",
+    ])
+  })
+})
+
+describe("plan revert", () => {
+  test("--to undoes later changes, and undo afterwards skips the revert", async () => {
+    const sessionId = "ses_revert"
+    const app = new PlanpilotApp(openDatabase(), sessionId)
+    let now = Date.now()
+    const tick = () => {
+      now += 1000
+      setSystemTime(new Date(now))
+    }
+    setSystemTime(new Date(now))
+    const planId = createdPlanId(await planpilot(sessionId, "plan", "add-tree", "Revert", "Revert plan", "--step", "First"))
+    const first = app.planWithSteps(planId).steps[0]
+    tick()
+    await planpilot(sessionId, "step", "add", String(planId), "Second")
+    const second = app.planWithSteps(planId).steps[1]
+    tick()
+    const checkpoint = now
+    tick()
+    await planpilot(sessionId, "step", "update", String(first.id), "--content", "First, renamed")
+    await planpilot(sessionId, "step", "done", String(second.id))
+
+    const reverted = await planpilot(sessionId, "plan", "revert", String(planId), "--to", String(checkpoint))
+    expect(reverted).toContain(`Reverted 2 change(s) to plan ID: ${planId}`)
+    expect(app.getStep(first.id).content).toBe("First")
+    expect(app.getStep(second.id).status).toBe("todo")
+
+    // The revert is not itself undone; undo goes on to the change before the reverted ones.
+    expect(await planpilot(sessionId, "undo")).toContain("Undid 1 mutation(s)")
+    expect(app.getStep(first.id).content).toBe("First")
+    expect(app.planWithSteps(planId).steps.map((step) => step.id)).toEqual([first.id])
+  })
+})
@@ -0,0 +1,49 @@
+import { describe, expect, test } from "bun:test"
+import { spawnSync } from "node:child_process"
+import { mkdirSync } from "node:fs"
+import path from "node:path"
+import { PlanpilotApp } from "../src/lib/app"
+import { openDatabase } from "../src/lib/db"
+import { checkWaitCondition, prepareWaitCondition } from "../src/lib/wait"
+import { PLANPILOT_DIR } from "./support"
+
+describe("step waits", () => {
+  test("a command condition does not wait for processes the command leaves running", async () => {
+    const app = new PlanpilotApp(openDatabase(), "ses_wait")
+    const startedAt = Date.now()
+    const check = await checkWaitCondition(app, {
+      kind: "command",
+      target: "(sleep 8 &); exit 0",
+      cwd: PLANPILOT_DIR,
+      onTimeout: "continue",
+    })
+    expect(check).toEqual({ met: true, detail: "command exited 0" })
+    expect(Date.now() - startedAt).toBeLessThan(5000)
+  })
+
+  test("a git-ref condition tells a deleted ref from a failed lookup", async () => {
+    const app = new PlanpilotApp(openDatabase(), "ses_wait")
+    const repo = path.join(PLANPILOT_DIR, "wait-repo")
+    mkdirSync(repo, { recursive: true })
+    const git = (...args: string[]) =>
+      spawnSync("git", ["-c", "user.name=test", "-c", "user.email=test@example.com", ...args], { cwd: repo })
+    git("init", "-q")
+    git("commit", "-q", "--allow-empty", "-m", "start")
+    git("branch", "feature")
+
+    const condition = await prepareWaitCondition({ kind: "git-ref", target: "feature" }, repo)
+    expect(condition.baseline).toMatch(/^[0-9a-f]{40}$/)
+    expect(await checkWaitCondition(app, condition)).toEqual({ met: false, detail: "feature unchanged" })
+
+    // Outside any repository git cannot say where the ref is, so the wait stays armed.
+    const outside = await checkWaitCondition(app, { ...condition, cwd: path.parse(PLANPILOT_DIR).root })
+    expect(outside.met).toBe(false)
+    expect(outside.detail).toContain("cannot look up feature")
+    await expect(prepareWaitCondition({ kind: "git-ref", target: "feature" }, path.parse(PLANPILOT_DIR).root)).rejects.toThrow(
+      "cannot look up git ref feature",
+    )
+
+    git("branch", "-D", "feature")
+    expect(await checkWaitCondition(app, condition)).toEqual({ met: true, detail: "feature moved to (deleted)" })
+  })
+})
@@ -2,6 +2,7 @@ import fs from "fs/promises"
 import path from "path"
 import { defineConfig } from "tsup"
 import packageJson from "./package.json"
+import { PLAN_DOCUMENT_SCHEMA, PLAN_DOCUMENT_SCHEMA_FILE } from "./src/lib/document"
 
 const keywordRuleSchema = {
   title: "Keywords",
@@ -42,6 +43,14 @@ const keywordRuleSchema = {
   additionalProperties: false,
 }
 
+const ruleMatcherSchema = {
+  title: "Match",
+  description:
+    "Structured conditions on the event's fields: {field, regex, flags, equals, min, max} combined with {and: [...]}, {or: [...]} and {not: ...}. Fields: text, error.name, message, statusCode, retryable, attempt, permission, patterns, reply, question.header, question.text. Null matches any event.",
+  type: ["object", "null"],
+  default: null,
+}
+
 const eventRuleSchema = {
   type: "object",
   properties: {
@@ -58,6 +67,7 @@ const eventRuleSchema = {
       default: false,
     },
     keywords: keywordRuleSchema,
+    match: ruleMatcherSchema,
   },
   additionalProperties: false,
 }
@@ -77,6 +87,9 @@ const zhCnText: Record<string, string> = {
   None: "无",
   "Do not trigger if any keyword matches the event summary text.": "如果任意关键词匹配事件摘要文本则不触发。",
   "Match case": "区分大小写",
+  Match: "匹配条件",
+  "Structured conditions on the event's fields: {field, regex, flags, equals, min, max} combined with {and: [...]}, {or: [...]} and {not: ...}. Fields: text, error.name, message, statusCode, retryable, attempt, permission, patterns, reply, question.header, question.text. Null matches any event.":
+    "针对事件字段的结构化条件：{field, regex, flags, equals, min, max}，可用 {and: [...]}、{or: [...]} 与 {not: ...} 组合。字段：text、error.name、message、statusCode、retryable、attempt、permission、patterns、reply、question.header、question.text。为 null 时匹配任意事件。",
   "Use case-sensitive matching.": "使用区分大小写匹配。",
   Enabled: "启用",
   "Enable this trigger.": "启用此触发器。",
@@ -87,6 +100,9 @@ const zhCnText: Record<string, string> = {
   "Operational switches for Planpilot.": "Planpilot 的运行开关。",
   Paused: "已暂停",
   "Pause auto-continue in this OpenCode instance.": "在此 OpenCode 实例中暂停自动继续。",
+  "Allow agent config changes": "允许智能体修改配置",
+  "Let agents run config set, unset and reset through the planpilot tool.":
+    "允许智能体通过 planpilot 工具执行 config set、unset 与 reset。",
   "Auto continue": "自动继续",
   "Rules for automatically continuing when the session becomes idle.": "会话空闲时自动继续的规则。",
   "Retry failed sends": "重试发送失败",
@@ -97,6 +113,29 @@ const zhCnText: Record<string, string> = {
   "Maximum number of retry attempts.": "重试尝试的最大次数。",
   "Delays (ms)": "延迟（毫秒）",
   "Retry delays in milliseconds.": "以毫秒为单位的重试延迟。",
+  "Stall detection": "停滞检测",
+  "Stop re-sending a step that the agent keeps ending turns on without progress.":
+    "当智能体多次结束回合却没有推进某个 step 时，停止重复发送该 step。",
+  "Enable stall detection for auto-continue.": "为自动继续启用停滞检测。",
+  Threshold: "阈值",
+  "Number of auto-sends without any step or goal status change that counts as a stall.":
+    "在 step 或 goal 状态没有任何变化的情况下，自动发送达到该次数即视为停滞。",
+  Action: "动作",
+  "hold: hold auto-continue for the session until a user message, leaving the plan as it is; human: hand the step to a human; comment: append a diagnostic comment and keep going.":
+    "hold：暂缓该会话的自动继续直到用户发送消息，计划保持不变；human：将 step 交给人工；comment：追加诊断备注并继续。",
+  Budget: "预算",
+  "Limits on unattended runs of the active plan, counted from its activation. Plans can override them.":
+    "对活动计划无人值守运行的限制，从计划激活时开始计算。单个计划可以覆盖这些设置。",
+  "Max sends": "最大发送次数",
+  "Maximum auto-continue sends per plan activation (0 = no limit).": "每次计划激活允许的最大自动继续发送次数（0 = 不限制）。",
+  "Max duration (ms)": "最长时长（毫秒）",
+  "Maximum wall-clock time since the plan was activated (0 = no limit).": "自计划激活起允许的最长实际时间（0 = 不限制）。",
+  "Time windows": "时间窗口",
+  "Local time windows (HH:MM-HH:MM, may wrap midnight) when auto-continue may send; empty allows any time.":
+    "允许自动继续发送的本地时间窗口（HH:MM-HH:MM，可跨越午夜）；留空表示任何时间都允许。",
+  "Message template": "消息模板",
+  "Template for the auto-continue message with {{variable}} placeholders (plan.title, plan.content, step.detail, step.goals, steps.remaining, trigger.detail, previous.comment, attempt, timestamp); empty uses the built-in message. Plans can set their own.":
+    "自动继续消息的模板，使用 {{variable}} 占位符（plan.title、plan.content、step.detail、step.goals、steps.remaining、trigger.detail、previous.comment、attempt、timestamp）；留空则使用内置消息。单个计划可以设置自己的模板。",
   "On session error": "会话错误时",
   "Trigger when the session errors.": "当会话报错时触发。",
   "Enable auto-continue triggers on session errors.": "在会话错误时启用自动继续触发。",
@@ -120,6 +159,18 @@ const zhCnText: Record<string, string> = {
   "Trigger when a question is asked.": "提出问题时触发。",
   "On question rejected": "问题被拒绝时",
   "Trigger when a question is rejected.": "问题被拒绝时触发。",
+  Hooks: "钩子",
+  "Local shell commands or localhost webhooks run on plan lifecycle events; the event is passed as JSON on stdin or in the POST body.":
+    "在计划生命周期事件上运行的本地 shell 命令或 localhost webhook；事件以 JSON 形式通过 stdin 或 POST 请求体传入。",
+  Event: "事件",
+  "The lifecycle event that runs this hook.": "触发此钩子的生命周期事件。",
+  Command: "命令",
+  "Shell command to run. Set either a command or a URL.": "要运行的 shell 命令。命令和 URL 只能设置其一。",
+  URL: "URL",
+  "http(s) URL on localhost, 127.0.0.1 or [::1] to POST to. Set either a command or a URL.":
+    "要 POST 到的 localhost、127.0.0.1 或 [::1] 上的 http(s) URL。命令和 URL 只能设置其一。",
+  "Timeout (ms)": "超时（毫秒）",
+  "How long the hook may run before it is stopped.": "钩子被终止前允许运行的时长。",
 }
 
 function toZhCn(text: string): string {
@@ -199,6 +250,12 @@ const studioManifest = {
             type: "boolean",
             default: false,
           },
+          allowAgentConfigChanges: {
+            title: "Allow agent config changes",
+            description: "Let agents run config set, unset and reset through the planpilot tool.",
+            type: "boolean",
+            default: false,
+          },
         },
         additionalProperties: false,
       },
@@ -235,6 +292,71 @@ const studioManifest = {
             },
             additionalProperties: false,
           },
+          stall: {
+            title: "Stall detection",
+            description: "Stop re-sending a step that the agent keeps ending turns on without progress.",
+            type: "object",
+            properties: {
+              enabled: {
+                title: "Enabled",
+                description: "Enable stall detection for auto-continue.",
+                type: "boolean",
+                default: true,
+              },
+              threshold: {
+                title: "Threshold",
+                description: "Number of auto-sends without any step or goal status change that counts as a stall.",
+                type: "integer",
+                minimum: 1,
+                default: 5,
+              },
+              action: {
+                title: "Action",
+                description:
+                  "hold: hold auto-continue for the session until a user message, leaving the plan as it is; human: hand the step to a human; comment: append a diagnostic comment and keep going.",
+                type: "string",
+                enum: ["hold", "human", "comment"],
+                default: "hold",
+              },
+            },
+            additionalProperties: false,
+          },
+          budget: {
+            title: "Budget",
+            description: "Limits on unattended runs of the active plan, counted from its activation. Plans can override them.",
+            type: "object",
+            properties: {
+              maxSends: {
+                title: "Max sends",
+                description: "Maximum auto-continue sends per plan activation (0 = no limit).",
+                type: "integer",
+                minimum: 0,
+                default: 0,
+              },
+              maxDurationMs: {
+                title: "Max duration (ms)",
+                description: "Maximum wall-clock time since the plan was activated (0 = no limit).",
+                type: "integer",
+                minimum: 0,
+                default: 0,
+              },
+              windows: {
+                title: "Time windows",
+                description: "Local time windows (HH:MM-HH:MM, may wrap midnight) when auto-continue may send; empty allows any time.",
+                type: "array",
+                items: { type: "string", pattern: "^\\d{1,2}:\\d{2}\\s*-\\s*\\d{1,2}:\\d{2}$" },
+                default: [],
+              },
+            },
+            additionalProperties: false,
+          },
+          messageTemplate: {
+            title: "Message template",
+            description:
+              "Template for the auto-continue message with {{variable}} placeholders (plan.title, plan.content, step.detail, step.goals, steps.remaining, trigger.detail, previous.comment, attempt, timestamp); empty uses the built-in message. Plans can set their own.",
+            type: "string",
+            default: "",
+          },
           onSessionError: {
             title: "On session error",
             description: "Trigger when the session errors.",
@@ -253,6 +375,7 @@ const studioManifest = {
                 default: true,
               },
               keywords: keywordRuleSchema,
+              match: ruleMatcherSchema,
               errorNames: {
                 title: "Error names",
                 description: "Optional list of error.name values to match.",
@@ -294,6 +417,7 @@ const studioManifest = {
                 default: false,
               },
               keywords: keywordRuleSchema,
+              match: ruleMatcherSchema,
               attemptAtLeast: {
                 title: "Attempt at least",
                 description: "Only trigger when retry attempt is at least this value.",
@@ -327,6 +451,7 @@ const studioManifest = {
                 default: true,
               },
               keywords: keywordRuleSchema,
+              match: ruleMatcherSchema,
             },
           },
           onQuestionAsked: {
@@ -352,11 +477,57 @@ const studioManifest = {
                 default: true,
               },
               keywords: keywordRuleSchema,
+              match: ruleMatcherSchema,
             },
           },
         },
         additionalProperties: false,
       },
+      hooks: {
+        title: "Hooks",
+        description:
+          "Local shell commands or localhost webhooks run on plan lifecycle events; the event is passed as JSON on stdin or in the POST body.",
+        type: "array",
+        default: [],
+        items: {
+          type: "object",
+          properties: {
+            event: {
+              title: "Event",
+              description: "The lifecycle event that runs this hook.",
+              type: "string",
+              enum: [
+                "plan.done",
+                "step.done",
+                "goal.done",
+                "plan.activated",
+                "autocontinue.sent",
+                "autocontinue.stalled",
+                "next_step.human",
+              ],
+            },
+            command: {
+              title: "Command",
+              description: "Shell command to run. Set either a command or a URL.",
+              type: "string",
+            },
+            url: {
+              title: "URL",
+              description: "http(s) URL on localhost, 127.0.0.1 or [::1] to POST to. Set either a command or a URL.",
+              type: "string",
+            },
+            timeoutMs: {
+              title: "Timeout (ms)",
+              description: "How long the hook may run before it is stopped.",
+              type: "integer",
+              minimum: 1,
+              default: 10000,
+            },
+          },
+          required: ["event"],
+          additionalProperties: false,
+        },
+      },
     },
     additionalProperties: false,
   }),
@@ -369,6 +540,16 @@ async function writeStudioManifest() {
   await fs.writeFile(manifestPath, `${JSON.stringify(studioManifest, null, 2)}\n`, "utf8")
 }
 
+async function writePlanDocumentSchema() {
+  const distDir = path.resolve("dist")
+  await fs.mkdir(distDir, { recursive: true })
+  await fs.writeFile(
+    path.join(distDir, PLAN_DOCUMENT_SCHEMA_FILE),
+    `${JSON.stringify(PLAN_DOCUMENT_SCHEMA, null, 2)}\n`,
+    "utf8",
+  )
+}
+
 export default defineConfig({
   entry: {
     index: "src/index.ts",
@@ -383,5 +564,6 @@ export default defineConfig({
   external: ["bun:sqlite", "xdg-basedir", "@opencode-ai/plugin"],
   onSuccess: async () => {
     await writeStudioManifest()
+    await writePlanDocumentSchema()
   },
 })